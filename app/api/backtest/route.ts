@@ -0,0 +1,134 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { backtestForecasts } from "@/lib/backtesting";
+import { dataCoverage } from "@/lib/forecasting";
+import { fetchPricedSalesHistory } from "@/lib/forecast-job";
+import { getLocationEvents } from "@/lib/holidays";
+import {
+  getClosedDays,
+  openDays,
+  parseOpeningHours,
+} from "@/lib/opening-hours";
+import { isOrganizationMember } from "@/lib/organization-access";
+import { loadOutlierReviews } from "@/lib/outliers";
+import { getLocationPromotions } from "@/lib/promotions";
+import { getScheduledOrders, withoutOrders } from "@/lib/scheduled-orders";
+import { extractTimezoneFromTIMETZ, getLocalDateString } from "@/lib/timezones";
+
+// Replayed synchronously in the request, so kept within function time limits
+const MAX_FOLDS = 56;
+const MAX_HORIZON_DAYS = 7;
+
+// GET /api/backtest?locationId=...&folds=28&horizon=1
+export async function GET(request: NextRequest) {
+  const { userId } = await auth.protect();
+
+  const searchParams = request.nextUrl.searchParams;
+  const locationId = searchParams.get("locationId");
+  const folds = Number(searchParams.get("folds")) || undefined;
+  const horizonDays = Number(searchParams.get("horizon")) || undefined;
+
+  if (!locationId) {
+    return NextResponse.json(
+      { error: "Missing required field: locationId" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { data: location, error: locationError } = await supabase
+      .from("locations")
+      .select(
+        "id, organization_id, name, kitchen_close, country, opening_hours"
+      )
+      .eq("id", locationId)
+      .maybeSingle();
+
+    if (locationError || !location) {
+      console.error(`Location ${locationId} not found:`, locationError);
+      return NextResponse.json(
+        { error: "Location not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!(await isOrganizationMember(userId, location.organization_id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const timezone = extractTimezoneFromTIMETZ(location.kitchen_close);
+    const {
+      salesHistory: recordedSales,
+      prices,
+      promotions,
+    } = await fetchPricedSalesHistory(locationId, timezone);
+
+    if (recordedSales.length === 0) {
+      return NextResponse.json(
+        { error: "No sales data for this location" },
+        { status: 404 }
+      );
+    }
+
+    // Replayed without catering, like the forecasts are trained
+    const { fulfilled } = await getScheduledOrders(
+      locationId,
+      recordedSales[0].date,
+      recordedSales[recordedSales.length - 1].date
+    );
+    const salesHistory = withoutOrders(recordedSales, fulfilled);
+
+    const events = await getLocationEvents(
+      location,
+      salesHistory[0].date,
+      salesHistory[salesHistory.length - 1].date
+    );
+
+    const plannedPromotions = await getLocationPromotions(
+      locationId,
+      salesHistory[0].date,
+      salesHistory[salesHistory.length - 1].date
+    );
+
+    // One-off closures only: the weekly schedule is today's, and past sales
+    // on a weekday it now closes were real
+    const closedDays = await getClosedDays(
+      location,
+      salesHistory[0].date,
+      salesHistory[salesHistory.length - 1].date,
+      getLocalDateString(timezone, 1)
+    );
+
+    const result = backtestForecasts(salesHistory, {
+      folds: folds && Math.min(folds, MAX_FOLDS),
+      horizonDays: horizonDays && Math.min(horizonDays, MAX_HORIZON_DAYS),
+      events,
+      promotions: [...promotions, ...plannedPromotions],
+      prices,
+      outlierReviews: await loadOutlierReviews(locationId),
+      closedDays,
+    });
+
+    return NextResponse.json({
+      location_id: location.id,
+      location_name: location.name,
+      ...result,
+      coverage: dataCoverage(
+        salesHistory,
+        openDays(
+          parseOpeningHours(location.opening_hours),
+          closedDays,
+          salesHistory[0].date,
+          salesHistory[salesHistory.length - 1].date
+        )
+      ),
+    });
+  } catch (error) {
+    console.error("Error running backtest:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
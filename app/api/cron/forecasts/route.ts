@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rejectUnlessCron } from "@/lib/cron";
+import {
+  DEFAULT_HORIZON_DAYS,
+  MAX_HORIZON_DAYS,
+  runForecastJob,
+} from "@/lib/forecast-job";
+
+// Forecasting every location can take a while
+export const maxDuration = 300;
+
+// GET /api/cron/forecasts?days=7 - triggered daily by Vercel Cron (see vercel.json)
+export async function GET(request: NextRequest) {
+  const rejection = rejectUnlessCron(request);
+  if (rejection) return rejection;
+
+  // Optional horizon override, clamped to 1..MAX_HORIZON_DAYS
+  const daysParam = Number(request.nextUrl.searchParams.get("days"));
+  const horizonDays =
+    Number.isInteger(daysParam) && daysParam > 0
+      ? Math.min(daysParam, MAX_HORIZON_DAYS)
+      : DEFAULT_HORIZON_DAYS;
+
+  try {
+    const result = await runForecastJob(horizonDays);
+
+    console.log(
+      `Forecast job finished: ${result.succeeded} succeeded, ${result.failed} failed, ${result.skipped} skipped`
+    );
+
+    return NextResponse.json(result, {
+      status: result.status === "failed" ? 500 : 200,
+    });
+  } catch (error) {
+    console.error("Error running forecast job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rejectUnlessCron } from "@/lib/cron";
+import { runModelTuningJob } from "@/lib/model-tuning-job";
+
+// Fits are slow; the job stops starting new ones well before this
+export const maxDuration = 300;
+
+// GET /api/cron/model-tuning - triggered daily by Vercel Cron (see vercel.json)
+export async function GET(request: NextRequest) {
+  const rejection = rejectUnlessCron(request);
+  if (rejection) return rejection;
+
+  try {
+    const result = await runModelTuningJob();
+
+    console.log(
+      `Model tuning job finished: ${result.fitted} fitted, ${result.failed} failed, ${result.skipped} skipped, ${result.remaining} left for the next run`
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error running model tuning job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
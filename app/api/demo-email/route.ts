@@ -1,39 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { supabase } from "@/lib/supabase";
 import { Resend } from "resend";
-
-// Simple forecasting function
-function predictTomorrowSales(
-  historicalData: { date: string; item: string; quantity: number }[]
-): { [item: string]: number } {
-  // Group by item
-  const itemData: { [item: string]: number[] } = {};
-
-  historicalData.forEach((record) => {
-    if (!itemData[record.item]) {
-      itemData[record.item] = [];
-    }
-    itemData[record.item].push(record.quantity);
-  });
-
-  // For each item, calculate average of last 7 days (or all if less)
-  const predictions: { [item: string]: number } = {};
-
-  Object.keys(itemData).forEach((item) => {
-    const quantities = itemData[item];
-    const last7 = quantities.slice(-7);
-    const avg =
-      last7.length > 0 ? last7.reduce((a, b) => a + b, 0) / last7.length : 0;
-    predictions[item] = Math.round(avg);
-  });
-
-  return predictions;
-}
+import {
+  demoForecast,
+  demoQuantities,
+  demoTimezone,
+  formatDemoForecast,
+  loadDemoSales,
+} from "@/lib/demo-forecast";
+import { SalesRecord } from "@/lib/forecasting";
 
 // POST /api/demo-email
 export async function POST(req: NextRequest) {
   try {
-    const { restaurant, email } = await req.json();
+    const { restaurant, email, timezone } = await req.json();
 
     if (!restaurant || !email) {
       return NextResponse.json(
@@ -42,14 +21,10 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Query sales_demo for this restaurant
-    const { data: salesData, error } = await supabase
-      .from("sales_demo")
-      .select("date, item, quantity")
-      .eq("restaurant", restaurant)
-      .order("date", { ascending: true });
-
-    if (error) {
+    let salesData: SalesRecord[];
+    try {
+      salesData = await loadDemoSales(restaurant);
+    } catch (error) {
       console.error("Error fetching sales demo data:", error);
       return NextResponse.json(
         { success: false, error: "Database error" },
@@ -65,29 +40,10 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    // Generate forecast
-    const forecast = predictTomorrowSales(salesData);
-
-    // Format forecast message
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const dateStr = tomorrow.toLocaleDateString("en-US", {
-      weekday: "long",
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
-
-    let forecastText = `📊 *${restaurant} Sales Forecast for ${dateStr}*\n\n`;
-
-    // Sort products by quantity (highest to lowest)
-    const sortedForecast = Object.entries(forecast).sort((a, b) => b[1] - a[1]);
-
-    sortedForecast.forEach(([item, qty]) => {
-      forecastText += `• ${item}: ${qty} units\n`;
-    });
-
-    forecastText += `\n*Based on historical sales analysis*`;
+    // Same forecaster as production, with a backtest on the prospect's data
+    const demo = demoForecast(salesData, demoTimezone(timezone));
+    const { title, text: forecastText } = formatDemoForecast(restaurant, demo);
+    const forecast = demoQuantities(demo);
 
     // Send email using Resend
     const resendApiKey = process.env.RESEND_API_KEY;
@@ -99,7 +55,7 @@ export async function POST(req: NextRequest) {
         await resend.emails.send({
           from: "dev@xtock.ai", // Replace with your verified domain
           to: email,
-          subject: `${restaurant} Sales Forecast for ${dateStr}`,
+          subject: title,
           text: forecastText,
           html: forecastText.replace(/\n/g, "<br>"),
         });
@@ -108,6 +64,7 @@ export async function POST(req: NextRequest) {
           success: true,
           message: "Forecast sent via Email!",
           forecast,
+          accuracy: demo.accuracy,
         });
       } catch (emailError) {
         console.error("Error sending email:", emailError);
@@ -125,6 +82,7 @@ export async function POST(req: NextRequest) {
         success: true,
         message: "Demo mode: Forecast generated (Email not configured)",
         forecast,
+        accuracy: demo.accuracy,
       });
     }
   } catch (error) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { demoTimezone } from "@/lib/demo-forecast";
 import twilio from "twilio";
 
 // Normalize phone number to standard format
@@ -35,7 +36,7 @@ function normalizePhoneForStorage(phone: string): string {
 // POST /api/demo-whatsapp
 export async function POST(req: NextRequest) {
   try {
-    const { restaurant, phone } = await req.json();
+    const { restaurant, phone, timezone } = await req.json();
 
     if (!restaurant || !phone) {
       return NextResponse.json(
@@ -78,6 +79,7 @@ export async function POST(req: NextRequest) {
         {
           phone: normalizedPhone, // Use normalized phone for consistency
           restaurant,
+          timezone: demoTimezone(timezone),
           status: "pending",
         },
       ])
@@ -0,0 +1,164 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { UNCATEGORIZED } from "@/lib/forecasting";
+import { isOrganizationMember } from "@/lib/organization-access";
+
+interface ForecastNode {
+  predicted_quantity: number;
+  prediction_quantiles: { [quantile: string]: number } | null;
+}
+
+interface AggregateRow extends ForecastNode {
+  location_id: string;
+  level: "category" | "location";
+  category: string | null;
+  reconciliation: string;
+}
+
+interface ItemForecastRow extends ForecastNode {
+  location_id: string;
+  item: string;
+}
+
+const toNode = (row: ForecastNode): ForecastNode => ({
+  predicted_quantity: Number(row.predicted_quantity),
+  prediction_quantiles: row.prediction_quantiles,
+});
+
+// GET /api/forecast-hierarchy?date=YYYY-MM-DD&locationId=... (or &organizationId=...)
+// Item, category and location forecasts of one day, reconciled so each level
+// adds up to the one above. The organization total is the sum of its
+// locations; quantiles don't add up, so it has none.
+export async function GET(request: NextRequest) {
+  const { userId } = await auth.protect();
+
+  const searchParams = request.nextUrl.searchParams;
+  const locationId = searchParams.get("locationId");
+  const organizationId = searchParams.get("organizationId");
+  const date = searchParams.get("date");
+
+  if ((!locationId && !organizationId) || !date) {
+    return NextResponse.json(
+      {
+        error: "Missing required fields: date and locationId or organizationId",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    let locationsQuery = supabase
+      .from("locations")
+      .select("id, name, organization_id");
+    locationsQuery = locationId
+      ? locationsQuery.eq("id", locationId)
+      : locationsQuery.eq("organization_id", organizationId);
+
+    const { data: locations, error: locationsError } = await locationsQuery;
+
+    if (locationsError) {
+      throw new Error(`Failed to fetch locations: ${locationsError.message}`);
+    }
+
+    if (!locations || locations.length === 0) {
+      return NextResponse.json(
+        { error: "Location not found" },
+        { status: 404 }
+      );
+    }
+
+    const locationIds = locations.map((location) => location.id);
+    const orgId = locations[0].organization_id;
+
+    if (!(await isOrganizationMember(userId, orgId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const [aggregatesResult, itemsResult, categoriesResult] = await Promise.all(
+      [
+        supabase
+          .from("forecast_aggregates")
+          .select(
+            "location_id, level, category, predicted_quantity, prediction_quantiles, reconciliation"
+          )
+          .in("location_id", locationIds)
+          .eq("forecast_date", date),
+        supabase
+          .from("forecasts")
+          .select("location_id, item, predicted_quantity, prediction_quantiles")
+          .in("location_id", locationIds)
+          .eq("forecast_date", date),
+        supabase
+          .from("item_categories")
+          .select("item, category")
+          .eq("organization_id", orgId),
+      ]
+    );
+
+    const queryError =
+      aggregatesResult.error || itemsResult.error || categoriesResult.error;
+    if (queryError) {
+      throw new Error(`Failed to fetch forecasts: ${queryError.message}`);
+    }
+
+    const itemCategory: { [item: string]: string } = {};
+    (categoriesResult.data || []).forEach((row) => {
+      itemCategory[row.item] = row.category;
+    });
+
+    const aggregates = (aggregatesResult.data || []) as AggregateRow[];
+    const items = (itemsResult.data || []) as ItemForecastRow[];
+
+    const hierarchy = locations
+      .map((location) => {
+        const locationAggregates = aggregates.filter(
+          (row) => row.location_id === location.id
+        );
+        const total = locationAggregates.find(
+          (row) => row.level === "location"
+        );
+        if (!total) return null;
+
+        const categories = locationAggregates
+          .filter((row) => row.level === "category")
+          .map((row) => ({
+            category: row.category as string,
+            ...toNode(row),
+            items: items
+              .filter(
+                (item) =>
+                  item.location_id === location.id &&
+                  (itemCategory[item.item] || UNCATEGORIZED) === row.category
+              )
+              .map((item) => ({ item: item.item, ...toNode(item) })),
+          }))
+          .sort((a, b) => a.category.localeCompare(b.category));
+
+        return {
+          location_id: location.id,
+          location_name: location.name,
+          reconciliation: total.reconciliation,
+          ...toNode(total),
+          categories,
+        };
+      })
+      .filter((location) => location !== null);
+
+    return NextResponse.json({
+      date,
+      organization_id: orgId,
+      predicted_quantity: hierarchy.reduce(
+        (sum, location) => sum + location.predicted_quantity,
+        0
+      ),
+      locations: hierarchy,
+    });
+  } catch (error) {
+    console.error("Error fetching forecast hierarchy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
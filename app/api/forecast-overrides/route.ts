@@ -0,0 +1,146 @@
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { isOrganizationMember } from "@/lib/organization-access";
+import { applyOverride, getOverrideReport } from "@/lib/overrides";
+import { extractTimezoneFromTIMETZ, getLocalDateString } from "@/lib/timezones";
+
+const DEFAULT_REPORT_DAYS = 90;
+const MAX_REPORT_DAYS = 365;
+
+// GET /api/forecast-overrides?locationId=...&days=90
+// Override log of a location and whether the overrides beat the model
+export async function GET(request: NextRequest) {
+  const { userId } = await auth.protect();
+
+  const searchParams = request.nextUrl.searchParams;
+  const locationId = searchParams.get("locationId");
+  const days = Math.min(
+    Number(searchParams.get("days")) || DEFAULT_REPORT_DAYS,
+    MAX_REPORT_DAYS
+  );
+
+  if (!locationId) {
+    return NextResponse.json(
+      { error: "Missing required field: locationId" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { data: location, error: locationError } = await supabase
+      .from("locations")
+      .select("id, organization_id, kitchen_close")
+      .eq("id", locationId)
+      .maybeSingle();
+
+    if (locationError || !location) {
+      console.error(`Location ${locationId} not found:`, locationError);
+      return NextResponse.json(
+        { error: "Location not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!(await isOrganizationMember(userId, location.organization_id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { overrides, report } = await getOverrideReport(
+      location,
+      extractTimezoneFromTIMETZ(location.kitchen_close),
+      days
+    );
+
+    return NextResponse.json({ location_id: location.id, overrides, report });
+  } catch (error) {
+    console.error("Error fetching forecast overrides:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/forecast-overrides
+// { locationId, date, item, quantity, reason } - a null quantity reverts to
+// the model's forecast
+export async function POST(request: NextRequest) {
+  const { userId } = await auth.protect();
+  const user = await currentUser();
+
+  try {
+    const { locationId, date, item, quantity, reason } = await request.json();
+
+    if (!locationId || !date || !item || quantity === undefined) {
+      return NextResponse.json(
+        { error: "Missing required fields: locationId, date, item, quantity" },
+        { status: 400 }
+      );
+    }
+
+    if (quantity !== null && (!Number.isInteger(quantity) || quantity < 0)) {
+      return NextResponse.json(
+        { error: "Quantity must be a whole number of units" },
+        { status: 400 }
+      );
+    }
+
+    const { data: location, error: locationError } = await supabase
+      .from("locations")
+      .select("id, organization_id, kitchen_close")
+      .eq("id", locationId)
+      .maybeSingle();
+
+    if (locationError || !location) {
+      console.error(`Location ${locationId} not found:`, locationError);
+      return NextResponse.json(
+        { error: "Location not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!(await isOrganizationMember(userId, location.organization_id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Forecasts go out the day before, so sold days can't be overridden
+    const tomorrow = getLocalDateString(
+      extractTimezoneFromTIMETZ(location.kitchen_close),
+      1
+    );
+    if (date < tomorrow) {
+      return NextResponse.json(
+        { error: `Only forecasts from ${tomorrow} on can be overridden` },
+        { status: 400 }
+      );
+    }
+
+    const override = await applyOverride({
+      location,
+      forecastDate: date,
+      item,
+      quantity,
+      reason,
+      source: "dashboard",
+      overriddenBy: user?.primaryEmailAddress?.emailAddress ?? user?.id,
+    });
+
+    if (!override) {
+      return NextResponse.json(
+        { error: `No forecast for ${item} on ${date} to override` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ override });
+  } catch (error) {
+    console.error("Error overriding forecast:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { extractTimezoneFromTIMETZ, getLocalDateString } from "@/lib/timezones";
 
 interface CollaboratorRow {
   id: string;
@@ -12,6 +13,7 @@ interface LocationRow {
   id: string;
   name: string;
   organization_id: string;
+  kitchen_close: string;
 }
 
 interface ForecastRow {
@@ -91,8 +93,25 @@ async function handleForecastApproval(request: NextRequest) {
     const locationId = matchingCollaborator.location_id;
     console.log(`Found collaborator for location: ${locationId}`);
 
-    // Use today's date as forecast date
-    const forecastDate = new Date().toISOString().split("T")[0];
+    // Get location info
+    const { data: location, error: locationError } = await supabase
+      .from("locations")
+      .select("id, name, organization_id, kitchen_close")
+      .eq("id", locationId)
+      .single();
+
+    if (locationError || !location) {
+      console.error(`Location ${locationId} not found:`, locationError);
+      return NextResponse.json(
+        { error: "Location not found" },
+        { status: 404 }
+      );
+    }
+
+    // Use today's date as forecast date, in the location's timezone
+    const forecastDate = getLocalDateString(
+      extractTimezoneFromTIMETZ(location.kitchen_close)
+    );
 
     // Get forecasts for this location and date
     const { data: forecasts, error: forecastError } = await supabase
@@ -119,21 +138,6 @@ async function handleForecastApproval(request: NextRequest) {
       );
     }
 
-    // Get location info
-    const { data: location, error: locationError } = await supabase
-      .from("locations")
-      .select("id, name, organization_id")
-      .eq("id", locationId)
-      .single();
-
-    if (locationError || !location) {
-      console.error(`Location ${locationId} not found:`, locationError);
-      return NextResponse.json(
-        { error: "Location not found" },
-        { status: 404 }
-      );
-    }
-
     // TODO: Implement WhatsApp forecast sending logic here
     // This would typically involve calling a WhatsApp API or service
     console.log(
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { extractTimezoneFromTIMETZ, getLocalDateString } from "@/lib/timezones";
 
 interface CollaboratorRow {
   id: string;
@@ -12,6 +13,7 @@ interface LocationRow {
   id: string;
   name: string;
   organization_id: string;
+  kitchen_close: string;
 }
 
 export async function GET(request: NextRequest) {
@@ -78,7 +80,7 @@ async function handleForecastDenial(request: NextRequest) {
     // Get location info
     const { data: location, error: locationError } = await supabase
       .from("locations")
-      .select("id, name, organization_id")
+      .select("id, name, organization_id, kitchen_close")
       .eq("id", locationId)
       .single();
 
@@ -90,8 +92,10 @@ async function handleForecastDenial(request: NextRequest) {
       );
     }
 
-    // Use today's date
-    const forecastDate = new Date().toISOString().split("T")[0];
+    // Use today's date, in the location's timezone
+    const forecastDate = getLocalDateString(
+      extractTimezoneFromTIMETZ(location.kitchen_close)
+    );
 
     // Record the denial
     const { error: responseError } = await supabase
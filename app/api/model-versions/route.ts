@@ -0,0 +1,178 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { fetchSalesHistory } from "@/lib/forecast-job";
+import {
+  ComparedForecast,
+  MODEL_VERSIONS,
+  compareModels,
+  loadOrganizationModels,
+  loadVersionForecasts,
+  pairForecasts,
+  saveOrganizationModels,
+} from "@/lib/model-versions";
+import { isOrganizationMember } from "@/lib/organization-access";
+import {
+  addDaysToDateString,
+  extractTimezoneFromTIMETZ,
+  getLocalDateString,
+} from "@/lib/timezones";
+
+const DEFAULT_COMPARISON_DAYS = 28;
+const MAX_COMPARISON_DAYS = 180;
+
+// GET /api/model-versions?organizationId=...&days=28
+// Available versions, the organization's champion and challenger, and how
+// both did against actual sales over the same items and days
+export async function GET(request: NextRequest) {
+  const { userId } = await auth.protect();
+
+  const searchParams = request.nextUrl.searchParams;
+  const organizationId = searchParams.get("organizationId");
+  const days = Math.min(
+    Number(searchParams.get("days")) || DEFAULT_COMPARISON_DAYS,
+    MAX_COMPARISON_DAYS
+  );
+
+  if (!organizationId) {
+    return NextResponse.json(
+      { error: "Missing required field: organizationId" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!(await isOrganizationMember(userId, organizationId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const models = await loadOrganizationModels(organizationId);
+    const response = {
+      versions: MODEL_VERSIONS,
+      champion: models.champion,
+      challenger: models.challenger,
+      days,
+    };
+
+    if (!models.challenger) {
+      return NextResponse.json({ ...response, overall: null, locations: [] });
+    }
+
+    const { data: locations, error: locationsError } = await supabase
+      .from("locations")
+      .select("id, name, kitchen_close")
+      .eq("organization_id", organizationId)
+      .order("name");
+
+    if (locationsError) {
+      throw new Error(`Failed to fetch locations: ${locationsError.message}`);
+    }
+
+    // Sequential, like the forecast job
+    const allPairs: ComparedForecast[] = [];
+    const locationComparisons = [];
+    for (const location of locations || []) {
+      const timezone = extractTimezoneFromTIMETZ(location.kitchen_close);
+      const since = getLocalDateString(timezone, -days);
+      const forecasts = await loadVersionForecasts(
+        location.id,
+        { champion: models.champion, challenger: models.challenger },
+        since
+      );
+      if (forecasts.champion.length === 0 || forecasts.challenger.length === 0)
+        continue;
+
+      // A day early, so sales late on the first day in the location's timezone are in
+      const salesHistory = await fetchSalesHistory(
+        location.id,
+        timezone,
+        addDaysToDateString(since, -1)
+      );
+      const pairs = pairForecasts(
+        forecasts.champion,
+        forecasts.challenger,
+        salesHistory,
+        getLocalDateString(timezone)
+      );
+      if (pairs.length === 0) continue;
+
+      allPairs.push(...pairs);
+      locationComparisons.push({
+        location_id: location.id,
+        location_name: location.name,
+        ...compareModels(pairs),
+      });
+    }
+
+    return NextResponse.json({
+      ...response,
+      overall: allPairs.length > 0 ? compareModels(allPairs) : null,
+      locations: locationComparisons,
+    });
+  } catch (error) {
+    console.error("Error comparing model versions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/model-versions
+// { organizationId, challenger } starts (or, with null, stops) a shadow run;
+// { organizationId, action: "promote" } makes the challenger the champion
+export async function POST(request: NextRequest) {
+  const { userId } = await auth.protect();
+
+  try {
+    const { organizationId, challenger, action } = await request.json();
+
+    if (!organizationId) {
+      return NextResponse.json(
+        { error: "Missing required field: organizationId" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await isOrganizationMember(userId, organizationId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const models = await loadOrganizationModels(organizationId);
+
+    if (action === "promote") {
+      if (!models.challenger) {
+        return NextResponse.json(
+          { error: "No challenger to promote" },
+          { status: 400 }
+        );
+      }
+      const promoted = { champion: models.challenger, challenger: null };
+      await saveOrganizationModels(organizationId, promoted, true);
+      return NextResponse.json(promoted);
+    }
+
+    if (
+      challenger !== null &&
+      !MODEL_VERSIONS.some((version) => version.id === challenger)
+    ) {
+      return NextResponse.json(
+        { error: `Unknown model version: ${challenger}` },
+        { status: 400 }
+      );
+    }
+
+    const updated = {
+      champion: models.champion,
+      challenger: challenger === models.champion ? null : challenger,
+    };
+    await saveOrganizationModels(organizationId, updated);
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error updating model versions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
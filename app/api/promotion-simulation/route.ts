@@ -0,0 +1,157 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { fetchPricedSalesHistory } from "@/lib/forecast-job";
+import { getLocationEvents } from "@/lib/holidays";
+import { getModelVersion, getOrganizationModels } from "@/lib/model-versions";
+import { isOrganizationMember } from "@/lib/organization-access";
+import { loadOutlierReviews } from "@/lib/outliers";
+import { getLocationPromotions, simulatePromotion } from "@/lib/promotions";
+import { getScheduledOrders, withoutOrders } from "@/lib/scheduled-orders";
+import {
+  addDaysToDateString,
+  extractTimezoneFromTIMETZ,
+  getLocalDateString,
+} from "@/lib/timezones";
+
+const DEFAULT_SIMULATION_DAYS = 28;
+const MAX_SIMULATION_DAYS = 56;
+
+// POST /api/promotion-simulation
+// { locationId, item, name, startDate, endDate, weekdays, discountPercent,
+// expectedUplift, days } - forecasts the item with and without the promotion
+// on the days it would run from tomorrow (or its start) for `days` days.
+// Nothing is saved; saved promotions with the same name are replaced by this
+// one in the simulation.
+export async function POST(request: NextRequest) {
+  const { userId } = await auth.protect();
+
+  try {
+    const {
+      locationId,
+      item,
+      name,
+      startDate,
+      endDate,
+      weekdays,
+      discountPercent,
+      expectedUplift,
+      days,
+    } = await request.json();
+
+    if (!locationId || !item || !name) {
+      return NextResponse.json(
+        { error: "Missing required fields: locationId, item, name" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      discountPercent !== undefined &&
+      discountPercent !== null &&
+      !(discountPercent > 0 && discountPercent < 100)
+    ) {
+      return NextResponse.json(
+        { error: "Discount must be between 0 and 100 percent" },
+        { status: 400 }
+      );
+    }
+
+    const { data: location, error: locationError } = await supabase
+      .from("locations")
+      .select("id, organization_id, kitchen_close, country")
+      .eq("id", locationId)
+      .maybeSingle();
+
+    if (locationError || !location) {
+      console.error(`Location ${locationId} not found:`, locationError);
+      return NextResponse.json(
+        { error: "Location not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!(await isOrganizationMember(userId, location.organization_id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const timezone = extractTimezoneFromTIMETZ(location.kitchen_close);
+    const {
+      salesHistory: recordedSales,
+      prices,
+      promotions,
+    } = await fetchPricedSalesHistory(locationId, timezone);
+
+    if (!recordedSales.some((record) => record.item === item)) {
+      return NextResponse.json(
+        { error: "No sales of this item to simulate from" },
+        { status: 404 }
+      );
+    }
+
+    const tomorrow = getLocalDateString(timezone, 1);
+    // Catering isn't demand a promotion can move
+    const { fulfilled } = await getScheduledOrders(
+      locationId,
+      recordedSales[0].date,
+      tomorrow
+    );
+    const salesHistory = withoutOrders(recordedSales, fulfilled);
+    const simulationStart =
+      startDate && startDate > tomorrow ? startDate : tomorrow;
+    const simulationDays = Math.min(
+      Number(days) || DEFAULT_SIMULATION_DAYS,
+      MAX_SIMULATION_DAYS
+    );
+    const simulationEnd = addDaysToDateString(
+      simulationStart,
+      simulationDays - 1
+    );
+
+    const events = await getLocationEvents(
+      location,
+      salesHistory[0].date,
+      simulationEnd
+    );
+    const plannedPromotions = await getLocationPromotions(
+      locationId,
+      salesHistory[0].date,
+      simulationEnd
+    );
+    // Same settings as the forecasts that are sent, without weather:
+    // a promotion planned weeks ahead has no weather forecast yet
+    const models = await getOrganizationModels(location.organization_id);
+    const champion = getModelVersion(models.champion);
+
+    const simulation = simulatePromotion(
+      salesHistory,
+      {
+        item,
+        name,
+        start_date: startDate || simulationStart,
+        end_date: endDate || null,
+        weekdays: Array.isArray(weekdays) ? weekdays.map(Number) : null,
+        discount_percent: discountPercent ?? null,
+        expected_uplift: expectedUplift ?? null,
+      },
+      simulationStart,
+      simulationDays,
+      {
+        events,
+        promotions: [...promotions, ...plannedPromotions],
+        prices,
+        outlierReviews: await loadOutlierReviews(locationId),
+        intermittentMethod: champion.intermittentMethod,
+        capOutliers: champion.capOutliers,
+      }
+    );
+
+    return NextResponse.json({ location_id: location.id, ...simulation });
+  } catch (error) {
+    console.error("Error simulating promotion:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,8 @@ interface CSVData {
   date: string;
   item: string;
   quantity: number;
+  revenue?: number | null; // Paid for the quantity after discounts, in currency units
+  promotion?: string | null; // e.g. "2x1 Tuesday"
 }
 
 interface RequestBody {
@@ -83,9 +85,11 @@ export async function POST(request: NextRequest) {
           location_id: locationId,
           organization_id: organizationId,
           timestamp: parsedDate.toISOString(),
+          daily_total: isDateOnly(csvRow.date),
           item: csvRow.item.trim(),
           quantity: csvRow.quantity,
-          revenue_cents: null,
+          revenue_cents: toCents(csvRow.revenue),
+          promotion: csvRow.promotion?.trim() || null,
           provider: "manual",
           source: "csv_upload",
         });
@@ -131,7 +135,23 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Revenue in currency units as whole cents; missing or invalid is unknown
+function toCents(revenue?: number | null): number | null {
+  if (revenue === null || revenue === undefined) return null;
+  const value = Number(revenue);
+  return Number.isFinite(value) && value >= 0 ? Math.round(value * 100) : null;
+}
+
+// Dates without a time of day are the day's total of the item, not a sale
+function isDateOnly(dateStr: string): boolean {
+  return /^(\d{4}-\d{2}-\d{2}|\d{1,2}[/-]\d{1,2}[/-]\d{4}|\d{8})$/.test(
+    dateStr.trim(),
+  );
+}
+
 // Helper function to parse various date formats
+// Dates without a time are stored at UTC midnight of that calendar date, which
+// the forecast job reads back as the location's local date
 function parseDate(dateStr: string): Date {
   // Remove any extra whitespace
   dateStr = dateStr.trim();
@@ -199,7 +219,7 @@ function parseDate(dateStr: string): Date {
       throw new Error(`Invalid day in date: ${dateStr}`);
     }
 
-    return new Date(year, month - 1, day);
+    return new Date(Date.UTC(year, month - 1, day));
   }
 
   if (/^\d{2}-\d{2}-\d{4}$/.test(dateStr)) {
@@ -216,7 +236,7 @@ function parseDate(dateStr: string): Date {
       throw new Error(`Invalid day in date: ${dateStr}`);
     }
 
-    return new Date(year, month - 1, day);
+    return new Date(Date.UTC(year, month - 1, day));
   }
 
   if (/^\d{1,2}\/\d{1,2}\/\d{4}$/.test(dateStr)) {
@@ -269,7 +289,7 @@ function parseDate(dateStr: string): Date {
       throw new Error(`Invalid day in date: ${dateStr}`);
     }
 
-    return new Date(year, month - 1, day);
+    return new Date(Date.UTC(year, month - 1, day));
   }
 
   if (/^\d{8}$/.test(dateStr)) {
@@ -277,7 +297,7 @@ function parseDate(dateStr: string): Date {
     const year = parseInt(dateStr.substring(0, 4));
     const month = parseInt(dateStr.substring(4, 6)) - 1; // Month is 0-indexed
     const day = parseInt(dateStr.substring(6, 8));
-    return new Date(year, month, day);
+    return new Date(Date.UTC(year, month, day));
   }
 
   // Try parsing as-is for other formats
@@ -1,32 +1,140 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
-import { extractTimezoneFromTIMETZ } from "@/lib/timezones";
-import twilio from "twilio";
-
-// Simple forecasting function
-function predictTomorrowSales(
-  historicalData: { date: string; item: string; quantity: number }[],
-): { [item: string]: number } {
-  const itemData: { [item: string]: number[] } = {};
-
-  historicalData.forEach((record) => {
-    if (!itemData[record.item]) {
-      itemData[record.item] = [];
+import { DAYPARTS, splitByWeights } from "@/lib/dayparts";
+import {
+  demoForecast,
+  demoTimezone,
+  formatDemoForecast,
+  loadDemoSales,
+} from "@/lib/demo-forecast";
+import { whyLine } from "@/lib/explanations";
+import { SalesRecord } from "@/lib/forecasting";
+import { sendWhatsAppMessage } from "@/lib/notifications";
+import { getClosedDays } from "@/lib/opening-hours";
+import { applyOverride } from "@/lib/overrides";
+import { explodeRecipes, formatPrepQuantity, loadRecipes } from "@/lib/recipes";
+import { extractTimezoneFromTIMETZ, getLocalDateString } from "@/lib/timezones";
+
+// Format the outer quantiles as " (range 32–51)", or "" when unavailable
+function formatForecastRange(
+  quantiles: { [key: string]: number } | null | undefined,
+): string {
+  const values = quantiles ? Object.values(quantiles) : [];
+  if (values.length < 2) return "";
+
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  return low === high ? "" : ` (range ${low}–${high})`;
+}
+
+// Newsvendor prep next to the forecast, " · prep 44", or "" for items without
+// cost and price
+function formatPrepNote(prepQuantity: number | null | undefined): string {
+  return prepQuantity === null || prepQuantity === undefined
+    ? ""
+    : ` · prep ${prepQuantity}`;
+}
+
+// Known orders included in the forecast, " · incl. 60 pre-ordered", or ""
+function formatScheduledNote(
+  scheduledQuantity: number | null | undefined,
+): string {
+  return scheduledQuantity ? ` · incl. ${scheduledQuantity} pre-ordered` : "";
+}
+
+// Slow movers: "• Flan: up to 3 units (25% chance of selling)"
+function formatIntermittentForecast(forecast: {
+  item: string;
+  prediction_quantiles: { [key: string]: number } | null;
+  probability_of_sale: number;
+  prep_quantity: number | null;
+}): string {
+  const values = forecast.prediction_quantiles
+    ? Object.values(forecast.prediction_quantiles)
+    : [];
+  const upTo = values.length > 0 ? Math.max(...values) : 0;
+  const chance = Math.round(forecast.probability_of_sale * 100);
+
+  return `• ${forecast.item}: up to ${upTo} units (${chance}% chance of selling)${formatPrepNote(forecast.prep_quantity)}\n`;
+}
+
+// What to have ready for each daypart, from the hourly split of the forecasts,
+// or "" without timestamped POS sales
+function formatDaypartSection(
+  forecasts: {
+    item: string;
+    override_quantity: number | null;
+    hourly_quantities: { [hour: string]: number } | null;
+  }[],
+): string {
+  let section = "";
+
+  DAYPARTS.forEach((daypart) => {
+    let firstHour = daypart.end;
+    let lines = "";
+
+    forecasts.forEach((forecast) => {
+      if (!forecast.hourly_quantities) return;
+      // An override keeps the model's shape over the day
+      const hourly =
+        forecast.override_quantity === null
+          ? forecast.hourly_quantities
+          : splitByWeights(
+              forecast.override_quantity,
+              forecast.hourly_quantities,
+            );
+
+      let quantity = 0;
+      Object.entries(hourly).forEach(([hour, units]) => {
+        if (units <= 0 || Number(hour) < daypart.start) return;
+        if (Number(hour) >= daypart.end) return;
+        quantity += units;
+        firstHour = Math.min(firstHour, Number(hour));
+      });
+      if (quantity > 0) lines += `• ${forecast.item}: ${quantity}\n`;
+    });
+
+    if (lines) {
+      section += `\n⏰ *${daypart.label}* (ready by ${String(firstHour).padStart(2, "0")}:00)\n${lines}`;
     }
-    itemData[record.item].push(record.quantity);
   });
 
-  const predictions: { [item: string]: number } = {};
+  return section;
+}
 
-  Object.keys(itemData).forEach((item) => {
-    const quantities = itemData[item];
-    const last7 = quantities.slice(-7);
-    const avg =
-      last7.length > 0 ? last7.reduce((a, b) => a + b, 0) / last7.length : 0;
-    predictions[item] = Math.round(avg);
-  });
+// Ingredient prep for the forecast items, or "" without recipes
+async function formatPrepSection(
+  organizationId: string,
+  forecasts: {
+    item: string;
+    predicted_quantity: number | null;
+    prep_quantity: number | null;
+    override_quantity: number | null;
+  }[],
+): Promise<string> {
+  try {
+    const { ingredients } = explodeRecipes(
+      forecasts.map((forecast) => ({
+        item: forecast.item,
+        quantity:
+          forecast.override_quantity ??
+          forecast.prep_quantity ??
+          forecast.predicted_quantity,
+      })),
+      await loadRecipes(organizationId),
+    );
+    if (ingredients.length === 0) return "";
 
-  return predictions;
+    let section = `\n🔪 *Prep*\n`;
+    ingredients.forEach((prep) => {
+      section += `• ${prep.ingredient}: ${formatPrepQuantity(prep)}\n`;
+    });
+    return section;
+  } catch (error) {
+    // The item forecast is still worth sending
+    console.error("Error building prep list:", error);
+    return "";
+  }
 }
 
 function normalizePhoneNumber(phoneNumber: string | undefined): string | null {
@@ -94,6 +202,83 @@ function isApprovalMessage(message: string): boolean {
   );
 }
 
+// "why", "why tacos", "por qué tacos": the item asked about, "" for all, or
+// null when the message isn't a why question
+function parseWhyMessage(message: string): string | null {
+  const match = message
+    .trim()
+    .match(/^(why|por\s*qu[eé])(?=[\s?¿!.]|$)\s*(.*)$/i);
+  return match ? match[2].replace(/[?¿!.]/g, "").trim() : null;
+}
+
+// "override tacos 60 party of 40", "ajustar tacos 60": the text after the
+// keyword, or null when the message isn't an override
+function parseOverrideMessage(message: string): string | null {
+  const match = message
+    .trim()
+    .match(/^(override|ajustar|cambiar)\s+(.+\s+\d+(?:\s+.*)?)$/i);
+  return match ? match[2].trim() : null;
+}
+
+// Split "<item> <quantity> [reason]" with a location's item names: a full
+// name first, longest first, so the number in "Combo 2 60" isn't taken for
+// the quantity; otherwise the words before the first number, matched against
+// part of a name ("taco" for "Taco Salad"). Null when no quantity follows.
+function matchOverride(
+  text: string,
+  items: string[],
+): { items: string[]; quantity: number; reason: string } | null {
+  const words = text.trim().split(/\s+/);
+  const typed = (length: number) =>
+    words.slice(0, length).map(normalizeItemName).join(" ");
+  const request = (length: number, matches: string[]) =>
+    /^\d+$/.test(words[length] || "")
+      ? {
+          items: matches,
+          quantity: Number(words[length]),
+          reason: words.slice(length + 1).join(" "),
+        }
+      : null;
+
+  const names = items.map((item) => ({
+    item,
+    words: normalizeItemName(item).split(/\s+/),
+  }));
+  const named = names
+    .sort((a, b) => b.words.length - a.words.length)
+    .find(
+      (name) =>
+        typed(name.words.length) === name.words.join(" ") &&
+        request(name.words.length, []),
+    );
+  if (named) {
+    const name = named.words.join(" ");
+    return request(
+      named.words.length,
+      names
+        .filter((other) => other.words.join(" ") === name)
+        .map((other) => other.item),
+    );
+  }
+
+  const length = words.findIndex((word, idx) => idx > 0 && /^\d+$/.test(word));
+  if (length < 1) return null;
+  const query = typed(length);
+  return request(
+    length,
+    items.filter((item) => normalizeItemName(item).includes(query)),
+  );
+}
+
+// Lowercase without accents, for matching item names typed in a message
+function normalizeItemName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+}
+
 // Detect if message is a denial response
 function isDenialMessage(message: string): boolean {
   const normalized = message.toLowerCase().trim();
@@ -111,65 +296,19 @@ function isDenialMessage(message: string): boolean {
   );
 }
 
-async function sendWhatsAppMessage(phoneNumber: string, message: string) {
-  const accountSid = process.env.TWILIO_ACCOUNT_SID;
-  const authToken = process.env.TWILIO_AUTH_TOKEN;
-  const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER;
-
-  if (!accountSid || !authToken || !twilioPhoneNumber) {
-    console.log(`Twilio not configured. Would send: ${message}`);
-    return;
-  }
-
-  const client = twilio(accountSid, authToken);
-  const maxLength = 1600;
-
-  if (message.length <= maxLength) {
-    await client.messages.create({
-      body: message,
-      from: `whatsapp:${twilioPhoneNumber}`,
-      to: `whatsapp:${phoneNumber}`,
-    });
-  } else {
-    // Split into parts
-    const parts = [];
-    let remainingMessage = message;
-    let partNumber = 1;
-    const totalParts = Math.ceil(message.length / maxLength);
-
-    while (remainingMessage.length > 0) {
-      const chunkSize = Math.min(maxLength - 50, remainingMessage.length);
-      const chunk = remainingMessage.substring(0, chunkSize);
-      const partMessage = `Part ${partNumber}/${totalParts}:\n${chunk}`;
-      parts.push(partMessage);
-      remainingMessage = remainingMessage.substring(chunkSize);
-      partNumber++;
-    }
-
-    for (const part of parts) {
-      await client.messages.create({
-        body: part,
-        from: `whatsapp:${twilioPhoneNumber}`,
-        to: `whatsapp:${phoneNumber}`,
-      });
-    }
-  }
-}
-
 async function handleApproval(phoneNumber: string, demoRequest: any) {
   const restaurant = demoRequest.restaurant;
 
   console.log(`Processing approval for restaurant: ${restaurant}`);
 
-  // Query sales_demo for this restaurant
-  const { data: salesData, error: salesError } = await supabase
-    .from("sales_demo")
-    .select("date, item, quantity")
-    .eq("restaurant", restaurant)
-    .order("date", { ascending: true });
+  let salesData: SalesRecord[] = [];
+  try {
+    salesData = await loadDemoSales(restaurant);
+  } catch (error) {
+    console.error("Error fetching sales demo data:", error);
+  }
 
-  if (salesError || !salesData || salesData.length === 0) {
-    console.error("Error fetching sales demo data:", salesError);
+  if (salesData.length === 0) {
     await sendWhatsAppMessage(
       phoneNumber,
       "Sorry, there was an error generating your forecast. Please try again later.",
@@ -177,29 +316,11 @@ async function handleApproval(phoneNumber: string, demoRequest: any) {
     return;
   }
 
-  // Generate forecast
-  const forecast = predictTomorrowSales(salesData);
-
-  // Format forecast message
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  const dateStr = tomorrow.toLocaleDateString("en-US", {
-    weekday: "long",
-    year: "numeric",
-    month: "long",
-    day: "numeric",
-  });
-
-  let message = `📊 *${restaurant} Sales Forecast for ${dateStr}*\n\n`;
-
-  // Sort products by quantity (highest to lowest)
-  const sortedForecast = Object.entries(forecast).sort((a, b) => b[1] - a[1]);
-
-  sortedForecast.forEach(([item, qty]) => {
-    message += `• ${item}: ${qty} units\n`;
-  });
-
-  message += `\n*Based on historical sales analysis*`;
+  // Same forecaster as production, with a backtest on the prospect's data
+  const { text: message } = formatDemoForecast(
+    restaurant,
+    demoForecast(salesData, demoTimezone(demoRequest.timezone)),
+  );
 
   // Send forecast
   await sendWhatsAppMessage(phoneNumber, message);
@@ -271,6 +392,7 @@ async function handleForecastApproval(
   console.log(`Found ${collaborators.length} collaborator(s) for this phone`);
 
   let sentCount = 0;
+  let closedCount = 0;
 
   // Iterate through all collaborators
   for (const collaborator of collaborators) {
@@ -282,7 +404,7 @@ async function handleForecastApproval(
     // Get location info
     const { data: location, error: locationError } = await supabase
       .from("locations")
-      .select("id, name, organization_id, kitchen_close")
+      .select("id, name, organization_id, kitchen_close, opening_hours")
       .eq("id", locationId)
       .single();
 
@@ -295,12 +417,7 @@ async function handleForecastApproval(
     const locationTimezone = extractTimezoneFromTIMETZ(location.kitchen_close);
 
     // Use tomorrow's date in the location's timezone
-    const now = new Date();
-    const tomorrow = new Date(
-      now.toLocaleString("en-US", { timeZone: locationTimezone }),
-    );
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const forecastDate = tomorrow.toISOString().split("T")[0];
+    const forecastDate = getLocalDateString(locationTimezone, 1);
     console.log(
       "forecastDate (local timezone):",
       forecastDate,
@@ -308,15 +425,33 @@ async function handleForecastApproval(
       locationTimezone,
     );
 
-    const dateStr = tomorrow.toLocaleDateString("en-US", {
-      weekday: "long",
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
+    // A plain date: format it in UTC so the weekday can't shift
+    const dateStr = new Date(`${forecastDate}T00:00:00Z`).toLocaleDateString(
+      "en-US",
+      {
+        timeZone: "UTC",
+        weekday: "long",
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      },
+    );
 
     console.log(`Found location: ${location.name}`);
 
+    // No forecast for a day the location is closed
+    const closedDays = await getClosedDays(
+      location,
+      forecastDate,
+      forecastDate,
+      forecastDate,
+    );
+    if (closedDays.length > 0) {
+      console.log(`${location.name} is closed on ${forecastDate}, skipping`);
+      closedCount++;
+      continue;
+    }
+
     // Get forecasts for this location and date
     const { data: forecasts, error: forecastError } = await supabase
       .from("forecasts")
@@ -348,14 +483,37 @@ async function handleForecastApproval(
     );
 
     sortedForecasts.forEach((forecast: any) => {
+      // The team's number replaces the model's, range and prep included
+      if (forecast.override_quantity !== null) {
+        message += `• ${forecast.item}: ${forecast.override_quantity} units (adjusted from ${forecast.predicted_quantity})\n`;
+        return;
+      }
+      // Below 5% the item has practically stopped selling; with a
+      // pre-order it sells for sure and gets a regular line
+      if (
+        forecast.demand_pattern === "intermittent" &&
+        forecast.probability_of_sale >= 0.05 &&
+        !forecast.scheduled_quantity
+      ) {
+        message += formatIntermittentForecast(forecast);
+        return;
+      }
       if (
         forecast.predicted_quantity === null ||
         forecast.predicted_quantity === 0
       )
         return; // Skip null predictions
-      message += `• ${forecast.item}: ${forecast.predicted_quantity} units\n`;
+      const note = forecast.low_confidence
+        ? " · little history, rough estimate"
+        : "";
+      message += `• ${forecast.item}: ${forecast.predicted_quantity} units${formatForecastRange(forecast.prediction_quantiles)}${formatPrepNote(forecast.prep_quantity)}${formatScheduledNote(forecast.scheduled_quantity)}${note}\n`;
     });
 
+    message += formatDaypartSection(sortedForecasts);
+    message += await formatPrepSection(location.organization_id, forecasts);
+
+    message += `\nReply "why <item>" to see what drives a number`;
+    message += `\nReply "override <item> <quantity> <reason>" to change one`;
     message += `\n*AI-powered forecast based on historical data*`;
 
     // Send forecast
@@ -386,13 +544,199 @@ async function handleForecastApproval(
   if (sentCount === 0) {
     await sendWhatsAppMessage(
       phoneNumber,
-      "No forecast available for tomorrow. Please check back later.",
+      closedCount > 0 && closedCount === collaborators.length
+        ? "Closed tomorrow, so there's no forecast to send."
+        : "No forecast available for tomorrow. Please check back later.",
     );
   } else {
     console.log(`Total forecasts sent: ${sentCount}`);
   }
 }
 
+// Items explained when the manager just asks "why"
+const MAX_WHY_ITEMS = 3;
+
+// Answer "why <item>" with the drivers of tomorrow's forecast
+async function handleForecastExplanation(
+  phoneNumber: string,
+  phoneVariations: string[],
+  itemQuery: string,
+) {
+  const { data: collaborators, error: collabError } = await supabase
+    .from("collaborators")
+    .select("id, location_id")
+    .eq("contact_type", "phone")
+    .in("contact_value", phoneVariations);
+
+  if (collabError || !collaborators || collaborators.length === 0) {
+    console.error("No collaborator found for why question:", collabError);
+    await sendWhatsAppMessage(
+      phoneNumber,
+      "Sorry, we couldn't find your information. Please contact support.",
+    );
+    return;
+  }
+
+  const query = normalizeItemName(itemQuery);
+  let message = "";
+
+  for (const collaborator of collaborators) {
+    const { data: location, error: locationError } = await supabase
+      .from("locations")
+      .select("id, name, kitchen_close")
+      .eq("id", collaborator.location_id)
+      .single();
+
+    if (locationError || !location) {
+      console.error(
+        `Location ${collaborator.location_id} not found:`,
+        locationError,
+      );
+      continue;
+    }
+
+    const forecastDate = getLocalDateString(
+      extractTimezoneFromTIMETZ(location.kitchen_close),
+      1,
+    );
+
+    const { data: forecasts, error: forecastError } = await supabase
+      .from("forecasts")
+      .select("item, predicted_quantity, override_quantity, explanation")
+      .eq("location_id", location.id)
+      .eq("forecast_date", forecastDate)
+      .not("explanation", "is", null)
+      .order("predicted_quantity", { ascending: false });
+
+    if (forecastError || !forecasts) {
+      console.error(
+        `Error fetching forecasts for location ${location.id}:`,
+        forecastError,
+      );
+      continue;
+    }
+
+    const explained = query
+      ? forecasts.filter((forecast) =>
+          normalizeItemName(forecast.item).includes(query),
+        )
+      : forecasts.slice(0, MAX_WHY_ITEMS);
+    if (explained.length === 0) continue;
+
+    message += `🔎 *${location.name}, tomorrow*\n`;
+    explained.forEach((forecast) => {
+      message += `• ${whyLine(forecast.item, forecast.predicted_quantity, forecast.explanation)}\n`;
+      if (forecast.override_quantity !== null) {
+        message += `  adjusted to ${forecast.override_quantity} by your team\n`;
+      }
+    });
+    message += "\n";
+  }
+
+  await sendWhatsAppMessage(
+    phoneNumber,
+    message.trim() ||
+      (query
+        ? `No forecast for "${itemQuery}" tomorrow. Check the item name and try again.`
+        : "No forecast available for tomorrow. Please check back later."),
+  );
+}
+
+// Apply "override <item> <quantity> [reason]" to tomorrow's forecast of the
+// collaborator's locations
+async function handleForecastOverride(
+  phoneNumber: string,
+  phoneVariations: string[],
+  text: string,
+) {
+  const { data: collaborators, error: collabError } = await supabase
+    .from("collaborators")
+    .select("id, location_id")
+    .eq("contact_type", "phone")
+    .in("contact_value", phoneVariations);
+
+  if (collabError || !collaborators || collaborators.length === 0) {
+    console.error("No collaborator found for override:", collabError);
+    await sendWhatsAppMessage(
+      phoneNumber,
+      "Sorry, we couldn't find your information. Please contact support.",
+    );
+    return;
+  }
+
+  let message = "";
+
+  for (const collaborator of collaborators) {
+    const { data: location, error: locationError } = await supabase
+      .from("locations")
+      .select("id, name, organization_id, kitchen_close")
+      .eq("id", collaborator.location_id)
+      .single();
+
+    if (locationError || !location) {
+      console.error(
+        `Location ${collaborator.location_id} not found:`,
+        locationError,
+      );
+      continue;
+    }
+
+    const forecastDate = getLocalDateString(
+      extractTimezoneFromTIMETZ(location.kitchen_close),
+      1,
+    );
+
+    const { data: forecasts, error: forecastError } = await supabase
+      .from("forecasts")
+      .select("item, predicted_quantity")
+      .eq("location_id", location.id)
+      .eq("forecast_date", forecastDate);
+
+    if (forecastError || !forecasts) {
+      console.error(
+        `Error fetching forecasts for location ${location.id}:`,
+        forecastError,
+      );
+      continue;
+    }
+
+    const request = matchOverride(
+      text,
+      forecasts.map((forecast) => forecast.item),
+    );
+    if (!request || request.items.length === 0) continue;
+
+    if (request.items.length > 1) {
+      message += `${location.name}: "${text}" matches ${request.items.join(", ")}. Use the full item name.\n`;
+      continue;
+    }
+
+    try {
+      const override = await applyOverride({
+        location,
+        forecastDate,
+        item: request.items[0],
+        quantity: request.quantity,
+        reason: request.reason,
+        source: "whatsapp",
+        overriddenBy: phoneNumber,
+      });
+      if (override) {
+        message += `✏️ ${location.name}: ${override.item} tomorrow ${override.original_quantity} → ${override.override_quantity}\n`;
+      }
+    } catch (error) {
+      console.error(`Error overriding forecast at ${location.id}:`, error);
+      message += `${location.name}: couldn't adjust ${request.items[0]}, please try again.\n`;
+    }
+  }
+
+  await sendWhatsAppMessage(
+    phoneNumber,
+    message.trim() ||
+      `No forecast for "${text}" tomorrow. Check the item name and try again.`,
+  );
+}
+
 // Handle real forecast denial
 async function handleForecastDenial(
   phoneNumber: string,
@@ -443,12 +787,7 @@ async function handleForecastDenial(
 
   // Extract timezone from location's kitchen_close field and use tomorrow's date in the location's timezone
   const locationTimezone = extractTimezoneFromTIMETZ(location.kitchen_close);
-  const now = new Date();
-  const tomorrow = new Date(
-    now.toLocaleString("en-US", { timeZone: locationTimezone }),
-  );
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  const forecastDate = tomorrow.toISOString().split("T")[0];
+  const forecastDate = getLocalDateString(locationTimezone, 1);
 
   // Record the denial
   const { error: responseError } = await supabase
@@ -531,6 +870,36 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // "why <item>": what drives tomorrow's forecast
+    const whyQuery = buttonPayload ? null : parseWhyMessage(messageBody);
+    if (whyQuery !== null) {
+      console.log(`Processing why question: "${whyQuery}"`);
+      await handleForecastExplanation(phoneNumber, phoneVariations, whyQuery);
+      return NextResponse.json({
+        status: "forecast_explained",
+        processed: true,
+        source: "text",
+      });
+    }
+
+    // "override <item> <quantity> [reason]": the manager's number for tomorrow
+    const overrideRequest = buttonPayload
+      ? null
+      : parseOverrideMessage(messageBody);
+    if (overrideRequest) {
+      console.log(`Processing forecast override:`, overrideRequest);
+      await handleForecastOverride(
+        phoneNumber,
+        phoneVariations,
+        overrideRequest,
+      );
+      return NextResponse.json({
+        status: "forecast_overridden",
+        processed: true,
+        source: "text",
+      });
+    }
+
     //DEMO FLOW
     if (buttonPayload === "demo-accept" || buttonPayload === "demo-cancel") {
       console.log("Processing demo Quick Reply button");
@@ -0,0 +1,15 @@
+import DashboardLayout from '@/components/dashboard-layout'
+import BacktestingContent from '@/components/backtesting-content'
+import { requireOnboarding } from '@/lib/auth-utils'
+
+export default async function BacktestingPage() {
+  // Check authentication and onboarding status
+  // Redirects to /welcome if not completed
+  await requireOnboarding()
+
+  return (
+    <DashboardLayout>
+      <BacktestingContent />
+    </DashboardLayout>
+  )
+}
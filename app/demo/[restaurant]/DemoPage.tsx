@@ -1,6 +1,7 @@
 "use client";
 import React, { useState } from "react";
 import Image from "next/image";
+import { getUserTimezone } from "@/lib/timezones";
 
 const countryCodes = [
   { code: "+1", country: "US" },
@@ -61,9 +62,11 @@ const DemoPage: React.FC<DemoPageProps> = ({ restaurant }) => {
 
     try {
       const endpoint = activeTab === 'email' ? '/api/demo-email' : '/api/demo-whatsapp';
+      // The demo forecasts tomorrow in the prospect's timezone
+      const timezone = getUserTimezone();
       const body = activeTab === 'email'
-        ? { restaurant, email }
-        : { restaurant, phone: countryCode + phone };
+        ? { restaurant, email, timezone }
+        : { restaurant, phone: countryCode + phone, timezone };
 
       const res = await fetch(endpoint, {
         method: "POST",
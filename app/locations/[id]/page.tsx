@@ -7,6 +7,18 @@ import Link from 'next/link'
 import { convertLocalTimeToTIMETZ, extractTimezoneFromTIMETZ, getUserTimezone, TIMEZONES } from '@/lib/timezones'
 import AddressAutocomplete from '@/components/address-autocomplete'
 import LocationCSVUpload from '@/components/location-csv-upload'
+import OpeningHours from '@/components/opening-hours'
+import LocationEvents from '@/components/location-events'
+import LocationPromotions from '@/components/location-promotions'
+import ScheduledOrders from '@/components/scheduled-orders'
+import SalesOutliers from '@/components/sales-outliers'
+import DemandShifts from '@/components/demand-shifts'
+import ItemCategories from '@/components/item-categories'
+import IngredientPrep from '@/components/ingredient-prep'
+import Recipes from '@/components/recipes'
+import ItemEconomics from '@/components/item-economics'
+import ForecastOverrides from '@/components/forecast-overrides'
+import { HOLIDAY_COUNTRIES } from '@/lib/holidays'
 
 interface Location {
   id: string
@@ -15,6 +27,7 @@ interface Location {
   kitchen_close: string
   timezone?: string
   organization_id: string
+  country?: string | null
 }
 
 interface Operator {
@@ -53,6 +66,7 @@ export default function LocationDetailPage() {
   const [csvUploading, setCsvUploading] = useState(false)
   const [csvError, setCsvError] = useState<string | null>(null)
   const [csvSuccess, setCsvSuccess] = useState<string | null>(null)
+  const [recipesVersion, setRecipesVersion] = useState(0)
 
   const formatTime = (time: string) => {
     if (!time) return ''
@@ -76,7 +90,8 @@ export default function LocationDetailPage() {
     latitude: undefined as number | undefined,
     longitude: undefined as number | undefined,
     timezone: getUserTimezone(),
-    kitchenClose: ''
+    kitchenClose: '',
+    country: ''
   })
 
   useEffect(() => {
@@ -156,7 +171,8 @@ export default function LocationDetailPage() {
       latitude: undefined,
       longitude: undefined,
       timezone: extractedTimezone,
-      kitchenClose: timeForInput
+      kitchenClose: timeForInput,
+      country: location.country || ''
     })
     setShowEditModal(true)
   }
@@ -169,7 +185,8 @@ export default function LocationDetailPage() {
       latitude: undefined,
       longitude: undefined,
       timezone: getUserTimezone(),
-      kitchenClose: ''
+      kitchenClose: '',
+      country: ''
     })
   }
 
@@ -208,7 +225,8 @@ export default function LocationDetailPage() {
       const updateData: any = {
         name: editFormData.name,
         address: editFormData.address,
-        kitchen_close: convertLocalTimeToTIMETZ(editFormData.kitchenClose, editFormData.timezone)
+        kitchen_close: convertLocalTimeToTIMETZ(editFormData.kitchenClose, editFormData.timezone),
+        country: editFormData.country || null
       }
 
       // Include latitude and longitude if available
@@ -236,7 +254,8 @@ export default function LocationDetailPage() {
         latitude: undefined,
         longitude: undefined,
         timezone: getUserTimezone(),
-        kitchenClose: ''
+        kitchenClose: '',
+        country: ''
       })
       loadData()
     } finally {
@@ -441,6 +460,51 @@ export default function LocationDetailPage() {
           )}
         </div>
 
+        {/* Opening Hours Section */}
+        <OpeningHours locationId={location.id} organizationId={location.organization_id} />
+
+        {/* Holidays & Events Section */}
+        <LocationEvents
+          locationId={location.id}
+          organizationId={location.organization_id}
+          country={location.country}
+          kitchenClose={location.kitchen_close}
+        />
+
+        {/* Promotions Section */}
+        <LocationPromotions locationId={location.id} organizationId={location.organization_id} />
+
+        {/* Scheduled Orders Section */}
+        <ScheduledOrders
+          locationId={location.id}
+          organizationId={location.organization_id}
+          kitchenClose={location.kitchen_close}
+        />
+
+        {/* Unusual Sales Days Section */}
+        <SalesOutliers locationId={location.id} />
+
+        {/* Demand Shifts Section */}
+        <DemandShifts locationId={location.id} />
+
+        {/* Item Categories Section */}
+        <ItemCategories locationId={location.id} organizationId={location.organization_id} />
+
+        {/* Ingredient Prep & Recipes Sections */}
+        <IngredientPrep
+          locationId={location.id}
+          organizationId={location.organization_id}
+          kitchenClose={location.kitchen_close}
+          refreshKey={recipesVersion}
+        />
+        <Recipes organizationId={location.organization_id} onChange={() => setRecipesVersion((v) => v + 1)} />
+
+        {/* Prep Targets Section */}
+        <ItemEconomics locationId={location.id} organizationId={location.organization_id} />
+
+        {/* Forecast Overrides Section */}
+        <ForecastOverrides locationId={location.id} />
+
         {/* Manual Data Upload Section - only show if no Toast API */}
         {hasToastApi === false && (
           <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
@@ -701,6 +765,25 @@ export default function LocationDetailPage() {
                   className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Holiday Calendar
+                </label>
+                <select
+                  value={editFormData.country}
+                  onChange={(e) => setEditFormData({ ...editFormData, country: e.target.value })}
+                  className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors"
+                >
+                  <option value="">Detect from timezone</option>
+                  {HOLIDAY_COUNTRIES.map((c) => (
+                    <option key={c.value} value={c.value}>
+                      {c.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Public holidays of this country are used in forecasts</p>
+              </div>
             </div>
 
             {/* Modal Footer */}
@@ -0,0 +1,341 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useOrganizationList } from '@clerk/nextjs'
+import ModelComparison from '@/components/model-comparison'
+
+interface Location {
+  id: string
+  name: string
+}
+
+interface ErrorMetrics {
+  mae: number
+  wape: number | null
+  bias: number
+  count: number
+}
+
+interface ItemBacktest {
+  item: string
+  actualTotal: number
+  scores: Record<string, ErrorMetrics>
+}
+
+interface DataCoverage {
+  openDays: number
+  missingDays: number
+  coverage: number
+}
+
+interface BacktestResponse {
+  location_name: string
+  cutoffs: string[]
+  horizonDays: number
+  items: ItemBacktest[]
+  overall: Record<string, ErrorMetrics>
+  coverage: Record<string, DataCoverage>
+}
+
+const MODEL_LABELS: Record<string, string> = {
+  weightedMovingAverage: 'Weighted Moving Average',
+  exponentialSmoothing: 'Exponential Smoothing',
+  dayOfWeekPattern: 'Day-of-Week Pattern',
+  linearTrendForecast: 'Linear Trend',
+  holtWinters: 'Holt-Winters',
+  ensemble: 'Ensemble',
+}
+
+const formatWape = (wape: number | null) =>
+  wape === null ? '—' : `${(wape * 100).toFixed(1)}%`
+
+const formatBias = (bias: number) => `${bias > 0 ? '+' : ''}${bias.toFixed(1)}`
+
+const formatCoverage = (coverage?: DataCoverage) =>
+  coverage ? `${(coverage.coverage * 100).toFixed(0)}%` : '—'
+
+// Lowest WAPE wins; models without a WAPE are never best
+const getBestModel = (scores: Record<string, ErrorMetrics>) =>
+  Object.entries(scores)
+    .filter(([, metrics]) => metrics.wape !== null)
+    .sort((a, b) => (a[1].wape as number) - (b[1].wape as number))[0]?.[0]
+
+export default function BacktestingContent() {
+  const [locations, setLocations] = useState<Location[]>([])
+  const [selectedLocation, setSelectedLocation] = useState<string>('')
+  const [folds, setFolds] = useState<number>(28)
+  const [horizon, setHorizon] = useState<number>(1)
+  const [result, setResult] = useState<BacktestResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const { userMemberships } = useOrganizationList({ userMemberships: { infinite: true } })
+  const orgId = userMemberships?.data?.[0]?.organization?.id
+
+  useEffect(() => {
+    loadLocations()
+  }, [orgId])
+
+  useEffect(() => {
+    runBacktest()
+  }, [selectedLocation, folds, horizon])
+
+  const loadLocations = async () => {
+    if (!orgId) return
+
+    try {
+      const { data: locs, error } = await supabase
+        .from('locations')
+        .select('id, name')
+        .eq('organization_id', orgId)
+        .order('name')
+
+      if (error) {
+        console.error('Error loading locations:', error)
+        return
+      }
+
+      setLocations(locs || [])
+      if (locs && locs.length > 0) {
+        setSelectedLocation((current) => current || locs[0].id)
+      }
+    } catch (err) {
+      console.error('Error:', err)
+    }
+  }
+
+  const runBacktest = async () => {
+    if (!selectedLocation) return
+
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({
+        locationId: selectedLocation,
+        folds: String(folds),
+        horizon: String(horizon),
+      })
+      const response = await fetch(`/api/backtest?${params}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run backtest')
+      }
+
+      setResult(data)
+    } catch (err) {
+      console.error('Error running backtest:', err)
+      setResult(null)
+      setError(err instanceof Error ? err.message : 'Failed to run backtest')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const bestOverall = result ? getBestModel(result.overall) : undefined
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Forecast Accuracy</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Backtest each forecasting method by replaying your sales history
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl border-2 border-gray-200 p-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-xs font-semibold text-gray-700 mb-2">
+              Location
+            </label>
+            <select
+              value={selectedLocation}
+              onChange={(e) => setSelectedLocation(e.target.value)}
+              className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+            >
+              {locations.map((loc) => (
+                <option key={loc.id} value={loc.id}>
+                  {loc.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-gray-700 mb-2">
+              Cutoffs Replayed
+            </label>
+            <select
+              value={folds}
+              onChange={(e) => setFolds(Number(e.target.value))}
+              className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+            >
+              <option value={14}>Last 14 days</option>
+              <option value={28}>Last 28 days</option>
+              <option value={56}>Last 56 days</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-gray-700 mb-2">
+              Horizon
+            </label>
+            <select
+              value={horizon}
+              onChange={(e) => setHorizon(Number(e.target.value))}
+              className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+            >
+              <option value={1}>Next day</option>
+              <option value={7}>Next 7 days</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-2 border-red-200 rounded-xl p-4">
+          <span className="font-semibold text-red-800">Error</span>
+          <p className="text-red-700 mt-1">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : result && (
+        <>
+          {/* Overall Scores */}
+          <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-bold text-gray-900">Methods</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                {result.location_name} · {result.cutoffs.length} cutoffs
+                {result.cutoffs.length > 0 && ` (${result.cutoffs[0]} to ${result.cutoffs[result.cutoffs.length - 1]})`}
+              </p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-gray-700 uppercase tracking-wider">
+                      Method
+                    </th>
+                    <th className="px-6 py-4 text-right text-xs font-bold text-gray-700 uppercase tracking-wider">
+                      MAE
+                    </th>
+                    <th className="px-6 py-4 text-right text-xs font-bold text-gray-700 uppercase tracking-wider">
+                      WAPE
+                    </th>
+                    <th className="px-6 py-4 text-right text-xs font-bold text-gray-700 uppercase tracking-wider">
+                      Bias
+                    </th>
+                    <th className="px-6 py-4 text-right text-xs font-bold text-gray-700 uppercase tracking-wider">
+                      Forecasts
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {Object.entries(result.overall).map(([model, metrics]) => (
+                    <tr key={model} className={model === bestOverall ? 'bg-green-50' : 'hover:bg-gray-50 transition-colors'}>
+                      <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                        {MODEL_LABELS[model] || model}
+                        {model === bestOverall && (
+                          <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                            Best
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-right text-sm text-gray-900">{metrics.mae.toFixed(1)}</td>
+                      <td className="px-6 py-4 text-right text-sm text-gray-900">{formatWape(metrics.wape)}</td>
+                      <td className="px-6 py-4 text-right text-sm text-gray-900">{formatBias(metrics.bias)}</td>
+                      <td className="px-6 py-4 text-right text-sm text-gray-500">{metrics.count}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Per-Item Scores */}
+          <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-bold text-gray-900">Items</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                Ensemble error, the best method and the share of open days with sales data per item
+              </p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-gray-700 uppercase tracking-wider">
+                      Item
+                    </th>
+                    <th className="px-6 py-4 text-right text-xs font-bold text-gray-700 uppercase tracking-wider">
+                      Ensemble MAE
+                    </th>
+                    <th className="px-6 py-4 text-right text-xs font-bold text-gray-700 uppercase tracking-wider">
+                      Ensemble WAPE
+                    </th>
+                    <th className="px-6 py-4 text-right text-xs font-bold text-gray-700 uppercase tracking-wider">
+                      Ensemble Bias
+                    </th>
+                    <th className="px-6 py-4 text-right text-xs font-bold text-gray-700 uppercase tracking-wider">
+                      Best Method
+                    </th>
+                    <th className="px-6 py-4 text-right text-xs font-bold text-gray-700 uppercase tracking-wider">
+                      Coverage
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {result.items.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                        Not enough history to backtest yet
+                      </td>
+                    </tr>
+                  ) : (
+                    result.items.map((item) => {
+                      const best = getBestModel(item.scores)
+                      const ensemble = item.scores.ensemble
+                      const coverage = result.coverage?.[item.item]
+
+                      return (
+                        <tr key={item.item} className="hover:bg-gray-50 transition-colors">
+                          <td className="px-6 py-4 text-sm font-medium text-gray-900">{item.item}</td>
+                          <td className="px-6 py-4 text-right text-sm text-gray-900">{ensemble.mae.toFixed(1)}</td>
+                          <td className="px-6 py-4 text-right text-sm text-gray-900">{formatWape(ensemble.wape)}</td>
+                          <td className="px-6 py-4 text-right text-sm text-gray-900">{formatBias(ensemble.bias)}</td>
+                          <td className="px-6 py-4 text-right text-sm text-gray-600">
+                            {best ? MODEL_LABELS[best] || best : '—'}
+                          </td>
+                          <td className="px-6 py-4 text-right text-sm text-gray-600">
+                            {formatCoverage(coverage)}
+                            {coverage && coverage.missingDays > 0 && (
+                              <span className="block text-xs text-amber-600">
+                                {coverage.missingDays} missing {coverage.missingDays === 1 ? 'day' : 'days'}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      )
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Champion vs Challenger */}
+      {orgId && <ModelComparison organizationId={orgId} />}
+    </div>
+  )
+}
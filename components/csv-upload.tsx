@@ -14,6 +14,16 @@ interface CSVData {
   [key: string]: string
 }
 
+// Money from a CSV cell ("$1,250.50", "12,50"); undefined if it isn't a number
+const parseAmount = (value?: string): number | undefined => {
+  if (!value) return undefined
+  const cleaned = value.replace(/[^0-9.,-]/g, '')
+  // A lone comma with 1-2 decimals is a decimal comma; other commas group thousands
+  const normalized = /^-?\d+,\d{1,2}$/.test(cleaned) ? cleaned.replace(',', '.') : cleaned.replace(/,/g, '')
+  const amount = parseFloat(normalized)
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined
+}
+
 export default function CSVUpload({ locationId, locationName, onUpload, onError, isUploaded }: CSVUploadProps) {
   const [isProcessing, setIsProcessing] = useState(false)
   const [fileName, setFileName] = useState<string | null>(null)
@@ -75,18 +85,36 @@ export default function CSVUpload({ locationId, locationName, onUpload, onError,
         return lower.includes('quantity') || lower === 'qty' || lower === 'amount' || lower === 'cantidad'
       })
 
-      // Find product/name column
+      // Find product/name column (not a promotion name)
       const productKey = keys.find(k => {
         const lower = k.toLowerCase()
+        if (lower.includes('promo')) return false
         return optionalNameColumns.some(col => lower.includes(col)) || 
                lower.includes('producto') || 
                lower.includes('articulo')
       })
 
+      // Optional: revenue of the row (or the unit price) and the promotion it sold under
+      const revenueKey = keys.find(k => {
+        const lower = k.toLowerCase()
+        return lower.includes('revenue') || lower === 'total' || lower === 'sales' || lower.includes('importe') || lower.includes('ingreso')
+      })
+      const priceKey = keys.find(k => {
+        const lower = k.toLowerCase()
+        return lower.includes('price') || lower.includes('precio')
+      })
+      const promotionKey = keys.find(k => k.toLowerCase().includes('promo'))
+
       if (dateKey) normalizedRow.date = row[dateKey]
       if (quantityKey) normalizedRow.quantity = parseInt(row[quantityKey]) || 0
       if (productKey) normalizedRow.item = row[productKey]
 
+      const revenue = revenueKey ? parseAmount(row[revenueKey]) : undefined
+      const price = priceKey ? parseAmount(row[priceKey]) : undefined
+      if (revenue !== undefined) normalizedRow.revenue = revenue
+      else if (price !== undefined && normalizedRow.quantity) normalizedRow.revenue = price * normalizedRow.quantity
+      if (promotionKey && row[promotionKey]?.trim()) normalizedRow.promotion = row[promotionKey].trim()
+
       return normalizedRow
     }).filter(row => row.date && row.quantity && row.item) // Filter out invalid rows
   }
@@ -190,6 +218,9 @@ export default function CSVUpload({ locationId, locationName, onUpload, onError,
               <p className="text-xs text-gray-500">
                 Must include: date, quantity, and product/name columns
               </p>
+              <p className="text-xs text-gray-500">
+                Optional: revenue (or unit price) and promotion columns
+              </p>
             </div>
           </div>
         </div>
@@ -16,6 +16,7 @@ export default function DashboardLayout({
   const navigation = [
     { name: 'Reports', href: '/', icon: '📊' },
     { name: 'Locations', href: '/locations', icon: '📍' },
+    { name: 'Accuracy', href: '/backtesting', icon: '🎯' },
   ]
 
   return (
@@ -0,0 +1,167 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { DemandShiftRow } from '@/lib/demand-shifts'
+
+interface DemandShiftsProps {
+  locationId: string
+}
+
+// Most recent shifts shown; older resets stay in effect
+const MAX_SHIFTS_SHOWN = 50
+
+const STATUS_LABELS: Record<string, string> = {
+  reset: 'Retrained from here',
+  dismissed: 'Dismissed'
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+
+const formatChange = (shift: DemandShiftRow) => {
+  const before = Number(shift.before_quantity)
+  const after = Number(shift.after_quantity)
+  if (before <= 0) return ''
+  const change = Math.round((after / before - 1) * 100)
+  return ` (${change > 0 ? '+' : ''}${change}%)`
+}
+
+const formatShare = (share: number) => `${(Number(share) * 100).toFixed(1)}%`
+
+export default function DemandShifts({ locationId }: DemandShiftsProps) {
+  const [shifts, setShifts] = useState<DemandShiftRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadShifts()
+  }, [locationId])
+
+  const loadShifts = async () => {
+    setLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('demand_shifts')
+        .select(
+          'id, item, change_date, before_quantity, after_quantity, share_before, share_after, mix_shift, score, status, detected_at, reviewed_at'
+        )
+        .eq('location_id', locationId)
+        .order('change_date', { ascending: false })
+        .limit(MAX_SHIFTS_SHOWN)
+
+      if (error) {
+        console.error('Error loading demand shifts:', error)
+        return
+      }
+
+      setShifts(data || [])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleReview = async (shiftId: string, status: DemandShiftRow['status']) => {
+    setUpdatingId(shiftId)
+    try {
+      const { error } = await supabase
+        .from('demand_shifts')
+        .update({
+          status,
+          reviewed_at: status === 'open' ? null : new Date().toISOString()
+        })
+        .eq('id', shiftId)
+
+      if (error) {
+        console.error('Error reviewing demand shift:', error)
+        alert(`Failed to save review. Error: ${error.message}`)
+        return
+      }
+
+      loadShifts()
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const openCount = shifts.filter((shift) => shift.status === 'open').length
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-bold text-gray-900">Demand Shifts</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Items whose sales moved to a new level and stayed there, like after a menu change or a new competitor.
+          Retrain an item from the change so its forecast catches up right away, or dismiss it to keep its full history.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : shifts.length === 0 ? (
+        <div className="text-center py-8 text-sm text-gray-500">No demand shifts found</div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {openCount > 0 && (
+            <div className="px-6 py-3 bg-amber-50 text-sm text-amber-800">
+              {openCount} {openCount === 1 ? 'shift needs' : 'shifts need'} review
+            </div>
+          )}
+          {shifts.map((shift) => (
+            <div key={shift.id} className="px-6 py-4 hover:bg-gray-50 transition-colors flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900">
+                  {shift.item} · about {Number(shift.before_quantity)} → {Number(shift.after_quantity)} a day
+                  {formatChange(shift)}
+                </div>
+                <div className="text-xs text-gray-500">
+                  Since {formatDate(shift.change_date)}
+                  {shift.mix_shift &&
+                    ` · share of sales ${formatShare(shift.share_before)} → ${formatShare(shift.share_after)}`}
+                </div>
+              </div>
+              {shift.status === 'open' ? (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => handleReview(shift.id, 'reset')}
+                    disabled={updatingId === shift.id}
+                    className="px-3 py-1.5 text-sm font-medium rounded-lg bg-blue-50 text-blue-700 hover:bg-blue-100 transition-colors disabled:opacity-50"
+                  >
+                    Retrain
+                  </button>
+                  <button
+                    onClick={() => handleReview(shift.id, 'dismissed')}
+                    disabled={updatingId === shift.id}
+                    className="px-3 py-1.5 text-sm font-medium rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-3">
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                    {STATUS_LABELS[shift.status]}
+                  </span>
+                  <button
+                    onClick={() => handleReview(shift.id, 'open')}
+                    disabled={updatingId === shift.id}
+                    className="text-sm text-gray-400 hover:text-gray-700 transition-colors disabled:opacity-50"
+                  >
+                    Undo
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
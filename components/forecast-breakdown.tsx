@@ -0,0 +1,324 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { DAYPARTS, daypartQuantities, splitByWeights } from '@/lib/dayparts'
+import { explanationReasons } from '@/lib/explanations'
+import { FORECAST_METHODS, ForecastExplanation } from '@/lib/forecasting'
+
+interface ForecastBreakdownProps {
+  locationId: string
+  date: string
+}
+
+interface ExplainedForecast {
+  item: string
+  predicted_quantity: number
+  prep_quantity: number | null
+  override_quantity: number | null
+  hourly_quantities: Record<string, number> | null
+  explanation: ForecastExplanation
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  weightedMovingAverage: 'Weighted Moving Average',
+  exponentialSmoothing: 'Exponential Smoothing',
+  dayOfWeekPattern: 'Day-of-Week Pattern',
+  linearTrendForecast: 'Linear Trend',
+  holtWinters: 'Holt-Winters'
+}
+
+interface OverrideDraft {
+  quantity: string
+  reason: string
+}
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`
+
+// Units per hour for the quantity that goes out, an override keeping the model's shape over the day
+const hourlySplit = (forecast: ExplainedForecast) =>
+  forecast.hourly_quantities && forecast.override_quantity !== null
+    ? splitByWeights(forecast.override_quantity, forecast.hourly_quantities)
+    : forecast.hourly_quantities
+
+const formatMultiplier = (multiplier: number) =>
+  multiplier === 1 ? '—' : `${multiplier > 1 ? '+' : ''}${Math.round((multiplier - 1) * 100)}%`
+
+export default function ForecastBreakdown({ locationId, date }: ForecastBreakdownProps) {
+  const [forecasts, setForecasts] = useState<ExplainedForecast[]>([])
+  const [loading, setLoading] = useState(true)
+  const [expandedItem, setExpandedItem] = useState<string | null>(null)
+  const [draft, setDraft] = useState<OverrideDraft>({ quantity: '', reason: '' })
+  const [savingOverride, setSavingOverride] = useState(false)
+
+  useEffect(() => {
+    loadForecasts()
+  }, [locationId, date])
+
+  const loadForecasts = async () => {
+    setLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('forecasts')
+        .select('item, predicted_quantity, prep_quantity, override_quantity, hourly_quantities, explanation')
+        .eq('location_id', locationId)
+        .eq('forecast_date', date)
+        .not('explanation', 'is', null)
+        .order('predicted_quantity', { ascending: false })
+
+      if (error) {
+        console.error('Error loading forecast breakdown:', error)
+        return
+      }
+
+      setForecasts(data || [])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleItem = (forecast: ExplainedForecast) => {
+    if (expandedItem === forecast.item) {
+      setExpandedItem(null)
+      return
+    }
+    setExpandedItem(forecast.item)
+    setDraft({ quantity: String(forecast.override_quantity ?? forecast.predicted_quantity), reason: '' })
+  }
+
+  const saveOverride = async (item: string, quantity: number | null) => {
+    if (quantity !== null && (!Number.isInteger(quantity) || quantity < 0)) {
+      alert('Please enter a whole number of units')
+      return
+    }
+
+    setSavingOverride(true)
+    try {
+      const response = await fetch('/api/forecast-overrides', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locationId, date, item, quantity, reason: draft.reason.trim() || null })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        console.error('Error overriding forecast:', result.error)
+        alert(`Failed to adjust forecast. Error: ${result.error}`)
+        return
+      }
+
+      setForecasts(
+        forecasts.map((forecast) => (forecast.item === item ? { ...forecast, override_quantity: quantity } : forecast))
+      )
+      setDraft({ ...draft, reason: '' })
+    } finally {
+      setSavingOverride(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-bold text-gray-900">Forecast Breakdown</h2>
+        <p className="text-sm text-gray-500 mt-1">What drives each item&apos;s forecast for this day</p>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : forecasts.length === 0 ? (
+        <div className="text-center py-8 text-sm text-gray-500">No forecasts for this day</div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {forecasts.map((forecast) => {
+            const { explanation } = forecast
+            const isExpanded = expandedItem === forecast.item
+            const hourly = hourlySplit(forecast)
+            const dayparts = hourly ? daypartQuantities(hourly) : null
+            let soldBy = 0
+
+            return (
+              <div key={forecast.item}>
+                <button
+                  onClick={() => toggleItem(forecast)}
+                  className="w-full px-6 py-4 hover:bg-gray-50 transition-colors flex items-center justify-between text-left"
+                >
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {forecast.item} · {forecast.override_quantity ?? forecast.predicted_quantity} units
+                      {forecast.override_quantity !== null && (
+                        <span className="text-amber-600"> · adjusted from {forecast.predicted_quantity}</span>
+                      )}
+                      {forecast.prep_quantity !== null && (
+                        <span className="text-gray-500"> · prep {forecast.prep_quantity}</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">{explanationReasons(explanation).join(' · ')}</div>
+                  </div>
+                  <span className="text-gray-400 text-sm">{isExpanded ? '−' : '+'}</span>
+                </button>
+
+                {isExpanded && (
+                  <div className="px-6 pb-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                      <div className="text-xs font-semibold text-gray-700 uppercase tracking-wider mb-2">
+                        {explanation.intermittent ? 'Slow Mover' : 'Ensemble Contributions'}
+                      </div>
+                      {explanation.intermittent ? (
+                        <div className="text-sm text-gray-600">
+                          {Math.round(explanation.intermittent.probability * 100)}% chance of selling, about{' '}
+                          {explanation.intermittent.size} units when it does
+                        </div>
+                      ) : (
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-xs text-gray-500">
+                              <th className="text-left font-medium py-1">Method</th>
+                              <th className="text-right font-medium py-1">Forecast</th>
+                              <th className="text-right font-medium py-1">Weight</th>
+                              <th className="text-right font-medium py-1">Contribution</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {FORECAST_METHODS.map((method) => {
+                              const member = explanation.methods[method]
+                              if (!member) return null
+                              return (
+                                <tr key={method} className="text-gray-700">
+                                  <td className="py-1">{METHOD_LABELS[method]}</td>
+                                  <td className="py-1 text-right">{member.forecast.toFixed(1)}</td>
+                                  <td className="py-1 text-right">{(member.weight * 100).toFixed(0)}%</td>
+                                  <td className="py-1 text-right font-medium">{member.contribution.toFixed(1)}</td>
+                                </tr>
+                              )
+                            })}
+                            <tr className="border-t border-gray-200 text-gray-900">
+                              <td className="py-1 font-medium">Ensemble</td>
+                              <td colSpan={3} className="py-1 text-right font-semibold">
+                                {explanation.ensemble.toFixed(1)}
+                              </td>
+                            </tr>
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+
+                    <div>
+                      <div className="text-xs font-semibold text-gray-700 uppercase tracking-wider mb-2">Drivers</div>
+                      <dl className="grid grid-cols-2 gap-y-1 text-sm">
+                        <dt className="text-gray-500">Recent average</dt>
+                        <dd className="text-right text-gray-900">{explanation.baseline.toFixed(1)}/day</dd>
+                        <dt className="text-gray-500">Weekday effect</dt>
+                        <dd className="text-right text-gray-900">
+                          {explanation.weekdayEffect > 0 ? '+' : ''}
+                          {explanation.weekdayEffect.toFixed(1)}
+                        </dd>
+                        <dt className="text-gray-500">Trend</dt>
+                        <dd className="text-right text-gray-900">
+                          {explanation.trendSlope > 0 ? '+' : ''}
+                          {(explanation.trendSlope * 7).toFixed(1)}/week
+                        </dd>
+                        <dt className="text-gray-500">
+                          Events{explanation.events.length > 0 && ` (${explanation.events.join(', ')})`}
+                        </dt>
+                        <dd className="text-right text-gray-900">{formatMultiplier(explanation.eventUplift)}</dd>
+                        <dt className="text-gray-500">Weather</dt>
+                        <dd className="text-right text-gray-900">{formatMultiplier(explanation.weatherAdjustment)}</dd>
+                        {explanation.prior && (
+                          <>
+                            <dt className="text-gray-500">Other locations</dt>
+                            <dd className="text-right text-gray-900">
+                              {explanation.prior.value.toFixed(1)} at {Math.round(explanation.prior.weight * 100)}%
+                            </dd>
+                          </>
+                        )}
+                        <dt className="text-gray-500">Unusual days</dt>
+                        <dd className="text-right text-gray-900">
+                          {explanation.outliers.capped} capped, {explanation.outliers.excluded} excluded
+                        </dd>
+                        <dt className="text-gray-500">Matched to totals</dt>
+                        <dd className="text-right text-gray-900">
+                          {explanation.reconciliation > 0 ? '+' : ''}
+                          {explanation.reconciliation}
+                        </dd>
+                      </dl>
+                    </div>
+
+                    {hourly && dayparts && (
+                      <div className="md:col-span-2">
+                        <div className="text-xs font-semibold text-gray-700 uppercase tracking-wider mb-2">
+                          By Time of Day
+                        </div>
+                        <div className="flex flex-wrap gap-4 text-sm text-gray-900 mb-2">
+                          {DAYPARTS.filter((daypart) => dayparts[daypart.name] !== undefined).map((daypart) => (
+                            <span key={daypart.name}>
+                              {daypart.label} <span className="font-semibold">{dayparts[daypart.name]}</span>
+                            </span>
+                          ))}
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {Object.keys(hourly)
+                            .map(Number)
+                            .sort((a, b) => a - b)
+                            .filter((hour) => hourly[hour] > 0)
+                            .map((hour) => {
+                              soldBy += hourly[hour]
+                              return (
+                                <div
+                                  key={hour}
+                                  className="px-2 py-1 rounded-lg bg-gray-50 text-xs text-gray-600"
+                                  title={`${soldBy} sold by ${formatHour(hour + 1)}`}
+                                >
+                                  {formatHour(hour)} · {hourly[hour]}
+                                </div>
+                              )
+                            })}
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="md:col-span-2 flex flex-wrap items-center gap-3 pt-3 border-t border-gray-200">
+                      <span className="text-xs font-semibold text-gray-700 uppercase tracking-wider">Adjust</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={draft.quantity}
+                        onChange={(e) => setDraft({ ...draft, quantity: e.target.value })}
+                        className="w-24 px-3 py-1.5 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+                      />
+                      <input
+                        type="text"
+                        value={draft.reason}
+                        onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+                        placeholder="Why? (e.g. party of 40 booked)"
+                        className="flex-1 min-w-48 px-3 py-1.5 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+                      />
+                      <button
+                        onClick={() => saveOverride(forecast.item, draft.quantity === '' ? NaN : Number(draft.quantity))}
+                        disabled={savingOverride}
+                        className="text-sm font-medium text-blue-600 hover:text-blue-800 transition-colors disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                      {forecast.override_quantity !== null && (
+                        <button
+                          onClick={() => saveOverride(forecast.item, null)}
+                          disabled={savingOverride}
+                          className="text-sm font-medium text-gray-500 hover:text-gray-700 transition-colors disabled:opacity-50"
+                        >
+                          Revert to {forecast.predicted_quantity}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ForecastOverrideRow, OverrideReport } from '@/lib/overrides'
+
+interface ForecastOverridesProps {
+  locationId: string
+}
+
+// Days of overrides listed and scored
+const REPORT_DAYS = 90
+
+const SOURCE_LABELS: Record<string, string> = {
+  dashboard: 'Dashboard',
+  whatsapp: 'WhatsApp'
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+
+export default function ForecastOverrides({ locationId }: ForecastOverridesProps) {
+  const [overrides, setOverrides] = useState<ForecastOverrideRow[]>([])
+  const [report, setReport] = useState<OverrideReport | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadOverrides()
+  }, [locationId])
+
+  const loadOverrides = async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ locationId, days: String(REPORT_DAYS) })
+      const response = await fetch(`/api/forecast-overrides?${params}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        console.error('Error loading forecast overrides:', result.error)
+        return
+      }
+
+      setOverrides(result.overrides)
+      setReport(result.report)
+    } catch (error) {
+      console.error('Error loading forecast overrides:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-bold text-gray-900">Forecast Overrides</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Forecasts your team changed in the last {REPORT_DAYS} days, and whether the changes came closer to what
+          actually sold than the model did.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : overrides.length === 0 ? (
+        <div className="text-center py-8 text-sm text-gray-500">No overrides yet</div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {report && report.overall.count > 0 && (
+            <div className="px-6 py-4">
+              <div className="text-sm text-gray-900">
+                Overrides helped on <span className="font-semibold text-green-700">{report.overall.improved}</span> and
+                hurt on <span className="font-semibold text-red-700">{report.overall.hurt}</span> of{' '}
+                {report.overall.count} item-days · average miss {report.overall.overrideMae} units vs{' '}
+                {report.overall.modelMae} for the model
+              </div>
+              {report.months.length > 1 && (
+                <table className="w-full text-sm mt-3">
+                  <thead>
+                    <tr className="text-xs text-gray-500">
+                      <th className="text-left font-medium py-1">Month</th>
+                      <th className="text-right font-medium py-1">Helped</th>
+                      <th className="text-right font-medium py-1">Hurt</th>
+                      <th className="text-right font-medium py-1">Override Miss</th>
+                      <th className="text-right font-medium py-1">Model Miss</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.months.map((month) => (
+                      <tr key={month.month} className="text-gray-700">
+                        <td className="py-1">{formatMonth(month.month)}</td>
+                        <td className="py-1 text-right">{month.improved}</td>
+                        <td className="py-1 text-right">{month.hurt}</td>
+                        <td className="py-1 text-right">{month.overrideMae}</td>
+                        <td className="py-1 text-right">{month.modelMae}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+          {overrides.map((override) => (
+            <div key={override.id} className="px-6 py-4 hover:bg-gray-50 transition-colors">
+              <div className="text-sm font-medium text-gray-900">
+                {override.item} ·{' '}
+                {override.override_quantity === null
+                  ? `back to ${override.original_quantity}`
+                  : `${override.original_quantity} → ${override.override_quantity}`}
+                {override.reason && <span className="text-gray-500 font-normal"> · {override.reason}</span>}
+              </div>
+              <div className="text-xs text-gray-500">
+                {formatDate(override.forecast_date)} · {SOURCE_LABELS[override.source]}
+                {override.overridden_by && ` · ${override.overridden_by}`} ·{' '}
+                {new Date(override.created_at).toLocaleString('en-US')}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
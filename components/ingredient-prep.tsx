@@ -0,0 +1,74 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { formatPrepQuantity, getPrepList, PrepList } from '@/lib/recipes'
+import { getLocalDateString, extractTimezoneFromTIMETZ } from '@/lib/timezones'
+
+interface IngredientPrepProps {
+  locationId: string
+  organizationId: string
+  kitchenClose: string
+  // Bumped by the recipe editor so the list follows recipe changes
+  refreshKey?: number
+}
+
+export default function IngredientPrep({ locationId, organizationId, kitchenClose, refreshKey }: IngredientPrepProps) {
+  const [prepList, setPrepList] = useState<PrepList | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  // Prep is for tomorrow's service in the location's timezone
+  const forecastDate = getLocalDateString(extractTimezoneFromTIMETZ(kitchenClose), 1)
+
+  useEffect(() => {
+    loadPrepList()
+  }, [locationId, organizationId, forecastDate, refreshKey])
+
+  const loadPrepList = async () => {
+    setLoading(true)
+    try {
+      setPrepList(await getPrepList({ id: locationId, organization_id: organizationId }, forecastDate))
+    } catch (error) {
+      console.error('Error loading prep list:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-bold text-gray-900">Ingredient Prep</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Tomorrow&apos;s ({forecastDate}) item forecasts turned into ingredients using the recipes below
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : !prepList || prepList.ingredients.length === 0 ? (
+        <div className="text-center py-8 text-sm text-gray-500">
+          No prep yet: it needs tomorrow&apos;s forecast and at least one recipe
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {prepList.ingredients.map((prep) => (
+            <div key={`${prep.ingredient}-${prep.unit}`} className="px-6 py-3 flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900">{prep.ingredient}</div>
+                <div className="text-xs text-gray-500">{prep.items.join(', ')}</div>
+              </div>
+              <div className="text-sm font-semibold text-gray-900">{formatPrepQuantity(prep)}</div>
+            </div>
+          ))}
+          {prepList.unmapped.length > 0 && (
+            <div className="px-6 py-3 bg-amber-50 text-sm text-amber-800">
+              No recipe yet for {prepList.unmapped.join(', ')}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
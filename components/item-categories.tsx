@@ -0,0 +1,126 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+
+interface ItemCategoriesProps {
+  locationId: string
+  organizationId: string
+}
+
+// Forecast rows read to list the location's items
+const MAX_FORECAST_ROWS = 1000
+
+export default function ItemCategories({ locationId, organizationId }: ItemCategoriesProps) {
+  const [items, setItems] = useState<string[]>([])
+  const [categories, setCategories] = useState<Record<string, string>>({})
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [savingItem, setSavingItem] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadCategories()
+  }, [locationId, organizationId])
+
+  const loadCategories = async () => {
+    setLoading(true)
+    try {
+      const [forecastsResult, categoriesResult] = await Promise.all([
+        supabase
+          .from('forecasts')
+          .select('item')
+          .eq('location_id', locationId)
+          .order('forecast_date', { ascending: false })
+          .limit(MAX_FORECAST_ROWS),
+        supabase.from('item_categories').select('item, category').eq('organization_id', organizationId)
+      ])
+
+      if (forecastsResult.error || categoriesResult.error) {
+        console.error('Error loading item categories:', forecastsResult.error || categoriesResult.error)
+        return
+      }
+
+      const assigned: Record<string, string> = {}
+      ;(categoriesResult.data || []).forEach((row) => {
+        assigned[row.item] = row.category
+      })
+
+      // Categories are shared across the organization; only this location's items are listed
+      const locationItems = new Set((forecastsResult.data || []).map((row) => row.item as string))
+      setItems(Array.from(locationItems).sort((a, b) => a.localeCompare(b)))
+      setCategories(assigned)
+      setDrafts(assigned)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async (item: string) => {
+    const category = (drafts[item] || '').trim()
+    if (category === (categories[item] || '')) return
+
+    setSavingItem(item)
+    try {
+      const { error } = category
+        ? await supabase
+            .from('item_categories')
+            .upsert({ organization_id: organizationId, item, category }, { onConflict: 'organization_id,item' })
+        : await supabase.from('item_categories').delete().eq('organization_id', organizationId).eq('item', item)
+
+      if (error) {
+        console.error('Error saving item category:', error)
+        alert(`Failed to save category. Error: ${error.message}`)
+        return
+      }
+
+      loadCategories()
+    } finally {
+      setSavingItem(null)
+    }
+  }
+
+  const knownCategories = Array.from(new Set(Object.values(categories))).sort((a, b) => a.localeCompare(b))
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-bold text-gray-900">Item Categories</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Group items (e.g. all bowls) to get category totals that add up with the item forecasts. Categories apply to
+          every location of the organization; items without one count as Uncategorized.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-8 text-sm text-gray-500">No forecast items yet</div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          <datalist id={`item-categories-${locationId}`}>
+            {knownCategories.map((category) => (
+              <option key={category} value={category} />
+            ))}
+          </datalist>
+          {items.map((item) => (
+            <div key={item} className="px-6 py-3 flex items-center justify-between gap-4">
+              <div className="text-sm font-medium text-gray-900">{item}</div>
+              <input
+                type="text"
+                list={`item-categories-${locationId}`}
+                value={drafts[item] || ''}
+                onChange={(e) => setDrafts({ ...drafts, [item]: e.target.value })}
+                onBlur={() => handleSave(item)}
+                disabled={savingItem === item}
+                placeholder="Uncategorized"
+                className="w-56 px-3 py-1.5 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm disabled:opacity-50"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,201 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { loadItemEconomics, serviceLevel } from '@/lib/item-economics'
+
+interface ItemEconomicsProps {
+  locationId: string
+  organizationId: string
+}
+
+interface EconomicsDraft {
+  unitCost: string
+  price: string
+  shelfLifeDays: string
+}
+
+// Forecast rows read to list the location's items
+const MAX_FORECAST_ROWS = 1000
+
+const emptyDraft: EconomicsDraft = { unitCost: '', price: '', shelfLifeDays: '1' }
+
+const toCents = (value: string) => Math.round(Number(value) * 100)
+
+export default function ItemEconomics({ locationId, organizationId }: ItemEconomicsProps) {
+  const [items, setItems] = useState<string[]>([])
+  const [drafts, setDrafts] = useState<Record<string, EconomicsDraft>>({})
+  const [loading, setLoading] = useState(true)
+  const [savingItem, setSavingItem] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadEconomics()
+  }, [locationId, organizationId])
+
+  const loadEconomics = async () => {
+    setLoading(true)
+    try {
+      const [{ data: forecasts, error }, economics] = await Promise.all([
+        supabase
+          .from('forecasts')
+          .select('item')
+          .eq('location_id', locationId)
+          .order('forecast_date', { ascending: false })
+          .limit(MAX_FORECAST_ROWS),
+        loadItemEconomics(organizationId)
+      ])
+
+      if (error) {
+        console.error('Error loading forecast items:', error)
+        return
+      }
+
+      const saved: Record<string, EconomicsDraft> = {}
+      economics.forEach((row) => {
+        saved[row.item] = {
+          unitCost: (row.unit_cost_cents / 100).toFixed(2),
+          price: (row.price_cents / 100).toFixed(2),
+          shelfLifeDays: String(row.shelf_life_days)
+        }
+      })
+
+      const locationItems = new Set((forecasts || []).map((row) => row.item as string))
+      setItems(Array.from(locationItems).sort((a, b) => a.localeCompare(b)))
+      setDrafts(saved)
+    } catch (error) {
+      console.error('Error loading item economics:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateDraft = (item: string, field: keyof EconomicsDraft, value: string) => {
+    setDrafts({ ...drafts, [item]: { ...(drafts[item] || emptyDraft), [field]: value } })
+  }
+
+  const handleSave = async (item: string) => {
+    const draft = drafts[item] || emptyDraft
+    const unitCost = Number(draft.unitCost)
+    const price = Number(draft.price)
+    const shelfLifeDays = Number(draft.shelfLifeDays)
+
+    if (!draft.unitCost || !draft.price || !(unitCost >= 0) || !(price >= 0)) {
+      alert('Please enter a unit cost and a price')
+      return
+    }
+
+    if (!Number.isInteger(shelfLifeDays) || shelfLifeDays < 1) {
+      alert('Shelf life must be a whole number of days (1 = wasted at close)')
+      return
+    }
+
+    setSavingItem(item)
+    try {
+      const { error } = await supabase.from('item_economics').upsert(
+        {
+          organization_id: organizationId,
+          item,
+          unit_cost_cents: toCents(draft.unitCost),
+          price_cents: toCents(draft.price),
+          shelf_life_days: shelfLifeDays
+        },
+        { onConflict: 'organization_id,item' }
+      )
+
+      if (error) {
+        console.error('Error saving item economics:', error)
+        alert(`Failed to save. Error: ${error.message}`)
+        return
+      }
+
+      loadEconomics()
+    } finally {
+      setSavingItem(null)
+    }
+  }
+
+  const targetFor = (draft?: EconomicsDraft) => {
+    if (!draft || !draft.unitCost || !draft.price) return null
+    return serviceLevel({
+      unit_cost_cents: toCents(draft.unitCost),
+      price_cents: toCents(draft.price),
+      shelf_life_days: Number(draft.shelfLifeDays) || 1
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-bold text-gray-900">Prep Targets</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          With a cost and a price, forecasts suggest how much to prep: more of high-margin items that are costly to run
+          out of, less of cheap ones that go to waste. Shared by every location of the organization.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-8 text-sm text-gray-500">No forecast items yet</div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          <div className="px-6 py-2 grid grid-cols-12 gap-3 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+            <div className="col-span-4">Item</div>
+            <div className="col-span-2">Unit Cost</div>
+            <div className="col-span-2">Price</div>
+            <div className="col-span-2">Shelf Life (days)</div>
+            <div className="col-span-2 text-right">Target</div>
+          </div>
+          {items.map((item) => {
+            const draft = drafts[item] || emptyDraft
+            const target = targetFor(drafts[item])
+
+            return (
+              <div key={item} className="px-6 py-3 grid grid-cols-12 gap-3 items-center">
+                <div className="col-span-4 text-sm font-medium text-gray-900">{item}</div>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.unitCost}
+                  onChange={(e) => updateDraft(item, 'unitCost', e.target.value)}
+                  className="col-span-2 px-3 py-1.5 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.price}
+                  onChange={(e) => updateDraft(item, 'price', e.target.value)}
+                  className="col-span-2 px-3 py-1.5 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+                />
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={draft.shelfLifeDays}
+                  onChange={(e) => updateDraft(item, 'shelfLifeDays', e.target.value)}
+                  className="col-span-2 px-3 py-1.5 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+                />
+                <div className="col-span-2 flex items-center justify-end gap-3">
+                  <span className="text-xs text-gray-500" title="Chance of covering demand">
+                    {target === null ? '—' : `${Math.round(target * 100)}%`}
+                  </span>
+                  <button
+                    onClick={() => handleSave(item)}
+                    disabled={savingItem === item}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-800 transition-colors disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -14,17 +14,31 @@ interface CSVData {
   date: string
   item: string
   quantity: number
+  revenue?: number
+  promotion?: string
 }
 
 interface CSVRowData {
   [key: string]: string
 }
 
+// Money from a CSV cell ("$1,250.50", "12,50"); undefined if it isn't a number
+const parseAmount = (value?: string): number | undefined => {
+  if (!value) return undefined
+  const cleaned = value.replace(/[^0-9.,-]/g, '')
+  // A lone comma with 1-2 decimals is a decimal comma; other commas group thousands
+  const normalized = /^-?\d+,\d{1,2}$/.test(cleaned) ? cleaned.replace(',', '.') : cleaned.replace(/,/g, '')
+  const amount = parseFloat(normalized)
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined
+}
+
 export default function LocationCSVUpload({ locationName, onUpload, onError, onClose, uploading }: CSVUploadProps) {
   const [isProcessing, setIsProcessing] = useState(false)
   const [fileName, setFileName] = useState<string | null>(null)
   const [previewData, setPreviewData] = useState<CSVData[] | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const hasRevenue = previewData?.some(row => row.revenue !== undefined)
+  const hasPromotion = previewData?.some(row => row.promotion !== undefined)
 
   const requiredColumns = ['date', 'quantity']
   const optionalNameColumns = ['product', 'name', 'item']
@@ -82,18 +96,36 @@ export default function LocationCSVUpload({ locationName, onUpload, onError, onC
         return lower.includes('quantity') || lower === 'qty' || lower === 'amount' || lower === 'cantidad'
       })
 
-      // Find product/name column
+      // Find product/name column (not a promotion name)
       const productKey = keys.find(k => {
         const lower = k.toLowerCase()
+        if (lower.includes('promo')) return false
         return optionalNameColumns.some(col => lower.includes(col)) || 
                lower.includes('producto') || 
                lower.includes('articulo')
       })
 
+      // Optional: revenue of the row (or the unit price) and the promotion it sold under
+      const revenueKey = keys.find(k => {
+        const lower = k.toLowerCase()
+        return lower.includes('revenue') || lower === 'total' || lower === 'sales' || lower.includes('importe') || lower.includes('ingreso')
+      })
+      const priceKey = keys.find(k => {
+        const lower = k.toLowerCase()
+        return lower.includes('price') || lower.includes('precio')
+      })
+      const promotionKey = keys.find(k => k.toLowerCase().includes('promo'))
+
       if (dateKey) normalizedRow.date = row[dateKey]
       if (quantityKey) normalizedRow.quantity = parseInt(row[quantityKey]) || 0
       if (productKey) normalizedRow.item = row[productKey]
 
+      const revenue = revenueKey ? parseAmount(row[revenueKey]) : undefined
+      const price = priceKey ? parseAmount(row[priceKey]) : undefined
+      if (revenue !== undefined) normalizedRow.revenue = revenue
+      else if (price !== undefined && normalizedRow.quantity) normalizedRow.revenue = price * normalizedRow.quantity
+      if (promotionKey && row[promotionKey]?.trim()) normalizedRow.promotion = row[promotionKey].trim()
+
       return normalizedRow
     }).filter(row => row.date && row.quantity && row.item) // Filter out invalid rows
   }
@@ -231,6 +263,7 @@ export default function LocationCSVUpload({ locationName, onUpload, onError, onC
                 <ul className="text-sm text-blue-800 space-y-1">
                   <li>• Only new data will be added - no duplicates will be created</li>
                   <li>• Required columns: date, quantity, product/item name</li>
+                  <li>• Optional columns: revenue (or unit price) and promotion, to learn how discounts move sales</li>
                   <li>• Existing data with the same date and item will be skipped</li>
                   <li>• CSV must be properly formatted with headers</li>
                 </ul>
@@ -300,6 +333,8 @@ export default function LocationCSVUpload({ locationName, onUpload, onError, onC
                         <th className="px-4 py-2 text-left font-medium text-gray-700">Date</th>
                         <th className="px-4 py-2 text-left font-medium text-gray-700">Item</th>
                         <th className="px-4 py-2 text-left font-medium text-gray-700">Quantity</th>
+                        {hasRevenue && <th className="px-4 py-2 text-left font-medium text-gray-700">Revenue</th>}
+                        {hasPromotion && <th className="px-4 py-2 text-left font-medium text-gray-700">Promotion</th>}
                       </tr>
                     </thead>
                     <tbody>
@@ -308,6 +343,8 @@ export default function LocationCSVUpload({ locationName, onUpload, onError, onC
                           <td className="px-4 py-2 text-gray-900">{row.date}</td>
                           <td className="px-4 py-2 text-gray-900">{row.item}</td>
                           <td className="px-4 py-2 text-gray-900">{row.quantity}</td>
+                          {hasRevenue && <td className="px-4 py-2 text-gray-900">{row.revenue?.toFixed(2) ?? '—'}</td>}
+                          {hasPromotion && <td className="px-4 py-2 text-gray-900">{row.promotion ?? '—'}</td>}
                         </tr>
                       ))}
                     </tbody>
@@ -0,0 +1,276 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { getCountryHolidays, HOLIDAY_COUNTRIES, LocationEventRow, resolveLocationCountry } from '@/lib/holidays'
+import { getLocalDateString, extractTimezoneFromTIMETZ } from '@/lib/timezones'
+
+interface LocationEventsProps {
+  locationId: string
+  organizationId: string
+  country?: string | null
+  kitchenClose: string
+}
+
+interface EventFormData {
+  name: string
+  startDate: string
+  endDate: string
+  recursAnnually: boolean
+  expectedUplift: string
+}
+
+// Upcoming holidays shown from the built-in calendar
+const UPCOMING_HOLIDAY_DAYS = 60
+
+const emptyForm: EventFormData = {
+  name: '',
+  startDate: '',
+  endDate: '',
+  recursAnnually: false,
+  expectedUplift: ''
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+
+export default function LocationEvents({ locationId, organizationId, country, kitchenClose }: LocationEventsProps) {
+  const [events, setEvents] = useState<LocationEventRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [formData, setFormData] = useState<EventFormData>(emptyForm)
+
+  const timezone = extractTimezoneFromTIMETZ(kitchenClose)
+  const calendarCountry = resolveLocationCountry({ country, kitchen_close: kitchenClose })
+  const countryLabel = HOLIDAY_COUNTRIES.find((c) => c.value === calendarCountry)?.label
+  const upcomingHolidays = calendarCountry
+    ? getCountryHolidays(
+        calendarCountry,
+        getLocalDateString(timezone),
+        getLocalDateString(timezone, UPCOMING_HOLIDAY_DAYS)
+      )
+    : []
+
+  useEffect(() => {
+    loadEvents()
+  }, [locationId])
+
+  const loadEvents = async () => {
+    setLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('location_events')
+        .select('id, name, start_date, end_date, recurs_annually, expected_uplift')
+        .eq('location_id', locationId)
+        .order('start_date', { ascending: true })
+
+      if (error) {
+        console.error('Error loading events:', error)
+        return
+      }
+
+      setEvents(data || [])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSaveEvent = async () => {
+    if (!formData.name || !formData.startDate) {
+      alert('Please enter a name and a start date')
+      return
+    }
+
+    if (formData.endDate && formData.endDate < formData.startDate) {
+      alert('End date must be on or after the start date')
+      return
+    }
+
+    const expectedUplift = formData.expectedUplift ? Number(formData.expectedUplift) : null
+    if (expectedUplift !== null && !(expectedUplift > 0)) {
+      alert('Expected uplift must be a positive number (e.g. 1.5 for +50%)')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { error } = await supabase.from('location_events').insert({
+        organization_id: organizationId,
+        location_id: locationId,
+        name: formData.name,
+        start_date: formData.startDate,
+        end_date: formData.endDate || null,
+        recurs_annually: formData.recursAnnually,
+        expected_uplift: expectedUplift
+      })
+
+      if (error) {
+        console.error('Error saving event:', error)
+        alert(`Failed to save event. Error: ${error.message}`)
+        return
+      }
+
+      setFormData(emptyForm)
+      setShowForm(false)
+      loadEvents()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteEvent = async (eventId: string) => {
+    if (!confirm('Delete this event?')) return
+
+    const { error } = await supabase
+      .from('location_events')
+      .delete()
+      .eq('id', eventId)
+
+    if (error) {
+      console.error('Error deleting event:', error)
+      alert(`Failed to delete event. Error: ${error.message}`)
+      return
+    }
+
+    loadEvents()
+  }
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Holidays & Events</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {countryLabel
+              ? `${countryLabel} holidays are included automatically. Add local events that move your sales.`
+              : 'Add local events that move your sales. Set a country to include public holidays.'}
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-lg font-medium hover:shadow-lg transition-all duration-200 flex items-center gap-2"
+        >
+          <span className="text-lg">{showForm ? '×' : '+'}</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Event Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., Feria de las Flores"
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Start Date</label>
+              <input
+                type="date"
+                value={formData.startDate}
+                onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">End Date (optional)</label>
+              <input
+                type="date"
+                value={formData.endDate}
+                onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Expected Uplift (optional)</label>
+              <input
+                type="number"
+                min="0.1"
+                step="0.1"
+                value={formData.expectedUplift}
+                onChange={(e) => setFormData({ ...formData, expectedUplift: e.target.value })}
+                placeholder="e.g., 1.5 for +50%"
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">Used until the event shows up in your sales history</p>
+            </div>
+            <div className="flex items-center">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.recursAnnually}
+                  onChange={(e) => setFormData({ ...formData, recursAnnually: e.target.checked })}
+                  className="rounded border-gray-300"
+                />
+                Repeats every year
+              </label>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <button
+              onClick={handleSaveEvent}
+              disabled={saving}
+              className="px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-lg font-medium hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Event'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {events.map((event) => (
+            <div key={event.id} className="px-6 py-4 hover:bg-gray-50 transition-colors flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900">{event.name}</div>
+                <div className="text-xs text-gray-500">
+                  {formatDate(event.start_date)}
+                  {event.end_date && event.end_date !== event.start_date && ` – ${formatDate(event.end_date)}`}
+                  {event.recurs_annually && ' · every year'}
+                  {event.expected_uplift && ` · expected ×${Number(event.expected_uplift)}`}
+                </div>
+              </div>
+              <button
+                onClick={() => handleDeleteEvent(event.id)}
+                className="text-sm text-gray-400 hover:text-red-600 transition-colors"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+
+          {upcomingHolidays.map((holiday) => (
+            <div key={`${holiday.key}-${holiday.date}`} className="px-6 py-4 flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900">{holiday.name}</div>
+                <div className="text-xs text-gray-500">{formatDate(holiday.date)}</div>
+              </div>
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                Holiday
+              </span>
+            </div>
+          ))}
+
+          {events.length === 0 && upcomingHolidays.length === 0 && (
+            <div className="text-center py-8 text-sm text-gray-500">No events yet</div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
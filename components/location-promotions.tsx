@@ -0,0 +1,431 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { LocationPromotionRow, PromotionInput, PromotionSimulation, loadLocationPromotions } from '@/lib/promotions'
+
+interface LocationPromotionsProps {
+  locationId: string
+  organizationId: string
+}
+
+interface PromotionFormData {
+  item: string
+  name: string
+  startDate: string
+  endDate: string
+  weekdays: number[]
+  discountPercent: string
+  expectedUplift: string
+}
+
+// Forecast rows read to list the location's items
+const MAX_FORECAST_ROWS = 1000
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const emptyForm: PromotionFormData = {
+  item: '',
+  name: '',
+  startDate: '',
+  endDate: '',
+  weekdays: [],
+  discountPercent: '',
+  expectedUplift: ''
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+
+const formatMoney = (cents: number | null) => (cents === null ? '—' : (cents / 100).toFixed(2))
+
+export default function LocationPromotions({ locationId, organizationId }: LocationPromotionsProps) {
+  const [promotions, setPromotions] = useState<LocationPromotionRow[]>([])
+  const [items, setItems] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [simulating, setSimulating] = useState(false)
+  const [formData, setFormData] = useState<PromotionFormData>(emptyForm)
+  const [simulation, setSimulation] = useState<PromotionSimulation | null>(null)
+
+  useEffect(() => {
+    loadPromotions()
+  }, [locationId])
+
+  const loadPromotions = async () => {
+    setLoading(true)
+    try {
+      const [rows, { data: forecasts, error }] = await Promise.all([
+        loadLocationPromotions(locationId),
+        supabase
+          .from('forecasts')
+          .select('item')
+          .eq('location_id', locationId)
+          .order('forecast_date', { ascending: false })
+          .limit(MAX_FORECAST_ROWS)
+      ])
+
+      if (error) {
+        console.error('Error loading forecast items:', error)
+      }
+
+      setPromotions(rows)
+      const locationItems = new Set((forecasts || []).map((row) => row.item as string))
+      setItems(Array.from(locationItems).sort((a, b) => a.localeCompare(b)))
+    } catch (error) {
+      console.error('Error loading promotions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Form values as a promotion; null (after an alert) if they don't make one
+  const toPromotion = (): PromotionInput | null => {
+    if (!formData.item || !formData.name || !formData.startDate) {
+      alert('Please pick an item and enter a name and a start date')
+      return null
+    }
+
+    if (formData.endDate && formData.endDate < formData.startDate) {
+      alert('End date must be on or after the start date')
+      return null
+    }
+
+    const discountPercent = formData.discountPercent ? Number(formData.discountPercent) : null
+    if (discountPercent !== null && !(discountPercent > 0 && discountPercent < 100)) {
+      alert('Discount must be between 0 and 100 percent (50 for a 2x1)')
+      return null
+    }
+
+    const expectedUplift = formData.expectedUplift ? Number(formData.expectedUplift) : null
+    if (expectedUplift !== null && !(expectedUplift > 0)) {
+      alert('Expected uplift must be a positive number (e.g. 1.8 for +80%)')
+      return null
+    }
+
+    return {
+      item: formData.item,
+      name: formData.name.trim(),
+      start_date: formData.startDate,
+      end_date: formData.endDate || null,
+      weekdays: formData.weekdays.length > 0 ? formData.weekdays : null,
+      discount_percent: discountPercent,
+      expected_uplift: expectedUplift
+    }
+  }
+
+  const runSimulation = async (promotion: PromotionInput) => {
+    setSimulating(true)
+    try {
+      const response = await fetch('/api/promotion-simulation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          locationId,
+          item: promotion.item,
+          name: promotion.name,
+          startDate: promotion.start_date,
+          endDate: promotion.end_date,
+          weekdays: promotion.weekdays,
+          discountPercent: promotion.discount_percent,
+          expectedUplift: promotion.expected_uplift
+        })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        console.error('Error simulating promotion:', result.error)
+        alert(`Failed to simulate promotion. Error: ${result.error}`)
+        return
+      }
+
+      setSimulation(result)
+    } finally {
+      setSimulating(false)
+    }
+  }
+
+  const handleSimulate = () => {
+    const promotion = toPromotion()
+    if (promotion) runSimulation(promotion)
+  }
+
+  const handleSavePromotion = async () => {
+    const promotion = toPromotion()
+    if (!promotion) return
+
+    setSaving(true)
+    try {
+      const { error } = await supabase.from('location_promotions').insert({
+        organization_id: organizationId,
+        location_id: locationId,
+        ...promotion
+      })
+
+      if (error) {
+        console.error('Error saving promotion:', error)
+        alert(`Failed to save promotion. Error: ${error.message}`)
+        return
+      }
+
+      setFormData(emptyForm)
+      setShowForm(false)
+      loadPromotions()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeletePromotion = async (promotionId: string) => {
+    if (!confirm('Delete this promotion?')) return
+
+    const { error } = await supabase
+      .from('location_promotions')
+      .delete()
+      .eq('id', promotionId)
+
+    if (error) {
+      console.error('Error deleting promotion:', error)
+      alert(`Failed to delete promotion. Error: ${error.message}`)
+      return
+    }
+
+    loadPromotions()
+  }
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = formData.weekdays.includes(day)
+      ? formData.weekdays.filter((d) => d !== day)
+      : [...formData.weekdays, day].sort((a, b) => a - b)
+    setFormData({ ...formData, weekdays })
+  }
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Promotions</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Plan discounts like a 2x1 Tuesday and see how many more units to prep. Uploads with revenue and promotion
+            columns teach the forecast how your items respond to price.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-lg font-medium hover:shadow-lg transition-all duration-200 flex items-center gap-2"
+        >
+          <span className="text-lg">{showForm ? '×' : '+'}</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Item</label>
+              <select
+                value={formData.item}
+                onChange={(e) => setFormData({ ...formData, item: e.target.value })}
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              >
+                <option value="">Select an item</option>
+                {items.map((item) => (
+                  <option key={item} value={item}>
+                    {item}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Promotion Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., 2x1 Tuesday"
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">Use the name your sales uploads flag it with</p>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Start Date</label>
+              <input
+                type="date"
+                value={formData.startDate}
+                onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">End Date (optional)</label>
+              <input
+                type="date"
+                value={formData.endDate}
+                onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Days (none = every day)</label>
+              <div className="flex flex-wrap gap-3">
+                {WEEKDAYS.map((label, day) => (
+                  <label key={label} className="flex items-center gap-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.weekdays.includes(day)}
+                      onChange={() => toggleWeekday(day)}
+                      className="rounded border-gray-300"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Discount % (optional)</label>
+              <input
+                type="number"
+                min="1"
+                max="99"
+                step="1"
+                value={formData.discountPercent}
+                onChange={(e) => setFormData({ ...formData, discountPercent: e.target.value })}
+                placeholder="e.g., 50 for a 2x1"
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Expected Uplift (optional)</label>
+              <input
+                type="number"
+                min="0.1"
+                step="0.1"
+                value={formData.expectedUplift}
+                onChange={(e) => setFormData({ ...formData, expectedUplift: e.target.value })}
+                placeholder="e.g., 1.8 for +80%"
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">Else estimated from the discount until the promotion has run</p>
+            </div>
+          </div>
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={handleSimulate}
+              disabled={simulating}
+              className="px-4 py-2 border-2 border-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {simulating ? 'Simulating...' : 'Simulate'}
+            </button>
+            <button
+              onClick={handleSavePromotion}
+              disabled={saving}
+              className="px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-lg font-medium hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Promotion'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {simulation && (
+        <div className="px-6 py-4 border-b border-gray-200 bg-blue-50">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-semibold text-gray-900">
+              {simulation.name} · {simulation.item}
+            </div>
+            <button onClick={() => setSimulation(null)} className="text-sm text-gray-400 hover:text-gray-600">
+              Close
+            </button>
+          </div>
+          {simulation.days.length === 0 ? (
+            <div className="text-sm text-gray-500 mt-2">The promotion doesn&apos;t run in the next weeks</div>
+          ) : (
+            <>
+              <div className="text-sm text-gray-700 mt-1">
+                {simulation.totals.forecast} units instead of {simulation.totals.baseline} over{' '}
+                {simulation.days.length} days
+                {simulation.totals.revenueCents !== null &&
+                  ` · revenue ${formatMoney(simulation.totals.revenueCents)} instead of ${formatMoney(
+                    simulation.totals.baselineRevenueCents
+                  )}`}
+              </div>
+              <table className="w-full text-sm mt-3">
+                <thead>
+                  <tr className="text-xs text-gray-500">
+                    <th className="text-left font-medium py-1">Date</th>
+                    <th className="text-right font-medium py-1">Without</th>
+                    <th className="text-right font-medium py-1">With Promotion</th>
+                    <th className="text-right font-medium py-1">Uplift</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {simulation.days.map((day) => (
+                    <tr key={day.date} className="text-gray-700">
+                      <td className="py-1">{formatDate(day.date)}</td>
+                      <td className="py-1 text-right">{day.baseline}</td>
+                      <td className="py-1 text-right font-medium text-gray-900">{day.forecast}</td>
+                      <td className="py-1 text-right">{day.uplift === null ? '—' : `×${day.uplift}`}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : promotions.length === 0 ? (
+        <div className="text-center py-8 text-sm text-gray-500">No promotions planned</div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {promotions.map((promotion) => (
+            <div
+              key={promotion.id}
+              className="px-6 py-4 hover:bg-gray-50 transition-colors flex items-center justify-between"
+            >
+              <div>
+                <div className="text-sm font-medium text-gray-900">
+                  {promotion.name} · {promotion.item}
+                </div>
+                <div className="text-xs text-gray-500">
+                  From {formatDate(promotion.start_date)}
+                  {promotion.end_date && ` to ${formatDate(promotion.end_date)}`}
+                  {promotion.weekdays &&
+                    promotion.weekdays.length > 0 &&
+                    ` · ${promotion.weekdays.map((day) => WEEKDAYS[day]).join(', ')}`}
+                  {promotion.discount_percent && ` · ${Number(promotion.discount_percent)}% off`}
+                  {promotion.expected_uplift && ` · expected ×${Number(promotion.expected_uplift)}`}
+                </div>
+              </div>
+              <div className="flex items-center gap-4">
+                <button
+                  onClick={() => runSimulation(promotion)}
+                  disabled={simulating}
+                  className="text-sm text-blue-600 hover:text-blue-800 transition-colors disabled:opacity-50"
+                >
+                  Simulate
+                </button>
+                <button
+                  onClick={() => handleDeletePromotion(promotion.id)}
+                  className="text-sm text-gray-400 hover:text-red-600 transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
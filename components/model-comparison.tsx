@@ -0,0 +1,191 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ErrorMetrics } from '@/lib/backtesting'
+import { ModelComparison as Comparison, ModelVersion } from '@/lib/model-versions'
+
+interface ModelComparisonProps {
+  organizationId: string
+}
+
+interface LocationComparison extends Comparison {
+  location_id: string
+  location_name: string
+}
+
+interface ModelVersionsResponse {
+  versions: ModelVersion[]
+  champion: string
+  challenger: string | null
+  days: number
+  overall: Comparison | null
+  locations: LocationComparison[]
+}
+
+const formatWape = (wape: number | null) =>
+  wape === null ? '—' : `${(wape * 100).toFixed(1)}%`
+
+const formatBias = (bias: number) => `${bias > 0 ? '+' : ''}${bias.toFixed(1)}`
+
+// The challenger wins on a lower WAPE, or a lower MAE when nothing sold
+const challengerWins = (comparison: Comparison) =>
+  comparison.champion.wape !== null && comparison.challenger.wape !== null
+    ? comparison.challenger.wape < comparison.champion.wape
+    : comparison.challenger.mae < comparison.champion.mae
+
+export default function ModelComparison({ organizationId }: ModelComparisonProps) {
+  const [data, setData] = useState<ModelVersionsResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadComparison()
+  }, [organizationId])
+
+  const loadComparison = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/model-versions?organizationId=${organizationId}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        console.error('Error loading model versions:', result.error)
+        return
+      }
+
+      setData(result)
+    } catch (err) {
+      console.error('Error loading model versions:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateModels = async (body: { challenger?: string | null; action?: 'promote' }) => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/model-versions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationId, ...body }),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        console.error('Error updating model versions:', result.error)
+        alert(`Failed to update model versions. Error: ${result.error}`)
+        return
+      }
+
+      loadComparison()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePromote = () => {
+    if (!data?.challenger) return
+    if (!confirm(`Send ${data.challenger} forecasts from the next run on? ${data.champion} stops running.`)) return
+    updateModels({ action: 'promote' })
+  }
+
+  const renderRow = (label: string, metrics: ErrorMetrics, highlight: boolean) => (
+    <tr className={highlight ? 'bg-green-50' : ''}>
+      <td className="px-6 py-3 text-sm font-medium text-gray-900">{label}</td>
+      <td className="px-6 py-3 text-right text-sm text-gray-900">{metrics.mae.toFixed(1)}</td>
+      <td className="px-6 py-3 text-right text-sm text-gray-900">{formatWape(metrics.wape)}</td>
+      <td className="px-6 py-3 text-right text-sm text-gray-900">{formatBias(metrics.bias)}</td>
+    </tr>
+  )
+
+  const renderComparison = (comparison: Comparison, title: string) => {
+    const wins = challengerWins(comparison)
+    return (
+      <table className="w-full">
+        <thead className="bg-gray-50 border-b border-gray-200">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-bold text-gray-700 uppercase tracking-wider">{title}</th>
+            <th className="px-6 py-3 text-right text-xs font-bold text-gray-700 uppercase tracking-wider">MAE</th>
+            <th className="px-6 py-3 text-right text-xs font-bold text-gray-700 uppercase tracking-wider">WAPE</th>
+            <th className="px-6 py-3 text-right text-xs font-bold text-gray-700 uppercase tracking-wider">Bias</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {renderRow(`Champion · ${data?.champion}`, comparison.champion, !wins)}
+          {renderRow(`Challenger · ${data?.challenger}`, comparison.challenger, wins)}
+        </tbody>
+      </table>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Champion vs Challenger</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            A challenger model runs next to the one that is sent, without reaching anyone. Promote it once it is more
+            accurate on the same items and days.
+          </p>
+        </div>
+        {data && (
+          <div className="flex items-center gap-3 shrink-0">
+            <select
+              value={data.challenger || ''}
+              onChange={(e) => updateModels({ challenger: e.target.value || null })}
+              disabled={saving}
+              className="px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+            >
+              <option value="">No challenger</option>
+              {data.versions
+                .filter((version) => version.id !== data.champion)
+                .map((version) => (
+                  <option key={version.id} value={version.id} title={version.description}>
+                    {version.id}
+                  </option>
+                ))}
+            </select>
+            {data.challenger && (
+              <button
+                onClick={handlePromote}
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Promote
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : !data ? (
+        <div className="text-center py-8 text-sm text-gray-500">Model versions are unavailable</div>
+      ) : !data.challenger ? (
+        <div className="text-center py-8 text-sm text-gray-500">
+          Sending {data.champion}. Pick a challenger to start a shadow run.
+        </div>
+      ) : !data.overall ? (
+        <div className="text-center py-8 text-sm text-gray-500">
+          No days to compare yet: the challenger is scored once its forecast days have sales
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="px-6 py-3 text-sm text-gray-600">
+            {data.overall.days} days, {data.overall.champion.count} item forecasts in the last {data.days} days
+          </div>
+          {renderComparison(data.overall, 'All Locations')}
+          {data.locations.length > 1 &&
+            data.locations.map((location) => (
+              <div key={location.location_id} className="border-t border-gray-200">
+                {renderComparison(location, location.location_name)}
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -36,6 +36,8 @@ interface CSVData {
   date: string
   item: string
   quantity: number
+  revenue?: number
+  promotion?: string
 }
 
 interface LocationCSVData {
@@ -502,7 +504,7 @@ export default function Onboarding() {
       const year = parseInt(dateStr.substring(0, 4))
       const month = parseInt(dateStr.substring(4, 6)) - 1 // Month is 0-indexed
       const day = parseInt(dateStr.substring(6, 8))
-      return new Date(year, month, day)
+      return new Date(Date.UTC(year, month, day))
     }
 
     // Handle ISO format: YYYY-MM-DD
@@ -556,7 +558,7 @@ export default function Onboarding() {
         throw new Error(`Invalid day in date: ${dateStr}`)
       }
 
-      return new Date(year, month - 1, day)
+      return new Date(Date.UTC(year, month - 1, day))
     }
     
     // Handle other standard formats
@@ -587,16 +589,20 @@ export default function Onboarding() {
         if (!locationRecord) continue
 
         for (const csvRow of csvRows) {
-          // Parse date and convert to timestamp
+          // Parse date and convert to timestamp; dates without a time are stored
+          // at UTC midnight as the day's total
           const timestamp = parseDate(csvRow.date).toISOString()
+          const dailyTotal = /^(\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4}|\d{8})$/.test(csvRow.date.trim())
           
           salesDataRecords.push({
             location_id: locationRecord.id,
             organization_id: data.orgId,
             timestamp,
+            daily_total: dailyTotal,
             item: csvRow.item,
             quantity: csvRow.quantity,
-            revenue_cents: null,
+            revenue_cents: csvRow.revenue !== undefined ? Math.round(csvRow.revenue * 100) : null,
+            promotion: csvRow.promotion || null,
             provider: 'manual',
             source: 'csv_upload'
           })
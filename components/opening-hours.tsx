@@ -0,0 +1,313 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { DayHours, LocationClosureRow, OpeningHours as Schedule, WEEKDAY_NAMES, parseOpeningHours } from '@/lib/opening-hours'
+
+interface OpeningHoursProps {
+  locationId: string
+  organizationId: string
+}
+
+interface ClosureFormData {
+  date: string
+  reason: string
+}
+
+// Starting point when a location has no schedule yet
+const DEFAULT_DAY_HOURS: DayHours = { opens: '11:00', closes: '22:00' }
+
+const emptyForm: ClosureFormData = {
+  date: '',
+  reason: ''
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+
+export default function OpeningHours({ locationId, organizationId }: OpeningHoursProps) {
+  const [schedule, setSchedule] = useState<Schedule>(WEEKDAY_NAMES.map(() => ({ ...DEFAULT_DAY_HOURS })))
+  const [hasSchedule, setHasSchedule] = useState(false)
+  const [closures, setClosures] = useState<LocationClosureRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [savingHours, setSavingHours] = useState(false)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [formData, setFormData] = useState<ClosureFormData>(emptyForm)
+
+  useEffect(() => {
+    loadHours()
+  }, [locationId])
+
+  const loadHours = async () => {
+    setLoading(true)
+    try {
+      const { data: location, error: locationError } = await supabase
+        .from('locations')
+        .select('opening_hours')
+        .eq('id', locationId)
+        .maybeSingle()
+
+      if (locationError) {
+        console.error('Error loading opening hours:', locationError)
+        return
+      }
+
+      const stored = parseOpeningHours(location?.opening_hours)
+      setHasSchedule(stored !== null)
+      if (stored) setSchedule(stored)
+
+      const { data, error } = await supabase
+        .from('location_closures')
+        .select('id, date, reason')
+        .eq('location_id', locationId)
+        .order('date', { ascending: true })
+
+      if (error) {
+        console.error('Error loading closures:', error)
+        return
+      }
+
+      setClosures(data || [])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateDay = (dayOfWeek: number, hours: DayHours | null) => {
+    setSchedule(schedule.map((day, index) => (index === dayOfWeek ? hours : day)))
+  }
+
+  const handleSaveHours = async () => {
+    if (schedule.every((day) => day === null)) {
+      alert('Please open at least one day a week')
+      return
+    }
+
+    if (schedule.some((day) => day !== null && (!day.opens || !day.closes))) {
+      alert('Please enter opening and closing times for every open day')
+      return
+    }
+
+    setSavingHours(true)
+    try {
+      const { error } = await supabase
+        .from('locations')
+        .update({ opening_hours: schedule })
+        .eq('id', locationId)
+
+      if (error) {
+        console.error('Error saving opening hours:', error)
+        alert(`Failed to save opening hours. Error: ${error.message}`)
+        return
+      }
+
+      setHasSchedule(true)
+    } finally {
+      setSavingHours(false)
+    }
+  }
+
+  const handleClearHours = async () => {
+    if (!confirm('Remove the weekly schedule? Every day will count as open.')) return
+
+    const { error } = await supabase
+      .from('locations')
+      .update({ opening_hours: null })
+      .eq('id', locationId)
+
+    if (error) {
+      console.error('Error clearing opening hours:', error)
+      alert(`Failed to clear opening hours. Error: ${error.message}`)
+      return
+    }
+
+    loadHours()
+  }
+
+  const handleSaveClosure = async () => {
+    if (!formData.date) {
+      alert('Please enter a date')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { error } = await supabase.from('location_closures').insert({
+        organization_id: organizationId,
+        location_id: locationId,
+        date: formData.date,
+        reason: formData.reason || null
+      })
+
+      if (error) {
+        console.error('Error saving closure:', error)
+        alert(`Failed to save closure. Error: ${error.message}`)
+        return
+      }
+
+      setFormData(emptyForm)
+      setShowForm(false)
+      loadHours()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteClosure = async (closureId: string) => {
+    if (!confirm('Delete this closure?')) return
+
+    const { error } = await supabase
+      .from('location_closures')
+      .delete()
+      .eq('id', closureId)
+
+    if (error) {
+      console.error('Error deleting closure:', error)
+      alert(`Failed to delete closure. Error: ${error.message}`)
+      return
+    }
+
+    loadHours()
+  }
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Opening Hours</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Closed days get no forecast and no message, and are left out of forecasting. Add one-off closures like
+            renovations or staff holidays.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-lg font-medium hover:shadow-lg transition-all duration-200 flex items-center gap-2"
+        >
+          <span className="text-lg">{showForm ? '×' : '+'}</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Closed On</label>
+              <input
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Reason (optional)</label>
+              <input
+                type="text"
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                placeholder="e.g., Renovation"
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <button
+              onClick={handleSaveClosure}
+              disabled={saving}
+              className="px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-lg font-medium hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Closure'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          <div className="px-6 py-4 space-y-3">
+            {!hasSchedule && (
+              <p className="text-sm text-amber-800 bg-amber-50 rounded-lg px-4 py-2">
+                No weekly schedule yet: every day counts as open. Save one to skip your days off.
+              </p>
+            )}
+            {schedule.map((day, dayOfWeek) => (
+              <div key={WEEKDAY_NAMES[dayOfWeek]} className="flex items-center gap-4">
+                <label className="flex items-center gap-2 text-sm text-gray-700 w-36">
+                  <input
+                    type="checkbox"
+                    checked={day !== null}
+                    onChange={(e) => updateDay(dayOfWeek, e.target.checked ? { ...DEFAULT_DAY_HOURS } : null)}
+                    className="rounded border-gray-300"
+                  />
+                  {WEEKDAY_NAMES[dayOfWeek]}
+                </label>
+                {day ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="time"
+                      value={day.opens}
+                      onChange={(e) => updateDay(dayOfWeek, { ...day, opens: e.target.value })}
+                      className="px-3 py-1.5 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+                    />
+                    <span className="text-sm text-gray-500">to</span>
+                    <input
+                      type="time"
+                      value={day.closes}
+                      onChange={(e) => updateDay(dayOfWeek, { ...day, closes: e.target.value })}
+                      className="px-3 py-1.5 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+                    />
+                  </div>
+                ) : (
+                  <span className="text-sm text-gray-400">Closed</span>
+                )}
+              </div>
+            ))}
+            <div className="flex justify-end gap-3">
+              {hasSchedule && (
+                <button
+                  onClick={handleClearHours}
+                  className="px-4 py-2 text-sm text-gray-500 hover:text-red-600 transition-colors"
+                >
+                  Remove Schedule
+                </button>
+              )}
+              <button
+                onClick={handleSaveHours}
+                disabled={savingHours}
+                className="px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-lg font-medium hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {savingHours ? 'Saving...' : 'Save Hours'}
+              </button>
+            </div>
+          </div>
+
+          {closures.map((closure) => (
+            <div key={closure.id} className="px-6 py-4 hover:bg-gray-50 transition-colors flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900">Closed {formatDate(closure.date)}</div>
+                {closure.reason && <div className="text-xs text-gray-500">{closure.reason}</div>}
+              </div>
+              <button
+                onClick={() => handleDeleteClosure(closure.id)}
+                className="text-sm text-gray-400 hover:text-red-600 transition-colors"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
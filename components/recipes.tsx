@@ -0,0 +1,221 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { loadRecipes, RecipeIngredientRow } from '@/lib/recipes'
+
+interface RecipesProps {
+  organizationId: string
+  onChange?: () => void
+}
+
+interface RecipeFormData {
+  item: string
+  ingredient: string
+  quantity: string
+  unit: string
+}
+
+const emptyForm: RecipeFormData = {
+  item: '',
+  ingredient: '',
+  quantity: '',
+  unit: ''
+}
+
+export default function Recipes({ organizationId, onChange }: RecipesProps) {
+  const [recipes, setRecipes] = useState<RecipeIngredientRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [formData, setFormData] = useState<RecipeFormData>(emptyForm)
+
+  useEffect(() => {
+    loadRecipeLines()
+  }, [organizationId])
+
+  const loadRecipeLines = async () => {
+    setLoading(true)
+    try {
+      setRecipes(await loadRecipes(organizationId))
+    } catch (error) {
+      console.error('Error loading recipes:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSaveIngredient = async () => {
+    const item = formData.item.trim()
+    const ingredient = formData.ingredient.trim()
+    const unit = formData.unit.trim()
+    const quantity = Number(formData.quantity)
+
+    if (!item || !ingredient || !unit) {
+      alert('Please enter an item, an ingredient and a unit')
+      return
+    }
+
+    if (!(quantity > 0)) {
+      alert('Quantity must be a positive number')
+      return
+    }
+
+    setSaving(true)
+    try {
+      // Saving the same ingredient again updates its quantity
+      const { error } = await supabase
+        .from('recipe_ingredients')
+        .upsert(
+          { organization_id: organizationId, item, ingredient, quantity, unit },
+          { onConflict: 'organization_id,item,ingredient' }
+        )
+
+      if (error) {
+        console.error('Error saving recipe:', error)
+        alert(`Failed to save recipe. Error: ${error.message}`)
+        return
+      }
+
+      // Keep the item so the next ingredient of the same recipe is quick to add
+      setFormData({ ...emptyForm, item })
+      loadRecipeLines()
+      onChange?.()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteIngredient = async (recipeId: string) => {
+    if (!confirm('Remove this ingredient from the recipe?')) return
+
+    const { error } = await supabase.from('recipe_ingredients').delete().eq('id', recipeId)
+
+    if (error) {
+      console.error('Error deleting recipe ingredient:', error)
+      alert(`Failed to delete ingredient. Error: ${error.message}`)
+      return
+    }
+
+    loadRecipeLines()
+    onChange?.()
+  }
+
+  const items = Array.from(new Set(recipes.map((recipe) => recipe.item)))
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Recipes</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Ingredients in one unit of each menu item, shared by every location of the organization
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-lg font-medium hover:shadow-lg transition-all duration-200 flex items-center gap-2"
+        >
+          <span className="text-lg">{showForm ? '×' : '+'}</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Menu Item</label>
+              <input
+                type="text"
+                list="recipe-items"
+                value={formData.item}
+                onChange={(e) => setFormData({ ...formData, item: e.target.value })}
+                placeholder="As named in your sales data"
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+              <datalist id="recipe-items">
+                {items.map((item) => (
+                  <option key={item} value={item} />
+                ))}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Ingredient</label>
+              <input
+                type="text"
+                value={formData.ingredient}
+                onChange={(e) => setFormData({ ...formData, ingredient: e.target.value })}
+                placeholder="e.g., Chicken breast"
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Quantity per Item</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={formData.quantity}
+                onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
+                placeholder="e.g., 150"
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Unit</label>
+              <input
+                type="text"
+                value={formData.unit}
+                onChange={(e) => setFormData({ ...formData, unit: e.target.value })}
+                placeholder="e.g., g, ml, each"
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <button
+              onClick={handleSaveIngredient}
+              disabled={saving}
+              className="px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-lg font-medium hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Ingredient'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-8 text-sm text-gray-500">No recipes yet</div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {items.map((item) => (
+            <div key={item} className="px-6 py-4">
+              <div className="text-sm font-medium text-gray-900 mb-2">{item}</div>
+              <div className="space-y-1">
+                {recipes
+                  .filter((recipe) => recipe.item === item)
+                  .map((recipe) => (
+                    <div key={recipe.id} className="flex items-center justify-between text-sm text-gray-600">
+                      <span>
+                        {recipe.ingredient} · {recipe.quantity} {recipe.unit}
+                      </span>
+                      <button
+                        onClick={() => handleDeleteIngredient(recipe.id)}
+                        className="text-gray-400 hover:text-red-600 transition-colors"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
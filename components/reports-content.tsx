@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useOrganizationList } from '@clerk/nextjs'
+import ForecastBreakdown from '@/components/forecast-breakdown'
+import { getLocalDateString, getUserTimezone } from '@/lib/timezones'
 
 interface Location {
   id: string
@@ -13,6 +15,7 @@ interface Report {
   id: string
   item_name: string
   forecast_quantity: number
+  prep_quantity: number | null
   actual_quantity: number
   date: string
   location_id: string
@@ -26,9 +29,7 @@ export default function ReportsContent() {
   const [loading, setLoading] = useState(true)
   const [viewMode, setViewMode] = useState<ViewMode>('daily')
   const [selectedLocation, setSelectedLocation] = useState<string>('all')
-  const [selectedDate, setSelectedDate] = useState<string>(
-    new Date().toISOString().split('T')[0]
-  )
+  const [selectedDate, setSelectedDate] = useState<string>(getLocalDateString(getUserTimezone()))
 
   const { userMemberships } = useOrganizationList({ userMemberships: { infinite: true } })
   const orgId = userMemberships?.data?.[0]?.organization?.id
@@ -117,12 +118,16 @@ export default function ReportsContent() {
           id: report.id,
           item_name: report.item_name,
           forecast_quantity: 0,
+          prep_quantity: null,
           actual_quantity: 0,
           date: report.date,
           location_id: report.location_id
         }
       }
       acc[report.item_name].forecast_quantity += report.forecast_quantity
+      if (report.prep_quantity !== null) {
+        acc[report.item_name].prep_quantity = (acc[report.item_name].prep_quantity || 0) + report.prep_quantity
+      }
       acc[report.item_name].actual_quantity += report.actual_quantity
       return acc
     }, {} as Record<string, Report>)
@@ -225,6 +230,9 @@ export default function ReportsContent() {
                 <th className="px-6 py-4 text-right text-xs font-bold text-gray-700 uppercase tracking-wider">
                   Forecast
                 </th>
+                <th className="px-6 py-4 text-right text-xs font-bold text-gray-700 uppercase tracking-wider">
+                  Prep
+                </th>
                 <th className="px-6 py-4 text-right text-xs font-bold text-gray-700 uppercase tracking-wider">
                   Actual
                 </th>
@@ -239,7 +247,7 @@ export default function ReportsContent() {
             <tbody className="divide-y divide-gray-200">
               {loading ? (
                 <tr>
-                  <td colSpan={5} className="px-6 py-12 text-center">
+                  <td colSpan={6} className="px-6 py-12 text-center">
                     <div className="flex items-center justify-center">
                       <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
                     </div>
@@ -247,7 +255,7 @@ export default function ReportsContent() {
                 </tr>
               ) : aggregatedData.length === 0 ? (
                 <tr>
-                  <td colSpan={5} className="px-6 py-12 text-center">
+                  <td colSpan={6} className="px-6 py-12 text-center">
                     <div className="text-4xl mb-3">📊</div>
                     <h3 className="text-lg font-semibold text-gray-900 mb-1">No reports yet</h3>
                     <p className="text-gray-500">
@@ -275,6 +283,11 @@ export default function ReportsContent() {
                           {report.forecast_quantity}
                         </div>
                       </td>
+                      <td className="px-6 py-4 text-right">
+                        <div className="text-sm text-gray-500">
+                          {report.prep_quantity ?? '—'}
+                        </div>
+                      </td>
                       <td className="px-6 py-4 text-right">
                         <div className="text-sm text-gray-900 font-medium">
                           {report.actual_quantity}
@@ -346,6 +359,11 @@ export default function ReportsContent() {
           </div>
         )}
       </div>
+
+      {/* Forecast Breakdown - one location and day at a time */}
+      {selectedLocation !== 'all' && viewMode === 'daily' && (
+        <ForecastBreakdown locationId={selectedLocation} date={selectedDate} />
+      )}
     </div>
   )
 }
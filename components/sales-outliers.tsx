@@ -0,0 +1,152 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { SalesOutlierRow } from '@/lib/outliers'
+
+interface SalesOutliersProps {
+  locationId: string
+}
+
+// Most recent flags shown; older ones stay in effect
+const MAX_OUTLIERS_SHOWN = 50
+
+const STATUS_LABELS: Record<string, string> = {
+  confirmed: 'Excluded',
+  rejected: 'Kept'
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+
+export default function SalesOutliers({ locationId }: SalesOutliersProps) {
+  const [outliers, setOutliers] = useState<SalesOutlierRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadOutliers()
+  }, [locationId])
+
+  const loadOutliers = async () => {
+    setLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('sales_outliers')
+        .select('id, date, item, quantity, expected_quantity, score, status, reviewed_at')
+        .eq('location_id', locationId)
+        .order('date', { ascending: false })
+        .limit(MAX_OUTLIERS_SHOWN)
+
+      if (error) {
+        console.error('Error loading outliers:', error)
+        return
+      }
+
+      setOutliers(data || [])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleReview = async (outlierId: string, status: SalesOutlierRow['status']) => {
+    setUpdatingId(outlierId)
+    try {
+      const { error } = await supabase
+        .from('sales_outliers')
+        .update({
+          status,
+          reviewed_at: status === 'flagged' ? null : new Date().toISOString()
+        })
+        .eq('id', outlierId)
+
+      if (error) {
+        console.error('Error reviewing outlier:', error)
+        alert(`Failed to save review. Error: ${error.message}`)
+        return
+      }
+
+      loadOutliers()
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const pendingCount = outliers.filter((outlier) => outlier.status === 'flagged').length
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-bold text-gray-900">Unusual Sales Days</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Days far from the usual for that weekday, like catering orders or upload errors. Exclude them from
+          forecasting or keep them as real demand; unreviewed days are capped.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : outliers.length === 0 ? (
+        <div className="text-center py-8 text-sm text-gray-500">No unusual days found</div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {pendingCount > 0 && (
+            <div className="px-6 py-3 bg-amber-50 text-sm text-amber-800">
+              {pendingCount} {pendingCount === 1 ? 'day needs' : 'days need'} review
+            </div>
+          )}
+          {outliers.map((outlier) => (
+            <div key={outlier.id} className="px-6 py-4 hover:bg-gray-50 transition-colors flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900">
+                  {outlier.item} · {Number(outlier.quantity)} sold
+                </div>
+                <div className="text-xs text-gray-500">
+                  {formatDate(outlier.date)} · usually about {Number(outlier.expected_quantity)}
+                </div>
+              </div>
+              {outlier.status === 'flagged' ? (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => handleReview(outlier.id, 'confirmed')}
+                    disabled={updatingId === outlier.id}
+                    className="px-3 py-1.5 text-sm font-medium rounded-lg bg-red-50 text-red-700 hover:bg-red-100 transition-colors disabled:opacity-50"
+                  >
+                    Exclude
+                  </button>
+                  <button
+                    onClick={() => handleReview(outlier.id, 'rejected')}
+                    disabled={updatingId === outlier.id}
+                    className="px-3 py-1.5 text-sm font-medium rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50"
+                  >
+                    Keep
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-3">
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                    {STATUS_LABELS[outlier.status]}
+                  </span>
+                  <button
+                    onClick={() => handleReview(outlier.id, 'flagged')}
+                    disabled={updatingId === outlier.id}
+                    className="text-sm text-gray-400 hover:text-gray-700 transition-colors disabled:opacity-50"
+                  >
+                    Undo
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,353 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { ScheduledOrderRow, ScheduledOrderStatus, loadScheduledOrders } from '@/lib/scheduled-orders'
+import { extractTimezoneFromTIMETZ, getLocalDateString } from '@/lib/timezones'
+
+interface ScheduledOrdersProps {
+  locationId: string
+  organizationId: string
+  kitchenClose: string
+}
+
+interface OrderLineFormData {
+  item: string
+  quantity: string
+}
+
+interface OrderFormData {
+  date: string
+  name: string
+  lines: OrderLineFormData[]
+}
+
+// Forecast rows read to list the location's items
+const MAX_FORECAST_ROWS = 1000
+
+// Marked past orders listed below the upcoming and unmarked ones
+const RECENT_ORDERS = 5
+
+const statusBadges: { [status in ScheduledOrderStatus]: { label: string; className: string } } = {
+  pending: { label: 'Not marked', className: 'bg-yellow-100 text-yellow-800' },
+  fulfilled: { label: 'Fulfilled', className: 'bg-gray-100 text-gray-600' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-100 text-red-700' }
+}
+
+const emptyLine: OrderLineFormData = { item: '', quantity: '' }
+
+const emptyForm: OrderFormData = {
+  date: '',
+  name: '',
+  lines: [emptyLine]
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+
+const formatItems = (items: { [item: string]: number }) =>
+  Object.entries(items)
+    .map(([item, quantity]) => `${quantity} ${item}`)
+    .join(', ')
+
+export default function ScheduledOrders({ locationId, organizationId, kitchenClose }: ScheduledOrdersProps) {
+  const [orders, setOrders] = useState<ScheduledOrderRow[]>([])
+  const [items, setItems] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [formData, setFormData] = useState<OrderFormData>(emptyForm)
+
+  // Orders before tomorrow are marked fulfilled (left out of training) or
+  // cancelled by a manager
+  const tomorrow = getLocalDateString(extractTimezoneFromTIMETZ(kitchenClose), 1)
+  const upcoming = orders.filter((order) => order.date >= tomorrow)
+  const past = orders.filter((order) => order.date < tomorrow)
+  const unmarked = past.filter((order) => order.status === 'pending').reverse()
+  const marked = past.filter((order) => order.status !== 'pending').slice(-RECENT_ORDERS).reverse()
+
+  useEffect(() => {
+    loadOrders()
+  }, [locationId])
+
+  const loadOrders = async () => {
+    setLoading(true)
+    try {
+      const [rows, { data: forecasts, error }] = await Promise.all([
+        loadScheduledOrders(locationId),
+        supabase
+          .from('forecasts')
+          .select('item')
+          .eq('location_id', locationId)
+          .order('forecast_date', { ascending: false })
+          .limit(MAX_FORECAST_ROWS)
+      ])
+
+      if (error) {
+        console.error('Error loading forecast items:', error)
+      }
+
+      setOrders(rows)
+      const locationItems = new Set((forecasts || []).map((row) => row.item as string))
+      setItems(Array.from(locationItems).sort((a, b) => a.localeCompare(b)))
+    } catch (error) {
+      console.error('Error loading scheduled orders:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateLine = (index: number, line: Partial<OrderLineFormData>) => {
+    setFormData({
+      ...formData,
+      lines: formData.lines.map((current, i) => (i === index ? { ...current, ...line } : current))
+    })
+  }
+
+  const removeLine = (index: number) => {
+    const lines = formData.lines.filter((_, i) => i !== index)
+    setFormData({ ...formData, lines: lines.length > 0 ? lines : [emptyLine] })
+  }
+
+  const handleSaveOrder = async () => {
+    if (!formData.date || !formData.name.trim()) {
+      alert('Please enter a date and a name')
+      return
+    }
+
+    const orderItems: { [item: string]: number } = {}
+    for (const line of formData.lines) {
+      const item = line.item.trim()
+      if (!item && !line.quantity) continue
+
+      const quantity = Number(line.quantity)
+      if (!item || !Number.isInteger(quantity) || quantity <= 0) {
+        alert('Every line needs an item and a whole number of units')
+        return
+      }
+      orderItems[item] = (orderItems[item] || 0) + quantity
+    }
+
+    if (Object.keys(orderItems).length === 0) {
+      alert('Please add at least one item')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { error } = await supabase.from('scheduled_orders').insert({
+        organization_id: organizationId,
+        location_id: locationId,
+        date: formData.date,
+        name: formData.name.trim(),
+        items: orderItems
+      })
+
+      if (error) {
+        console.error('Error saving scheduled order:', error)
+        alert(`Failed to save order. Error: ${error.message}`)
+        return
+      }
+
+      setFormData(emptyForm)
+      setShowForm(false)
+      loadOrders()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteOrder = async (orderId: string) => {
+    if (!confirm('Delete this order? Its units come off the next forecast.')) return
+
+    const { error } = await supabase
+      .from('scheduled_orders')
+      .delete()
+      .eq('id', orderId)
+
+    if (error) {
+      console.error('Error deleting scheduled order:', error)
+      alert(`Failed to delete order. Error: ${error.message}`)
+      return
+    }
+
+    loadOrders()
+  }
+
+  const handleUpdateStatus = async (orderId: string, status: ScheduledOrderStatus) => {
+    const { error } = await supabase
+      .from('scheduled_orders')
+      .update({ status })
+      .eq('id', orderId)
+
+    if (error) {
+      console.error('Error updating scheduled order:', error)
+      alert(`Failed to update order. Error: ${error.message}`)
+      return
+    }
+
+    loadOrders()
+  }
+
+  const renderOrder = (order: ScheduledOrderRow, isPast: boolean) => {
+    const badge = isPast || order.status !== 'pending' ? statusBadges[order.status] : null
+
+    return (
+      <div key={order.id} className="px-6 py-4 hover:bg-gray-50 transition-colors flex items-center justify-between">
+        <div>
+          <div className="text-sm font-medium text-gray-900">
+            {order.name} · {formatDate(order.date)}
+            {badge && (
+              <span className={`ml-2 px-2 py-0.5 text-xs font-medium rounded-full ${badge.className}`}>
+                {badge.label}
+              </span>
+            )}
+          </div>
+          <div className="text-xs text-gray-500">{formatItems(order.items)}</div>
+        </div>
+        <div className="flex items-center gap-4">
+          {isPast && order.status === 'pending' && (
+            <button
+              onClick={() => handleUpdateStatus(order.id, 'fulfilled')}
+              className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              Fulfilled
+            </button>
+          )}
+          {order.status === 'pending' && (
+            <button
+              onClick={() => handleUpdateStatus(order.id, 'cancelled')}
+              className="text-sm text-gray-400 hover:text-red-600 transition-colors"
+            >
+              {isPast ? 'Cancelled' : 'Cancel'}
+            </button>
+          )}
+          <button
+            onClick={() => handleDeleteOrder(order.id)}
+            className="text-sm text-gray-400 hover:text-red-600 transition-colors"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Scheduled Orders</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Catering and pre-bookings you know about ahead. Upcoming orders are added on top of the forecast; once
+            marked fulfilled, their units are left out of the history the forecast learns from.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-lg font-medium hover:shadow-lg transition-all duration-200 flex items-center gap-2"
+        >
+          <span className="text-lg">{showForm ? '×' : '+'}</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Date</label>
+              <input
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-2">Order Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., Acme offsite, 60 people"
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-gray-700 mb-2">Items</label>
+            <div className="space-y-2">
+              {formData.lines.map((line, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <input
+                    type="text"
+                    list="scheduled-order-items"
+                    value={line.item}
+                    onChange={(e) => updateLine(index, { item: e.target.value })}
+                    placeholder="Item"
+                    className="flex-1 px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+                  />
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    placeholder="Units"
+                    className="w-28 px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-0 transition-colors text-sm"
+                  />
+                  <button
+                    onClick={() => removeLine(index)}
+                    className="text-sm text-gray-400 hover:text-red-600 transition-colors"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <datalist id="scheduled-order-items">
+              {items.map((item) => (
+                <option key={item} value={item} />
+              ))}
+            </datalist>
+            <button
+              onClick={() => setFormData({ ...formData, lines: [...formData.lines, emptyLine] })}
+              className="mt-2 text-sm text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              + Add item
+            </button>
+            <p className="text-xs text-gray-500 mt-1">Use the item names your sales are recorded with</p>
+          </div>
+          <div className="flex justify-end">
+            <button
+              onClick={handleSaveOrder}
+              disabled={saving}
+              className="px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-lg font-medium hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Order'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="text-center py-8 text-sm text-gray-500">No scheduled orders</div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {upcoming.map((order) => renderOrder(order, false))}
+          {unmarked.map((order) => renderOrder(order, true))}
+          {marked.map((order) => renderOrder(order, true))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+/**
+ * Rolling-Origin Backtesting
+ * Replays sales history with a moving cutoff and scores every forecasting
+ * method (and the ensemble) against what actually sold
+ */
+
+import {
+  FORECAST_METHODS,
+  ForecastMethod,
+  ForecastOptions,
+  SalesRecord,
+  methodBreakdown,
+} from "@/lib/forecasting";
+import { addDaysToDateString } from "@/lib/timezones";
+
+export type ScoredModel = ForecastMethod | "ensemble";
+
+export const SCORED_MODELS: ScoredModel[] = [...FORECAST_METHODS, "ensemble"];
+
+export interface BacktestOptions extends Pick<
+  ForecastOptions,
+  | "parameters"
+  | "itemParameters"
+  | "events"
+  | "promotions"
+  | "prices"
+  | "outlierReviews"
+  | "historyStarts"
+  | "capOutliers"
+  | "closedDays"
+> {
+  folds?: number; // Number of rolling cutoffs (default 28)
+  step?: number; // Days between consecutive cutoffs (default 1)
+  horizonDays?: number; // Days after each cutoff that are scored (default 1)
+  minTrainingDays?: number; // Distinct sales days required before the first cutoff (default 14)
+}
+
+export interface ErrorMetrics {
+  mae: number; // Mean absolute error (units)
+  wape: number | null; // Sum |error| / sum actual, null when nothing sold
+  bias: number; // Mean (forecast - actual); positive = over-forecast
+  count: number; // Scored forecast/actual pairs
+}
+
+export interface ItemBacktest {
+  item: string;
+  actualTotal: number;
+  scores: { [model in ScoredModel]: ErrorMetrics };
+}
+
+export interface BacktestResult {
+  cutoffs: string[]; // Last training date of each fold (YYYY-MM-DD)
+  horizonDays: number;
+  items: ItemBacktest[];
+  overall: { [model in ScoredModel]: ErrorMetrics };
+}
+
+interface ErrorAccumulator {
+  absError: number;
+  error: number;
+  actual: number;
+  count: number;
+}
+
+const DEFAULT_FOLDS = 28;
+const DEFAULT_STEP = 1;
+const DEFAULT_HORIZON_DAYS = 1;
+const DEFAULT_MIN_TRAINING_DAYS = 14;
+
+/**
+ * Rolling-origin backtest over daily sales records
+ * For each cutoff, trains on records up to and including the cutoff and
+ * forecasts each of the next `horizonDays` days that have actual sales rows
+ * (days without any rows are missing data and skipped, like closed days; an
+ * item absent on a day with rows counts as zero sales)
+ */
+export function backtestForecasts(
+  historicalData: SalesRecord[],
+  options: BacktestOptions = {}
+): BacktestResult {
+  const folds = options.folds ?? DEFAULT_FOLDS;
+  const step = Math.max(1, options.step ?? DEFAULT_STEP);
+  const horizonDays = Math.max(1, options.horizonDays ?? DEFAULT_HORIZON_DAYS);
+  const minTrainingDays = options.minTrainingDays ?? DEFAULT_MIN_TRAINING_DAYS;
+
+  // Actual quantity per date and item
+  const actuals: { [date: string]: { [item: string]: number } } = {};
+  historicalData.forEach((record) => {
+    if (!actuals[record.date]) actuals[record.date] = {};
+    actuals[record.date][record.item] =
+      (actuals[record.date][record.item] || 0) + record.quantity;
+  });
+
+  // Confirmed anomalies (e.g. catering orders) aren't forecastable demand
+  const confirmedOutliers = new Set(
+    (options.outlierReviews || [])
+      .filter((review) => review.status === "confirmed")
+      .map((review) => `${review.item}|${review.date}`)
+  );
+
+  const closedDays = new Set(options.closedDays || []);
+
+  const dates = Object.keys(actuals).sort();
+  const cutoffs = selectCutoffs(dates, folds, step, minTrainingDays);
+
+  const itemAccumulators: {
+    [item: string]: { [model in ScoredModel]: ErrorAccumulator };
+  } = {};
+  const overallAccumulators = emptyAccumulators();
+  const actualTotals: { [item: string]: number } = {};
+
+  cutoffs.forEach((cutoff) => {
+    const training = historicalData.filter((record) => record.date <= cutoff);
+
+    for (let h = 1; h <= horizonDays; h++) {
+      const targetDate = addDaysToDateString(cutoff, h);
+      const targetActuals = actuals[targetDate];
+      // Sales on a closed day (late rows, test orders) aren't forecast
+      if (!targetActuals || closedDays.has(targetDate)) continue;
+
+      const breakdown = methodBreakdown(training, targetDate, {
+        parameters: options.parameters,
+        itemParameters: options.itemParameters,
+        events: options.events,
+        promotions: options.promotions,
+        prices: options.prices,
+        outlierReviews: options.outlierReviews,
+        historyStarts: options.historyStarts,
+        capOutliers: options.capOutliers,
+        closedDays: options.closedDays,
+      });
+
+      Object.keys(breakdown).forEach((item) => {
+        if (confirmedOutliers.has(`${item}|${targetDate}`)) return;
+
+        // The location traded that day, so an item without sales sold zero
+        const actual = targetActuals[item] ?? 0;
+        if (!itemAccumulators[item])
+          itemAccumulators[item] = emptyAccumulators();
+        actualTotals[item] = (actualTotals[item] || 0) + actual;
+
+        SCORED_MODELS.forEach((model) => {
+          const raw =
+            model === "ensemble"
+              ? breakdown[item].ensemble
+              : breakdown[item].methods[model];
+          // Score what we would actually send: rounded, never negative
+          const predicted = Math.max(0, Math.round(raw));
+
+          accumulate(itemAccumulators[item][model], predicted, actual);
+          accumulate(overallAccumulators[model], predicted, actual);
+        });
+      });
+    }
+  });
+
+  const items: ItemBacktest[] = Object.keys(itemAccumulators)
+    .sort()
+    .map((item) => ({
+      item,
+      actualTotal: actualTotals[item],
+      scores: toMetrics(itemAccumulators[item]),
+    }));
+
+  return {
+    cutoffs,
+    horizonDays,
+    items,
+    overall: toMetrics(overallAccumulators),
+  };
+}
+
+/**
+ * Most recent `folds` cutoffs, `step` days apart, each with enough training
+ * history before it and at least one later sales day to score
+ */
+function selectCutoffs(
+  dates: string[],
+  folds: number,
+  step: number,
+  minTrainingDays: number
+): string[] {
+  const cutoffs: string[] = [];
+
+  for (
+    let i = dates.length - 2;
+    i >= minTrainingDays - 1 && cutoffs.length < folds;
+    i -= step
+  ) {
+    cutoffs.push(dates[i]);
+  }
+
+  return cutoffs.reverse();
+}
+
+function emptyAccumulators(): { [model in ScoredModel]: ErrorAccumulator } {
+  const accumulators = {} as { [model in ScoredModel]: ErrorAccumulator };
+  SCORED_MODELS.forEach((model) => {
+    accumulators[model] = { absError: 0, error: 0, actual: 0, count: 0 };
+  });
+  return accumulators;
+}
+
+function accumulate(acc: ErrorAccumulator, predicted: number, actual: number) {
+  acc.absError += Math.abs(predicted - actual);
+  acc.error += predicted - actual;
+  acc.actual += actual;
+  acc.count += 1;
+}
+
+function toMetrics(accumulators: {
+  [model in ScoredModel]: ErrorAccumulator;
+}): { [model in ScoredModel]: ErrorMetrics } {
+  const metrics = {} as { [model in ScoredModel]: ErrorMetrics };
+
+  SCORED_MODELS.forEach((model) => {
+    const acc = accumulators[model];
+    metrics[model] = {
+      mae: acc.count > 0 ? acc.absError / acc.count : 0,
+      wape: acc.actual > 0 ? acc.absError / acc.actual : null,
+      bias: acc.count > 0 ? acc.error / acc.count : 0,
+      count: acc.count,
+    };
+  });
+
+  return metrics;
+}
@@ -0,0 +1,30 @@
+/**
+ * Cron Authorization
+ * Vercel Cron sends CRON_SECRET as a bearer token on every invocation; cron
+ * routes refuse to run without it
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Error response for a request that isn't from Vercel Cron, or null to go on
+ * Without CRON_SECRET configured nothing can prove it is, so every request is
+ * refused.
+ */
+export function rejectUnlessCron(request: NextRequest): NextResponse | null {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error("CRON_SECRET is not set; refusing to run cron job");
+    return NextResponse.json(
+      { error: "Cron is not configured" },
+      { status: 500 }
+    );
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return null;
+}
@@ -0,0 +1,204 @@
+/**
+ * Dayparts
+ * Splits daily item forecasts into hours and dayparts (breakfast, lunch,
+ * dinner) by how each item's sales spread over the day, learned from the
+ * timestamps of POS sales
+ */
+
+import { getDayOfWeek } from "@/lib/timezones";
+
+export interface IntradaySale {
+  date: string; // YYYY-MM-DD, in the location's timezone
+  hour: number; // 0-23, in the location's timezone
+  item: string;
+  quantity: number;
+}
+
+export type Daypart = "breakfast" | "lunch" | "dinner";
+
+// Local hours [start, end) of each daypart; late night counts as dinner
+export const DAYPARTS: {
+  name: Daypart;
+  label: string;
+  start: number;
+  end: number;
+}[] = [
+  { name: "breakfast", label: "Breakfast", start: 0, end: 11 },
+  { name: "lunch", label: "Lunch", start: 11, end: 16 },
+  { name: "dinner", label: "Dinner", start: 16, end: 24 },
+];
+
+// Days with intraday sales before an item gets a profile of its own (else
+// the location's), and before one weekday does (else the item's all-days one)
+const MIN_ITEM_DAYS = 7;
+const MIN_WEEKDAY_DAYS = 4;
+
+/**
+ * Share of daily sales in each local hour (24 values summing to 1)
+ */
+export type HourlyProfile = number[];
+
+export interface IntradayProfiles {
+  items: {
+    [item: string]: {
+      all: HourlyProfile;
+      weekdays: { [dayOfWeek: number]: HourlyProfile };
+    };
+  };
+  location: HourlyProfile | null; // All items together
+}
+
+export interface IntradayForecast {
+  hourly: { [hour: string]: number }; // Units per local hour that sells
+  dayparts: { [daypart in Daypart]?: number };
+}
+
+/**
+ * Hourly profiles per item and weekday from intraday sales
+ */
+export function intradayProfiles(sales: IntradaySale[]): IntradayProfiles {
+  const emptyHours = () => new Array(24).fill(0);
+  const locationHours = emptyHours();
+  const items: {
+    [item: string]: {
+      hours: number[];
+      days: Set<string>;
+      weekdays: { [dayOfWeek: number]: { hours: number[]; days: Set<string> } };
+    };
+  } = {};
+
+  sales.forEach((sale) => {
+    if (sale.quantity <= 0) return;
+
+    if (!items[sale.item]) {
+      items[sale.item] = { hours: emptyHours(), days: new Set(), weekdays: {} };
+    }
+    const itemSales = items[sale.item];
+    const dayOfWeek = getDayOfWeek(sale.date);
+    if (!itemSales.weekdays[dayOfWeek]) {
+      itemSales.weekdays[dayOfWeek] = { hours: emptyHours(), days: new Set() };
+    }
+
+    locationHours[sale.hour] += sale.quantity;
+    itemSales.hours[sale.hour] += sale.quantity;
+    itemSales.days.add(sale.date);
+    itemSales.weekdays[dayOfWeek].hours[sale.hour] += sale.quantity;
+    itemSales.weekdays[dayOfWeek].days.add(sale.date);
+  });
+
+  const profiles: IntradayProfiles = {
+    items: {},
+    location: toProfile(locationHours),
+  };
+
+  Object.entries(items).forEach(([item, itemSales]) => {
+    const all = toProfile(itemSales.hours);
+    if (!all || itemSales.days.size < MIN_ITEM_DAYS) return;
+
+    const weekdays: { [dayOfWeek: number]: HourlyProfile } = {};
+    Object.entries(itemSales.weekdays).forEach(([dayOfWeek, weekday]) => {
+      const profile = toProfile(weekday.hours);
+      if (profile && weekday.days.size >= MIN_WEEKDAY_DAYS) {
+        weekdays[Number(dayOfWeek)] = profile;
+      }
+    });
+
+    profiles.items[item] = { all, weekdays };
+  });
+
+  return profiles;
+}
+
+function toProfile(hours: number[]): HourlyProfile | null {
+  const total = hours.reduce((sum, quantity) => sum + quantity, 0);
+  return total > 0 ? hours.map((quantity) => quantity / total) : null;
+}
+
+/**
+ * Split a day's forecast of an item into hours and dayparts, using the
+ * item's profile for that weekday, its all-days profile or the location's
+ * With `openHours` (see lib/opening-hours.ts), hours the location is closed
+ * that day get nothing, unless the profile never sells in the open ones.
+ * Returns null when the location has no intraday sales (daily uploads only)
+ */
+export function intradayForecast(
+  profiles: IntradayProfiles,
+  item: string,
+  date: string,
+  quantity: number,
+  openHours?: number[] | null
+): IntradayForecast | null {
+  const itemProfiles = profiles.items[item];
+  const profile =
+    itemProfiles?.weekdays[getDayOfWeek(date)] ??
+    itemProfiles?.all ??
+    profiles.location;
+  if (!profile) return null;
+
+  const open = openHours ? new Set(openHours) : null;
+  const limitToOpen =
+    open !== null && profile.some((share, hour) => share > 0 && open.has(hour));
+  const shares: { [hour: string]: number } = {};
+  profile.forEach((share, hour) => {
+    if (share > 0 && (!limitToOpen || open?.has(hour))) shares[hour] = share;
+  });
+
+  const hourly = splitByWeights(quantity, shares);
+  return { hourly, dayparts: daypartQuantities(hourly) };
+}
+
+/**
+ * Whole units per key in proportion to the weights, adding up to `total`
+ * (largest remainders get the leftover units). Also rescales a stored hourly
+ * split to an overridden total.
+ */
+export function splitByWeights(
+  total: number,
+  weights: { [key: string]: number }
+): { [key: string]: number } {
+  const keys = Object.keys(weights);
+  const weightSum = keys.reduce((sum, key) => sum + weights[key], 0);
+  const units = Math.max(0, Math.round(total));
+  if (keys.length === 0) return {};
+
+  const exact = keys.map((key) =>
+    weightSum > 0 ? (units * weights[key]) / weightSum : units / keys.length
+  );
+  const split = exact.map(Math.floor);
+  let leftover = units - split.reduce((sum, value) => sum + value, 0);
+
+  exact
+    .map((value, index) => ({ index, remainder: value - split[index] }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (leftover <= 0) return;
+      split[index]++;
+      leftover--;
+    });
+
+  const result: { [key: string]: number } = {};
+  keys.forEach((key, index) => {
+    result[key] = split[index];
+  });
+  return result;
+}
+
+/**
+ * Units per daypart from units per hour; dayparts without selling hours are
+ * left out
+ */
+export function daypartQuantities(hourly: { [hour: string]: number }): {
+  [daypart in Daypart]?: number;
+} {
+  const dayparts: { [daypart in Daypart]?: number } = {};
+
+  Object.entries(hourly).forEach(([hour, quantity]) => {
+    const daypart = DAYPARTS.find(
+      (part) => Number(hour) >= part.start && Number(hour) < part.end
+    );
+    if (!daypart) return;
+    dayparts[daypart.name] = (dayparts[daypart.name] || 0) + quantity;
+  });
+
+  return dayparts;
+}
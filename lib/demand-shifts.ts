@@ -0,0 +1,201 @@
+/**
+ * Demand Shifts
+ * Records lasting changes in items' sales found by detectDemandShifts in
+ * demand_shifts, emails the location's operators about new ones, and turns
+ * the shifts managers reset into the history window each item is trained on
+ */
+
+import { supabase } from "@/lib/supabase";
+import {
+  DemandShift,
+  ForecastOptions,
+  SalesRecord,
+  detectDemandShifts,
+} from "@/lib/forecasting";
+import { emailLocation } from "@/lib/notifications";
+
+// open = alerted, awaiting review; reset = the item is trained from the
+// change on; dismissed = the full history is kept
+export type DemandShiftStatus = "open" | "reset" | "dismissed";
+
+export interface DemandShiftRow {
+  id: string;
+  item: string;
+  change_date: string; // YYYY-MM-DD, first day at the new level
+  before_quantity: number;
+  after_quantity: number;
+  share_before: number;
+  share_after: number;
+  mix_shift: boolean;
+  score: number;
+  status: DemandShiftStatus;
+  detected_at: string;
+  reviewed_at: string | null;
+}
+
+/**
+ * Whether new shifts reset their item right away (DEMAND_SHIFT_AUTO_RESET),
+ * instead of waiting for a manager
+ */
+export function autoResetShifts(): boolean {
+  return process.env.DEMAND_SHIFT_AUTO_RESET === "true";
+}
+
+/**
+ * Detect shifts since each item's last recorded one, store the new ones and
+ * email them to the location's operators
+ * Never throws: shifts missed on failure are found on the next run.
+ * Returns how many new shifts were recorded.
+ */
+export async function recordDemandShifts(
+  location: { id: string; organization_id: string; name: string },
+  salesHistory: SalesRecord[],
+  options: Pick<
+    ForecastOptions,
+    "events" | "promotions" | "outlierReviews" | "closedDays"
+  >
+): Promise<number> {
+  try {
+    const recorded = await loadDemandShifts(location.id);
+    const lastShift: { [item: string]: string } = {};
+    recorded.forEach((row) => {
+      if (!lastShift[row.item] || row.change_date > lastShift[row.item]) {
+        lastShift[row.item] = row.change_date;
+      }
+    });
+
+    const shifts = detectDemandShifts(salesHistory, {
+      ...options,
+      historyStarts: lastShift,
+    });
+    if (shifts.length === 0) return 0;
+
+    const autoReset = autoResetShifts();
+    const detectedAt = new Date().toISOString();
+    const { data: inserted, error: insertError } = await supabase
+      .from("demand_shifts")
+      .upsert(
+        shifts.map((shift) => ({
+          organization_id: location.organization_id,
+          location_id: location.id,
+          item: shift.item,
+          change_date: shift.date,
+          before_quantity: shift.before,
+          after_quantity: shift.after,
+          share_before: shift.shareBefore,
+          share_after: shift.shareAfter,
+          mix_shift: shift.mixShift,
+          score: shift.score,
+          status: autoReset ? "reset" : "open",
+          detected_at: detectedAt,
+          reviewed_at: autoReset ? detectedAt : null,
+        })),
+        { onConflict: "location_id,item,change_date", ignoreDuplicates: true }
+      )
+      .select("id");
+
+    if (insertError) {
+      throw new Error(`Failed to save demand shifts: ${insertError.message}`);
+    }
+
+    const { title, text } = formatShiftAlert(location.name, shifts, autoReset);
+    await emailLocation(location.id, title, text);
+
+    return (inserted || []).length;
+  } catch (error) {
+    console.error(
+      `Error recording demand shifts for location ${location.id}:`,
+      error
+    );
+    return 0;
+  }
+}
+
+/**
+ * Where every reset item's history starts (its latest reset), for
+ * options.historyStarts
+ * Never throws: items keep their full history on failure.
+ */
+export async function getHistoryStarts(
+  locationId: string
+): Promise<{ [item: string]: string }> {
+  try {
+    const historyStarts: { [item: string]: string } = {};
+    (await loadDemandShifts(locationId))
+      .filter((row) => row.status === "reset")
+      .forEach((row) => {
+        if (
+          !historyStarts[row.item] ||
+          row.change_date > historyStarts[row.item]
+        ) {
+          historyStarts[row.item] = row.change_date;
+        }
+      });
+    return historyStarts;
+  } catch (error) {
+    console.error(
+      `Error getting history starts for location ${locationId}:`,
+      error
+    );
+    return {};
+  }
+}
+
+/**
+ * Recorded demand shifts of a location, newest first
+ */
+export async function loadDemandShifts(
+  locationId: string
+): Promise<DemandShiftRow[]> {
+  const { data, error } = await supabase
+    .from("demand_shifts")
+    .select(
+      "id, item, change_date, before_quantity, after_quantity, share_before, share_after, mix_shift, score, status, detected_at, reviewed_at"
+    )
+    .eq("location_id", locationId)
+    .order("change_date", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load demand shifts: ${error.message}`);
+  }
+
+  return (data || []) as DemandShiftRow[];
+}
+
+/**
+ * Alert email subject and text, largest changes first
+ */
+export function formatShiftAlert(
+  locationName: string,
+  shifts: DemandShift[],
+  autoReset: boolean
+): { title: string; text: string } {
+  const title = `Demand shift at ${locationName}`;
+  let text = `📊 ${title}\n\n`;
+
+  [...shifts]
+    .sort((a, b) => Math.abs(b.score) - Math.abs(a.score))
+    .forEach((shift) => {
+      // A plain date: format it in UTC so the weekday can't shift
+      const since = new Date(`${shift.date}T00:00:00Z`).toLocaleDateString(
+        "en-US",
+        { timeZone: "UTC", weekday: "short", month: "short", day: "numeric" }
+      );
+      const change =
+        shift.before > 0
+          ? ` (${shift.after > shift.before ? "+" : ""}${Math.round((shift.after / shift.before - 1) * 100)}%)`
+          : "";
+      const mix = shift.mixShift
+        ? shift.shareAfter > shift.shareBefore
+          ? ", taking a larger share of sales"
+          : ", losing share of sales"
+        : "";
+      text += `• ${shift.item}: about ${shift.before} → ${shift.after} a day since ${since}${change}${mix}\n`;
+    });
+
+  text += autoReset
+    ? `\nForecasts for these items now learn from the change on.`
+    : `\nForecasts will take a few weeks to catch up. To forecast these items from the change on, retrain them on the location page.`;
+
+  return { title, text };
+}
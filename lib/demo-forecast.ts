@@ -0,0 +1,194 @@
+/**
+ * Demo Forecasts
+ * Forecasts for a prospect's uploaded sales (sales_demo) with the production
+ * forecaster and champion model settings, plus a short backtest on their own
+ * data as a quality signal. Shared by the email and WhatsApp demo flows.
+ */
+
+import { SUPABASE_PAGE_SIZE, supabase } from "@/lib/supabase";
+import { backtestForecasts } from "@/lib/backtesting";
+import { ForecastResult, SalesRecord } from "@/lib/forecasting";
+import { versionForecast } from "@/lib/forecast-job";
+import { DEFAULT_MODEL_VERSION, getModelVersion } from "@/lib/model-versions";
+import { getLocalDateString } from "@/lib/timezones";
+
+// Days replayed for the backtest; kept short so the demo answers quickly
+const DEMO_BACKTEST_FOLDS = 14;
+
+// Prospects whose timezone isn't known, like extractTimezoneFromTIMETZ
+export const DEFAULT_DEMO_TIMEZONE = "America/New_York";
+
+export interface DemoAccuracy {
+  days: number; // Days replayed
+  mae: number; // Mean absolute error per item and day (units)
+  wape: number | null; // Share of sales missed or overshot; null if nothing sold
+}
+
+export interface DemoForecast {
+  forecastDate: string; // YYYY-MM-DD
+  forecast: ForecastResult;
+  accuracy: DemoAccuracy | null; // Null until there is enough history to replay
+}
+
+/**
+ * Uploaded sales of a demo restaurant, oldest first
+ */
+export async function loadDemoSales(
+  restaurant: string
+): Promise<SalesRecord[]> {
+  const records: SalesRecord[] = [];
+  let from = 0;
+
+  while (true) {
+    const { data, error } = await supabase
+      .from("sales_demo")
+      .select("date, item, quantity")
+      .eq("restaurant", restaurant)
+      .order("date", { ascending: true })
+      .range(from, from + SUPABASE_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch demo sales: ${error.message}`);
+    }
+
+    (data || []).forEach((row) => {
+      records.push({
+        date: String(row.date).slice(0, 10),
+        item: row.item,
+        quantity: Number(row.quantity),
+      });
+    });
+
+    if (!data || data.length < SUPABASE_PAGE_SIZE) break;
+    from += SUPABASE_PAGE_SIZE;
+  }
+
+  return records;
+}
+
+/**
+ * A timezone sent by the prospect's browser, or DEFAULT_DEMO_TIMEZONE if it
+ * is missing or not a valid IANA name
+ */
+export function demoTimezone(value: unknown): string {
+  if (typeof value !== "string" || !value) return DEFAULT_DEMO_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return value;
+  } catch {
+    return DEFAULT_DEMO_TIMEZONE;
+  }
+}
+
+/**
+ * Forecast tomorrow in the prospect's timezone, like the forecast job does
+ * for a location, and backtest the same model on the uploaded days
+ * Goes through the job's reconciled forecast with the default champion.
+ * Demo restaurants have no location, so there are no holidays, weather,
+ * categories or peer priors, and the default parameters are used: fitting
+ * them takes several backtests, too slow to answer a prospect.
+ */
+export function demoForecast(
+  salesHistory: SalesRecord[],
+  timezone: string = DEFAULT_DEMO_TIMEZONE
+): DemoForecast {
+  const forecastDate = getLocalDateString(timezone, 1);
+  const version = getModelVersion(DEFAULT_MODEL_VERSION);
+
+  const { hierarchy } = versionForecast(
+    version,
+    salesHistory,
+    forecastDate,
+    1,
+    {},
+    {}
+  );
+  const forecast: ForecastResult = {};
+  Object.entries(hierarchy.items).forEach(([item, series]) => {
+    forecast[item] = series[0];
+  });
+
+  const backtest = backtestForecasts(salesHistory, {
+    folds: DEMO_BACKTEST_FOLDS,
+    capOutliers: version.capOutliers,
+  });
+  const ensemble = backtest.overall.ensemble;
+
+  return {
+    forecastDate,
+    forecast,
+    accuracy:
+      backtest.cutoffs.length > 0 && ensemble.count > 0
+        ? {
+            days: backtest.cutoffs.length,
+            mae: Math.round(ensemble.mae * 10) / 10,
+            wape:
+              ensemble.wape === null
+                ? null
+                : Math.round(ensemble.wape * 1000) / 1000,
+          }
+        : null,
+  };
+}
+
+/**
+ * Item quantities of a demo forecast, for API responses
+ */
+export function demoQuantities(demo: DemoForecast): { [item: string]: number } {
+  const quantities: { [item: string]: number } = {};
+  Object.entries(demo.forecast).forEach(([item, forecast]) => {
+    quantities[item] = forecast.forecast;
+  });
+  return quantities;
+}
+
+/**
+ * Message text for email and WhatsApp, highest quantities first
+ */
+export function formatDemoForecast(
+  restaurant: string,
+  demo: DemoForecast
+): { title: string; text: string } {
+  // A plain date: format it in UTC so the weekday can't shift
+  const dateStr = new Date(`${demo.forecastDate}T00:00:00Z`).toLocaleDateString(
+    "en-US",
+    {
+      timeZone: "UTC",
+      weekday: "long",
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    }
+  );
+  const title = `${restaurant} Sales Forecast for ${dateStr}`;
+
+  let text = `📊 *${title}*\n\n`;
+
+  Object.entries(demo.forecast)
+    .sort((a, b) => b[1].forecast - a[1].forecast)
+    .forEach(([item, forecast]) => {
+      const values = Object.values(forecast.quantiles);
+      const low = Math.min(...values);
+      const high = Math.max(...values);
+      // Slow movers, like the production message
+      if (forecast.demandPattern === "intermittent") {
+        text += `• ${item}: up to ${high} units (${Math.round(forecast.probabilityOfSale * 100)}% chance of selling)\n`;
+        return;
+      }
+      const range =
+        values.length > 1 && low !== high ? ` (range ${low}–${high})` : "";
+      text += `• ${item}: ${forecast.forecast} units${range}\n`;
+    });
+
+  if (demo.accuracy) {
+    const missed =
+      demo.accuracy.wape === null
+        ? ""
+        : ` (${Math.round(demo.accuracy.wape * 100)}% of sales)`;
+    text += `\n📈 *Tested on your last ${demo.accuracy.days} days:* off by ${demo.accuracy.mae} units per item per day on average${missed}\n`;
+  }
+
+  text += `\n*AI-powered forecast based on your sales history*`;
+
+  return { title, text };
+}
@@ -0,0 +1,99 @@
+/**
+ * Forecast Explanations
+ * Turns the ForecastExplanation stored with each forecast row into short
+ * reasons for managers ("why 48 tacos?")
+ */
+
+import { ForecastExplanation } from "@/lib/forecasting";
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// Smaller effects are left out of the reasons
+const MIN_WEATHER_EFFECT = 0.05;
+
+const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+const percent = (multiplier: number) =>
+  `${signed(Math.round((multiplier - 1) * 100))}%`;
+const days = (count: number) => (count === 1 ? "1 day" : `${count} days`);
+
+/**
+ * Main reasons behind a forecast, most important first, e.g.
+ * ["recent average 41/day", "Fridays +6", "trending +2/week", "Feria +50%"]
+ */
+export function explanationReasons(explanation: ForecastExplanation): string[] {
+  const reasons: string[] = [];
+
+  if (explanation.intermittent) {
+    reasons.push(
+      `sells on about ${Math.round(explanation.intermittent.probability * 100)}% of days, ${Math.round(explanation.intermittent.size)} when it does`
+    );
+  } else {
+    reasons.push(`recent average ${Math.round(explanation.baseline)}/day`);
+
+    const weekdayEffect = Math.round(explanation.weekdayEffect);
+    if (weekdayEffect !== 0) {
+      reasons.push(
+        `${WEEKDAYS[explanation.dayOfWeek]}s ${signed(weekdayEffect)}`
+      );
+    }
+
+    const weeklyTrend = Math.round(explanation.trendSlope * 7);
+    if (weeklyTrend !== 0) {
+      reasons.push(`trending ${signed(weeklyTrend)}/week`);
+    }
+  }
+
+  if (explanation.prior) {
+    reasons.push(
+      `${Math.round(explanation.prior.weight * 100)}% from other locations`
+    );
+  }
+
+  if (explanation.eventUplift !== 1 && explanation.events.length > 0) {
+    reasons.push(
+      `${explanation.events.join(" & ")} ${percent(explanation.eventUplift)}`
+    );
+  }
+
+  if (Math.abs(explanation.weatherAdjustment - 1) >= MIN_WEATHER_EFFECT) {
+    reasons.push(`weather ${percent(explanation.weatherAdjustment)}`);
+  }
+
+  if (explanation.outliers.capped > 0) {
+    reasons.push(
+      `${days(explanation.outliers.capped)} of unusual sales capped`
+    );
+  }
+  if (explanation.outliers.excluded > 0) {
+    reasons.push(`${days(explanation.outliers.excluded)} excluded`);
+  }
+
+  if (explanation.reconciliation !== 0) {
+    reasons.push(`${signed(explanation.reconciliation)} to match totals`);
+  }
+
+  if (explanation.scheduled) {
+    reasons.push(`${explanation.scheduled} pre-ordered`);
+  }
+
+  return reasons;
+}
+
+/**
+ * "Tacos 48: recent average 41/day, Fridays +6, Feria +50%"
+ */
+export function whyLine(
+  item: string,
+  forecast: number,
+  explanation: ForecastExplanation
+): string {
+  return `${item} ${forecast}: ${explanationReasons(explanation).join(", ")}`;
+}
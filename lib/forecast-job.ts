@@ -0,0 +1,1020 @@
+/**
+ * Forecast Generation Job
+ * Runs advancedForecast for every location and stores the results in `forecasts`
+ */
+
+import { SUPABASE_PAGE_SIZE, supabase } from "@/lib/supabase";
+import {
+  AggregateForecast,
+  ForecastOptions,
+  HierarchicalForecastResult,
+  ItemPrice,
+  ItemPrior,
+  ItemPromotion,
+  ReconciliationMethod,
+  SalesRecord,
+  ScheduledOrder,
+  coldStartItems,
+  dataCoverage,
+  hierarchicalForecast,
+  peerPriors,
+} from "@/lib/forecasting";
+import {
+  IntradayProfiles,
+  IntradaySale,
+  intradayForecast,
+  intradayProfiles,
+} from "@/lib/dayparts";
+import { getHistoryStarts, recordDemandShifts } from "@/lib/demand-shifts";
+import { getLocationEvents } from "@/lib/holidays";
+import { getServiceLevels } from "@/lib/item-economics";
+import { getModelParameters } from "@/lib/model-tuning";
+import {
+  ModelVersion,
+  getModelVersion,
+  getOrganizationModels,
+} from "@/lib/model-versions";
+import {
+  OpeningHours,
+  getClosedDays,
+  openDays,
+  openHours,
+  parseOpeningHours,
+} from "@/lib/opening-hours";
+import { getOutlierReviews } from "@/lib/outliers";
+import {
+  PromotionSale,
+  getLocationPromotions,
+  salesPromotions,
+} from "@/lib/promotions";
+import { getScheduledOrders, withoutOrders } from "@/lib/scheduled-orders";
+import {
+  extractTimezoneFromTIMETZ,
+  getLocalDateString,
+  toLocalDateString,
+  toLocalHour,
+} from "@/lib/timezones";
+import { getLocationWeather } from "@/lib/weather";
+
+// Days forecast per run, starting tomorrow (covers a week of purchasing)
+export const DEFAULT_HORIZON_DAYS = 7;
+export const MAX_HORIZON_DAYS = 14;
+
+// Weather effects are learned from the last 120 days of forecast errors
+const WEATHER_HISTORY_DAYS = 120;
+
+// Locations whose recent sales seed priors for new items (see peerPriors)
+const MAX_PEER_LOCATIONS = 10;
+const PEER_HISTORY_DAYS = 90;
+
+// Recent weeks whose sales timestamps shape the hourly split of forecasts
+const INTRADAY_HISTORY_DAYS = 56;
+
+// No new location is started after this long, so the run is logged before
+// the route's 300 s limit; the rest go first on the next run
+const FORECAST_BUDGET_MS = 200 * 1000;
+const OUT_OF_TIME = "Out of time, forecast first on the next run";
+
+export interface LocationRow {
+  id: string;
+  organization_id: string;
+  name: string;
+  kitchen_close: string;
+  country: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  restaurant_type: string | null;
+  restaurant_size: string | null;
+  cuisine_type: string | null;
+  opening_hours: OpeningHours | null;
+}
+
+interface SalesDataRow {
+  timestamp: string;
+  item: string;
+  quantity: number;
+  revenue_cents: number | null;
+  promotion: string | null;
+  daily_total: boolean | null; // Uploaded without a time of day
+}
+
+export interface LocationForecastResult {
+  locationId: string;
+  locationName: string;
+  organizationId: string;
+  forecastDate: string | null; // First day of the horizon
+  horizonDays: number;
+  status: "success" | "skipped" | "failed";
+  itemsForecasted: number;
+  error?: string;
+}
+
+export interface TrainingData {
+  salesHistory: SalesRecord[]; // Without the units of fulfilled scheduled orders
+  scheduledOrders: ScheduledOrder[]; // Pending ones, from forecastDate on
+  options: Required<
+    Pick<
+      ForecastOptions,
+      | "events"
+      | "promotions"
+      | "prices"
+      | "outlierReviews"
+      | "historyStarts"
+      | "closedDays"
+    >
+  >;
+}
+
+export interface ForecastJobResult {
+  runId: string | null;
+  status: "completed" | "completed_with_errors" | "failed";
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  results: LocationForecastResult[];
+}
+
+/**
+ * Load the full sales history for a location (or since a date) as daily
+ * records, dated in the location's timezone
+ */
+export async function fetchSalesHistory(
+  locationId: string,
+  timezone: string,
+  since?: string
+): Promise<SalesRecord[]> {
+  const records: SalesRecord[] = [];
+
+  await fetchSalesRows(locationId, since, (row) => {
+    records.push({
+      date: salesDate(row, timezone),
+      item: row.item,
+      quantity: row.quantity,
+    });
+  });
+
+  return records;
+}
+
+/**
+ * Load the full sales history for a location (or since a date) with the
+ * effective price of every item and day and the promotions sales were
+ * flagged with
+ */
+export async function fetchPricedSalesHistory(
+  locationId: string,
+  timezone: string,
+  since?: string
+): Promise<{
+  salesHistory: SalesRecord[];
+  prices: ItemPrice[];
+  promotions: ItemPromotion[];
+}> {
+  const salesHistory: SalesRecord[] = [];
+  const sales: PromotionSale[] = [];
+
+  await fetchSalesRows(locationId, since, (row) => {
+    const date = salesDate(row, timezone);
+    salesHistory.push({ date, item: row.item, quantity: row.quantity });
+    sales.push({
+      date,
+      item: row.item,
+      quantity: row.quantity,
+      revenueCents: row.revenue_cents,
+      promotion: row.promotion,
+    });
+  });
+
+  return { salesHistory, ...salesPromotions(sales) };
+}
+
+/**
+ * Load POS sales since a date with their local date and hour; uploaded daily
+ * totals have no time of day and are left out
+ */
+export async function fetchIntradaySales(
+  locationId: string,
+  timezone: string,
+  since: string
+): Promise<IntradaySale[]> {
+  const sales: IntradaySale[] = [];
+
+  await fetchSalesRows(locationId, since, (row) => {
+    if (row.daily_total) return;
+    sales.push({
+      date: toLocalDateString(row.timestamp, timezone),
+      hour: toLocalHour(row.timestamp, timezone),
+      item: row.item,
+      quantity: row.quantity,
+    });
+  });
+
+  return sales;
+}
+
+async function fetchSalesRows(
+  locationId: string,
+  since: string | undefined,
+  onRow: (row: SalesDataRow) => void
+): Promise<void> {
+  let from = 0;
+
+  while (true) {
+    let query = supabase
+      .from("sales_data")
+      .select(
+        "timestamp, item, quantity, revenue_cents, promotion, daily_total"
+      )
+      .eq("location_id", locationId);
+    if (since) query = query.gte("timestamp", since);
+
+    const { data, error } = await query
+      .order("timestamp", { ascending: true })
+      .range(from, from + SUPABASE_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch sales data: ${error.message}`);
+    }
+
+    if (!data) break;
+
+    (data as SalesDataRow[]).forEach(onRow);
+
+    if (data.length < SUPABASE_PAGE_SIZE) break;
+    from += SUPABASE_PAGE_SIZE;
+  }
+}
+
+/**
+ * Local calendar date of a sales row
+ * Uploaded daily totals are stored at UTC midnight of their date and read back
+ * as that date; POS timestamps are converted to the location's timezone
+ */
+function salesDate(row: SalesDataRow, timezone: string): string {
+  if (row.daily_total) {
+    return new Date(row.timestamp).toISOString().split("T")[0];
+  }
+  return toLocalDateString(row.timestamp, timezone);
+}
+
+/**
+ * Reconciliation selected by FORECAST_RECONCILIATION ("bottom-up" or "mint",
+ * the default)
+ */
+export function getReconciliationMethod(): ReconciliationMethod {
+  return process.env.FORECAST_RECONCILIATION === "bottom-up"
+    ? "bottom-up"
+    : "mint";
+}
+
+/**
+ * Items, categories and the location total forecast with a model version's
+ * settings, reconciled to add up
+ * Fitted `parameters` are only used by versions that take them. Shared by the
+ * forecast job, its shadow challenger and demo forecasts.
+ */
+export function versionForecast(
+  version: ModelVersion,
+  salesHistory: SalesRecord[],
+  forecastDate: string,
+  horizonDays: number,
+  categories: { [item: string]: string },
+  options: ForecastOptions,
+  parameters: Pick<ForecastOptions, "parameters" | "itemParameters"> = {}
+): {
+  hierarchy: HierarchicalForecastResult;
+  reconciliation: ReconciliationMethod;
+} {
+  const reconciliation = version.reconciliation ?? getReconciliationMethod();
+  const hierarchy = hierarchicalForecast(
+    salesHistory,
+    forecastDate,
+    horizonDays,
+    categories,
+    {
+      ...(version.fittedParameters ? parameters : {}),
+      ...options,
+      intermittentMethod: version.intermittentMethod,
+      capOutliers: version.capOutliers,
+    },
+    reconciliation
+  );
+  return { hierarchy, reconciliation };
+}
+
+/**
+ * Category of every categorized item of an organization
+ * Never throws: items are forecast as Uncategorized on failure
+ */
+async function fetchItemCategories(
+  organizationId: string
+): Promise<{ [item: string]: string }> {
+  const categories: { [item: string]: string } = {};
+  let from = 0;
+
+  try {
+    while (true) {
+      const { data, error } = await supabase
+        .from("item_categories")
+        .select("item, category")
+        .eq("organization_id", organizationId)
+        .range(from, from + SUPABASE_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch item categories: ${error.message}`);
+      }
+
+      if (!data) break;
+
+      (data as { item: string; category: string }[]).forEach((row) => {
+        categories[row.item] = row.category;
+      });
+
+      if (data.length < SUPABASE_PAGE_SIZE) break;
+      from += SUPABASE_PAGE_SIZE;
+    }
+  } catch (error) {
+    console.error(
+      `Error getting item categories for organization ${organizationId}:`,
+      error
+    );
+  }
+
+  return categories;
+}
+
+/**
+ * Hourly sales profiles of the location's items over recent weeks
+ * Never throws: forecasts get no hourly split on failure
+ */
+async function getIntradayProfiles(
+  locationId: string,
+  timezone: string
+): Promise<IntradayProfiles> {
+  try {
+    return intradayProfiles(
+      await fetchIntradaySales(
+        locationId,
+        timezone,
+        getLocalDateString(timezone, -INTRADAY_HISTORY_DAYS)
+      )
+    );
+  } catch (error) {
+    console.error(
+      `Error getting intraday profiles for location ${locationId}:`,
+      error
+    );
+    return { items: {}, location: null };
+  }
+}
+
+/**
+ * Priors for the location's new items from other locations of the same
+ * organization, then locations of the same type, size and cuisine
+ * Never throws: new items are forecast from their own history alone on failure
+ */
+async function getPeerPriors(
+  location: LocationRow,
+  salesHistory: SalesRecord[]
+): Promise<{ [item: string]: ItemPrior }> {
+  if (coldStartItems(salesHistory).length === 0) return {};
+
+  try {
+    const columns = "id, kitchen_close";
+    const { data: orgPeers, error: orgError } = await supabase
+      .from("locations")
+      .select(columns)
+      .eq("organization_id", location.organization_id)
+      .neq("id", location.id)
+      .limit(MAX_PEER_LOCATIONS);
+
+    if (orgError) {
+      throw new Error(`Failed to load peer locations: ${orgError.message}`);
+    }
+
+    const peers: { id: string; kitchen_close: string }[] = [
+      ...(orgPeers || []),
+    ];
+
+    if (
+      peers.length < MAX_PEER_LOCATIONS &&
+      location.restaurant_type &&
+      location.restaurant_size &&
+      location.cuisine_type
+    ) {
+      const { data: similarPeers, error: similarError } = await supabase
+        .from("locations")
+        .select(columns)
+        .eq("restaurant_type", location.restaurant_type)
+        .eq("restaurant_size", location.restaurant_size)
+        .eq("cuisine_type", location.cuisine_type)
+        .neq("organization_id", location.organization_id)
+        .limit(MAX_PEER_LOCATIONS - peers.length);
+
+      if (similarError) {
+        throw new Error(
+          `Failed to load similar locations: ${similarError.message}`
+        );
+      }
+      peers.push(...(similarPeers || []));
+    }
+
+    // Sequential, like the job itself
+    const peerHistories: SalesRecord[][] = [];
+    for (const peer of peers) {
+      const timezone = extractTimezoneFromTIMETZ(peer.kitchen_close);
+      peerHistories.push(
+        await fetchSalesHistory(
+          peer.id,
+          timezone,
+          getLocalDateString(timezone, -PEER_HISTORY_DAYS)
+        )
+      );
+    }
+
+    return peerPriors(salesHistory, peerHistories);
+  } catch (error) {
+    console.error(
+      `Error getting peer priors for location ${location.id}:`,
+      error
+    );
+    return {};
+  }
+}
+
+/**
+ * A location's sales history and the options its forecasts are trained with
+ * (closed days, events, promotions, prices, outlier reviews, history starts),
+ * over the history plus the horizon from forecastDate to horizonEnd
+ * Shared by the forecast and model tuning jobs, so parameters are fitted on
+ * the history they forecast from. Returns null when there are no sales.
+ */
+export async function fetchTrainingData(
+  location: LocationRow,
+  forecastDate: string,
+  horizonEnd: string
+): Promise<TrainingData | null> {
+  const {
+    salesHistory: recordedSales,
+    prices,
+    promotions: flaggedPromotions,
+  } = await fetchPricedSalesHistory(
+    location.id,
+    extractTimezoneFromTIMETZ(location.kitchen_close)
+  );
+
+  if (recordedSales.length === 0) return null;
+
+  // Catering and pre-bookings: fulfilled ones come out of training, pending
+  // upcoming ones are added on top of the forecast
+  const orders = await getScheduledOrders(
+    location.id,
+    recordedSales[0].date,
+    horizonEnd
+  );
+  const salesHistory = withoutOrders(
+    recordedSales,
+    orders.fulfilled.filter((order) => order.date < forecastDate)
+  );
+  const scheduledOrders = orders.pending.filter(
+    (order) => order.date >= forecastDate
+  );
+
+  // One-off closures over the history and the horizon; weekly days off only
+  // over the horizon, since the schedule may not have held in the past
+  const closedDays = await getClosedDays(
+    location,
+    salesHistory[0].date,
+    horizonEnd,
+    forecastDate
+  );
+
+  // Holidays and custom events over the whole history plus the horizon
+  const events = await getLocationEvents(
+    location,
+    salesHistory[0].date,
+    horizonEnd
+  );
+
+  // Promotions flagged in sales plus planned ones, past and upcoming
+  const promotions = [
+    ...flaggedPromotions,
+    ...(await getLocationPromotions(
+      location.id,
+      salesHistory[0].date,
+      horizonEnd
+    )),
+  ];
+
+  // Flags new outliers; confirmed ones are left out of training
+  const outlierReviews = await getOutlierReviews(
+    location,
+    salesHistory,
+    events,
+    promotions,
+    closedDays
+  );
+
+  // Items whose demand shift was reset are trained from the change on
+  const historyStarts = await getHistoryStarts(location.id);
+
+  return {
+    salesHistory,
+    scheduledOrders,
+    options: {
+      events,
+      promotions,
+      prices,
+      outlierReviews,
+      historyStarts,
+      closedDays,
+    },
+  };
+}
+
+/**
+ * Forecast the next `horizonDays` days starting tomorrow (in the location's
+ * timezone) and upsert one row per item and date
+ */
+export async function generateLocationForecast(
+  location: LocationRow,
+  horizonDays: number = DEFAULT_HORIZON_DAYS
+): Promise<LocationForecastResult> {
+  const result: LocationForecastResult = {
+    locationId: location.id,
+    locationName: location.name,
+    organizationId: location.organization_id,
+    forecastDate: null,
+    horizonDays,
+    status: "success",
+    itemsForecasted: 0,
+  };
+
+  const locationTimezone = extractTimezoneFromTIMETZ(location.kitchen_close);
+  const forecastDate = getLocalDateString(locationTimezone, 1);
+  result.forecastDate = forecastDate;
+
+  const horizonEnd = getLocalDateString(locationTimezone, horizonDays);
+  const training = await fetchTrainingData(location, forecastDate, horizonEnd);
+
+  if (!training) {
+    console.warn(`No sales data for location ${location.id}, skipping`);
+    result.status = "skipped";
+    return result;
+  }
+
+  const { salesHistory, scheduledOrders, options: trainingOptions } = training;
+  const openingHours = parseOpeningHours(location.opening_hours);
+  const { closedDays } = trainingOptions;
+  const closed = new Set(closedDays);
+
+  // Closed days get no forecast, including ones closed since the last run
+  const closedHorizon = closedDays.filter((date) => date >= forecastDate);
+  if (closedHorizon.length > 0) {
+    const { error: clearClosedError } = await supabase
+      .from("forecasts")
+      .delete()
+      .eq("location_id", location.id)
+      .in("forecast_date", closedHorizon);
+
+    if (clearClosedError) {
+      throw new Error(
+        `Failed to clear forecasts of closed days: ${clearClosedError.message}`
+      );
+    }
+  }
+
+  if (closedHorizon.length === horizonDays) {
+    console.log(
+      `${location.name} is closed through ${horizonEnd}, skipping forecast`
+    );
+    result.status = "skipped";
+    return result;
+  }
+
+  // Emails about items whose demand level changed for good; with
+  // DEMAND_SHIFT_AUTO_RESET they are trained from the change on right away
+  if (await recordDemandShifts(location, salesHistory, trainingOptions)) {
+    trainingOptions.historyStarts = await getHistoryStarts(location.id);
+  }
+
+  // Recent observed weather plus the forecast (none if no provider is configured)
+  const weather = await getLocationWeather(
+    location,
+    getLocalDateString(locationTimezone, -WEATHER_HISTORY_DAYS),
+    horizonEnd,
+    getLocalDateString(locationTimezone)
+  );
+
+  // Champion forecasts are sent; a challenger only runs in shadow mode
+  const models = await getOrganizationModels(location.organization_id);
+  const champion = getModelVersion(models.champion);
+  const challenger = models.challenger
+    ? getModelVersion(models.challenger)
+    : null;
+
+  // Fitted per item/location by the tuning job; defaults until it has run
+  const parameters = await getModelParameters(location.id);
+
+  // New items lean on the same items at peer locations
+  const priors = await getPeerPriors(location, salesHistory);
+
+  // Items with a cost and price get a prep quantity at their service level
+  const serviceLevels = await getServiceLevels(location.organization_id);
+
+  // Items, categories and the location total, reconciled to add up
+  const categories = await fetchItemCategories(location.organization_id);
+  const forecastWith = (version: ModelVersion) =>
+    versionForecast(
+      version,
+      salesHistory,
+      forecastDate,
+      horizonDays,
+      categories,
+      {
+        ...trainingOptions,
+        weather,
+        priors,
+        serviceLevels,
+        scheduledOrders,
+      },
+      parameters
+    );
+  const { hierarchy, reconciliation } = forecastWith(champion);
+  const forecast = hierarchy.items;
+
+  const coverage = dataCoverage(
+    salesHistory,
+    openDays(
+      openingHours,
+      closedDays,
+      salesHistory[0].date,
+      salesHistory[salesHistory.length - 1].date
+    )
+  );
+
+  // Hourly and daypart split, from when each item sells during the day
+  const profiles = await getIntradayProfiles(location.id, locationTimezone);
+
+  const rows = Object.entries(forecast)
+    .flatMap(([item, series]) =>
+      series.map((dayForecast, index) => {
+        const intraday = intradayForecast(
+          profiles,
+          item,
+          dayForecast.date,
+          dayForecast.forecast,
+          openHours(openingHours, dayForecast.date)
+        );
+        return {
+          organization_id: location.organization_id,
+          location_id: location.id,
+          forecast_date: dayForecast.date,
+          horizon_day: index + 1,
+          item,
+          predicted_quantity: dayForecast.forecast,
+          prediction_quantiles: dayForecast.quantiles,
+          probability_of_sale: dayForecast.probabilityOfSale,
+          demand_pattern: dayForecast.demandPattern,
+          data_coverage: coverage[item]?.coverage ?? null,
+          low_confidence: dayForecast.lowConfidence,
+          prep_quantity: dayForecast.prepQuantity ?? null,
+          service_level: serviceLevels[item] ?? null,
+          explanation: dayForecast.explanation,
+          hourly_quantities: intraday?.hourly ?? null,
+          daypart_quantities: intraday?.dayparts ?? null,
+          model_version: champion.id,
+          scheduled_quantity: dayForecast.explanation.scheduled ?? null,
+        };
+      })
+    )
+    .filter((row) => !closed.has(row.forecast_date));
+
+  // Items only sold through orders drop out once their order is cancelled
+  await clearStaleForecasts(location.id, forecastDate, Object.keys(forecast));
+
+  const { error: upsertError } = await supabase
+    .from("forecasts")
+    .upsert(rows, { onConflict: "location_id,forecast_date,item" });
+
+  if (upsertError) {
+    throw new Error(`Failed to save forecasts: ${upsertError.message}`);
+  }
+
+  const aggregateRow = (
+    level: "category" | "location",
+    category: string | null,
+    dayForecast: AggregateForecast
+  ) => ({
+    organization_id: location.organization_id,
+    location_id: location.id,
+    forecast_date: dayForecast.date,
+    level,
+    category,
+    predicted_quantity: dayForecast.forecast,
+    prediction_quantiles: dayForecast.quantiles,
+    reconciliation,
+  });
+  const aggregateRows = [
+    ...hierarchy.total.map((dayForecast) =>
+      aggregateRow("location", null, dayForecast)
+    ),
+    ...Object.entries(hierarchy.categories).flatMap(([category, series]) =>
+      series.map((dayForecast) =>
+        aggregateRow("category", category, dayForecast)
+      )
+    ),
+  ].filter((row) => !closed.has(row.forecast_date));
+
+  // Replaced rather than upserted so renamed categories don't linger
+  const { error: clearError } = await supabase
+    .from("forecast_aggregates")
+    .delete()
+    .eq("location_id", location.id)
+    .gte("forecast_date", forecastDate);
+
+  if (clearError) {
+    throw new Error(`Failed to clear forecast totals: ${clearError.message}`);
+  }
+
+  if (aggregateRows.length > 0) {
+    const { error: aggregateError } = await supabase
+      .from("forecast_aggregates")
+      .insert(aggregateRows);
+
+    if (aggregateError) {
+      throw new Error(
+        `Failed to save forecast totals: ${aggregateError.message}`
+      );
+    }
+  }
+
+  if (challenger && challenger.id !== champion.id) {
+    await saveShadowForecast(location, challenger, () =>
+      forecastWith(challenger)
+    );
+  }
+
+  result.itemsForecasted = Object.keys(forecast).length;
+  console.log(
+    `Forecast saved for ${location.name} from ${forecastDate} (${locationTimezone}): ${result.itemsForecasted} items x ${horizonDays} days`
+  );
+
+  return result;
+}
+
+/**
+ * Delete upcoming forecasts of items this run no longer forecasts
+ */
+async function clearStaleForecasts(
+  locationId: string,
+  forecastDate: string,
+  items: string[]
+): Promise<void> {
+  const upcoming = new Set<string>();
+  let from = 0;
+
+  while (true) {
+    const { data, error } = await supabase
+      .from("forecasts")
+      .select("item")
+      .eq("location_id", locationId)
+      .gte("forecast_date", forecastDate)
+      .order("item", { ascending: true })
+      .order("forecast_date", { ascending: true })
+      .range(from, from + SUPABASE_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load upcoming forecasts: ${error.message}`);
+    }
+
+    if (!data) break;
+
+    data.forEach((row) => upcoming.add(row.item as string));
+
+    if (data.length < SUPABASE_PAGE_SIZE) break;
+    from += SUPABASE_PAGE_SIZE;
+  }
+
+  const current = new Set(items);
+  const stale = Array.from(upcoming).filter((item) => !current.has(item));
+  if (stale.length === 0) return;
+
+  const { error: deleteError } = await supabase
+    .from("forecasts")
+    .delete()
+    .eq("location_id", locationId)
+    .gte("forecast_date", forecastDate)
+    .in("item", stale);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear stale forecasts: ${deleteError.message}`);
+  }
+}
+
+/**
+ * Forecast with a challenger version and upsert its item rows into
+ * shadow_forecasts, which are compared with the champion but never sent
+ * Never throws: a failing challenger must not fail the location
+ */
+async function saveShadowForecast(
+  location: LocationRow,
+  challenger: ModelVersion,
+  forecastWith: () => { hierarchy: HierarchicalForecastResult }
+): Promise<void> {
+  try {
+    const { hierarchy } = forecastWith();
+    const rows = Object.entries(hierarchy.items).flatMap(([item, series]) =>
+      series.map((dayForecast, index) => ({
+        organization_id: location.organization_id,
+        location_id: location.id,
+        forecast_date: dayForecast.date,
+        horizon_day: index + 1,
+        item,
+        model_version: challenger.id,
+        predicted_quantity: dayForecast.forecast,
+        prediction_quantiles: dayForecast.quantiles,
+      }))
+    );
+
+    const { error } = await supabase.from("shadow_forecasts").upsert(rows, {
+      onConflict: "location_id,forecast_date,item,model_version",
+    });
+
+    if (error) {
+      throw new Error(`Failed to save shadow forecasts: ${error.message}`);
+    }
+  } catch (error) {
+    console.error(
+      `Error running challenger ${challenger.id} for location ${location.id}:`,
+      error
+    );
+  }
+}
+
+/**
+ * Generate forecasts for every location and record the run log
+ */
+export async function runForecastJob(
+  horizonDays: number = DEFAULT_HORIZON_DAYS
+): Promise<ForecastJobResult> {
+  const startedAt = Date.now();
+  const outOfTime = await getOutOfTimeLocations();
+
+  const { data: run, error: runError } = await supabase
+    .from("forecast_runs")
+    .insert({ status: "running" })
+    .select("id")
+    .single();
+
+  if (runError) {
+    // The job can still do its work without a run log
+    console.error("Error creating forecast run:", runError);
+  }
+
+  const runId: string | null = run?.id ?? null;
+
+  const { data: locations, error: locationsError } = await supabase
+    .from("locations")
+    .select(
+      "id, organization_id, name, kitchen_close, country, latitude, longitude, restaurant_type, restaurant_size, cuisine_type, opening_hours"
+    );
+
+  if (locationsError || !locations) {
+    console.error("Error fetching locations:", locationsError);
+    if (runId) {
+      await supabase
+        .from("forecast_runs")
+        .update({ status: "failed", finished_at: new Date().toISOString() })
+        .eq("id", runId);
+    }
+    return {
+      runId,
+      status: "failed",
+      succeeded: 0,
+      failed: 0,
+      skipped: 0,
+      results: [],
+    };
+  }
+
+  const results: LocationForecastResult[] = [];
+
+  // Locations the last run ran out of time for go first
+  const ordered = [...(locations as LocationRow[])].sort(
+    (a, b) => Number(outOfTime.has(b.id)) - Number(outOfTime.has(a.id))
+  );
+
+  // Sequential on purpose: keeps memory and Supabase load flat as locations grow
+  for (const location of ordered) {
+    if (Date.now() - startedAt > FORECAST_BUDGET_MS) {
+      results.push({
+        locationId: location.id,
+        locationName: location.name,
+        organizationId: location.organization_id,
+        forecastDate: null,
+        horizonDays,
+        status: "skipped",
+        itemsForecasted: 0,
+        error: OUT_OF_TIME,
+      });
+      continue;
+    }
+
+    try {
+      results.push(await generateLocationForecast(location, horizonDays));
+    } catch (error) {
+      console.error(`Forecast failed for location ${location.id}:`, error);
+      results.push({
+        locationId: location.id,
+        locationName: location.name,
+        organizationId: location.organization_id,
+        forecastDate: null,
+        horizonDays,
+        status: "failed",
+        itemsForecasted: 0,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const succeeded = results.filter((r) => r.status === "success").length;
+  const failed = results.filter((r) => r.status === "failed").length;
+  const skipped = results.filter((r) => r.status === "skipped").length;
+  const status = failed > 0 ? "completed_with_errors" : "completed";
+
+  if (runId && results.length > 0) {
+    const { error: logError } = await supabase
+      .from("forecast_run_locations")
+      .insert(
+        results.map((r) => ({
+          run_id: runId,
+          organization_id: r.organizationId,
+          location_id: r.locationId,
+          forecast_date: r.forecastDate,
+          horizon_days: r.horizonDays,
+          status: r.status,
+          items_forecasted: r.itemsForecasted,
+          error_message: r.error || null,
+        }))
+      );
+
+    if (logError) {
+      console.error("Error recording forecast run locations:", logError);
+    }
+  }
+
+  if (runId) {
+    await supabase
+      .from("forecast_runs")
+      .update({
+        status,
+        locations_total: results.length,
+        locations_succeeded: succeeded,
+        locations_failed: failed,
+        locations_skipped: skipped,
+        finished_at: new Date().toISOString(),
+      })
+      .eq("id", runId);
+  }
+
+  return { runId, status, succeeded, failed, skipped, results };
+}
+
+/**
+ * Locations the last finished run ran out of time for
+ * Never throws: locations keep their usual order on failure
+ */
+async function getOutOfTimeLocations(): Promise<Set<string>> {
+  try {
+    const { data: lastRun, error: runError } = await supabase
+      .from("forecast_runs")
+      .select("id")
+      .neq("status", "running")
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (runError) {
+      throw new Error(`Failed to load the last run: ${runError.message}`);
+    }
+    if (!lastRun) return new Set();
+
+    const { data, error } = await supabase
+      .from("forecast_run_locations")
+      .select("location_id")
+      .eq("run_id", lastRun.id)
+      .eq("error_message", OUT_OF_TIME);
+
+    if (error) {
+      throw new Error(
+        `Failed to load the last run's locations: ${error.message}`
+      );
+    }
+
+    return new Set((data || []).map((row) => row.location_id as string));
+  } catch (error) {
+    console.error("Error getting locations the last run skipped:", error);
+    return new Set();
+  }
+}
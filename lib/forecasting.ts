@@ -3,97 +3,2404 @@
  * Uses multiple statistical methods with all historical data
  */
 
-interface SalesRecord {
-  date: string;
+import {
+  addDaysToDateString,
+  daysBetween,
+  getDayOfWeek,
+  getLocalDateString,
+} from "@/lib/timezones";
+
+export interface SalesRecord {
+  date: string; // YYYY-MM-DD, the location's local date
+  item: string;
+  quantity: number;
+}
+
+interface PointForecastResult {
+  [item: string]: number;
+}
+
+// "intermittent" items sell on only some days and are forecast with Croston/TSB
+export type DemandPattern = "smooth" | "intermittent";
+
+export type IntermittentMethod = "tsb" | "croston";
+
+export interface ItemForecast {
+  forecast: number; // Point forecast (rounded ensemble, or expected demand if intermittent)
+  quantiles: { [key: string]: number }; // e.g. { p10: 32, p50: 40, p90: 51 }
+  probabilityOfSale: number; // Chance of selling at least one unit (0-1)
+  demandPattern: DemandPattern;
+  lowConfidence: boolean; // Too little own history; leans on peers if there is a prior
+  prepQuantity?: number; // Quantile at the item's service level, if it has one
+  explanation: ForecastExplanation;
+}
+
+// Why a forecast is what it is, in units unless noted
+export interface ForecastExplanation {
+  dayOfWeek: number; // Of the target date (0 = Sunday)
+  methods: {
+    [method in ForecastMethod]?: {
+      forecast: number;
+      weight: number; // Ensemble weight
+      contribution: number; // forecast x weight; they add up to the ensemble
+    };
+  }; // Empty for intermittent items
+  ensemble: number; // Weighted ensemble (or intermittent expected demand) before adjustments
+  baseline: number; // Mean daily sales over the last EXPLANATION_WINDOW_DAYS trading days
+  weekdayEffect: number; // Target weekday's mean minus the baseline, same window
+  trendSlope: number; // Units per day, linear trend over the whole history
+  prior: { value: number; weight: number } | null; // Cold-start peer prior
+  intermittent: { probability: number; size: number } | null; // Chance of selling, units when it does
+  events: string[]; // Names of the target date's events
+  eventUplift: number; // Multiplier (1 = no event)
+  weatherAdjustment: number; // Multiplier (1 = no weather effect)
+  outliers: { capped: number; excluded: number }; // Training days capped or left out
+  reconciliation: number; // Units moved to agree with category and location totals
+  scheduled?: number; // Units of known orders added on top (see lib/scheduled-orders.ts)
+}
+
+export interface ForecastResult {
+  [item: string]: ItemForecast;
+}
+
+export interface DatedItemForecast extends ItemForecast {
+  date: string; // YYYY-MM-DD
+}
+
+export interface DataCoverage {
+  openDays: number; // Open days since the item's first sale
+  salesDays: number; // Days the item sold
+  zeroDays: number; // Days with sales data but none of this item (true zeros)
+  missingDays: number; // Open days without any sales data (gaps)
+  coverage: number; // Share of open days with sales data (0-1)
+}
+
+export interface HorizonForecastResult {
+  [item: string]: DatedItemForecast[];
+}
+
+// How item forecasts are made to add up to category and location totals:
+// "bottom-up" sums the items; "mint" (minimum trace, diagonal) combines the
+// forecasts of every level, weighting each by its inverse error variance
+export type ReconciliationMethod = "bottom-up" | "mint";
+
+export interface AggregateForecast {
+  date: string; // YYYY-MM-DD
+  forecast: number; // Sum of the reconciled item forecasts
+  quantiles: { [key: string]: number };
+}
+
+export interface HierarchicalForecastResult {
+  items: HorizonForecastResult; // Reconciled
+  categories: { [category: string]: AggregateForecast[] };
+  total: AggregateForecast[]; // Location total
+}
+
+// How Holt-Winters combines the weekly season with the level
+export type Seasonality = "additive" | "multiplicative";
+
+export interface ModelParameters {
+  weights: number[]; // Ensemble weights, in FORECAST_METHODS order (0 leaves a method out)
+  alpha: number; // Exponential smoothing factor
+  recentWeight: number; // Recency emphasis of the weighted moving average
+  seasonality: Seasonality; // Holt-Winters season type
+}
+
+export interface CalendarEvent {
+  key: string; // Same for every occurrence, e.g. "christmas_day" or "custom:<id>"
+  name: string;
+  date: string; // YYYY-MM-DD
+  expectedUplift?: number; // Prior sales multiplier until the event is observed
+}
+
+// An item on promotion on a date, past (flagged in sales) or planned
+export interface ItemPromotion {
+  key: string; // Same for every occurrence, e.g. "promotion:2x1 tuesday"
+  name: string;
+  item: string;
+  date: string; // YYYY-MM-DD
+  discount?: number; // Share off the regular price (0.5 for a 2x1), if known
+  expectedUplift?: number; // Prior sales multiplier; else from the discount and price elasticity
+}
+
+// Units of an item a known order (catering, pre-booking) takes on a date
+export interface ScheduledOrder {
+  date: string; // YYYY-MM-DD
   item: string;
   quantity: number;
 }
 
-interface ForecastResult {
-  [item: string]: number;
+// What an item actually sold for on a day, discounts included
+export interface ItemPrice {
+  date: string; // YYYY-MM-DD
+  item: string;
+  unitPriceCents: number; // Revenue over units sold
+}
+
+export interface DailyWeather {
+  date: string; // YYYY-MM-DD
+  temperature: number; // Daily mean, °C
+  precipitation: number; // Daily total, mm
+}
+
+// Manager review of a flagged day: confirmed anomalies are left out of
+// training, rejected ones are real demand and kept as sold
+export type OutlierStatus = "flagged" | "confirmed" | "rejected";
+
+export interface SalesOutlier {
+  date: string; // YYYY-MM-DD
+  item: string;
+  quantity: number; // Units recorded
+  expected: number; // Median of the same weekday in the surrounding weeks
+  score: number; // Robust z-score (positive = spike, negative = drop)
+  cap: number; // Quantity used for training while the day is unreviewed
+}
+
+export interface OutlierReview {
+  date: string; // YYYY-MM-DD
+  item: string;
+  status: OutlierStatus;
+}
+
+// A lasting change in an item's level of sales (see detectDemandShifts)
+export interface DemandShift {
+  item: string;
+  date: string; // YYYY-MM-DD, first day at the new level
+  before: number; // Mean daily units in the weeks before
+  after: number; // Mean daily units since
+  score: number; // z-score of the change (positive = up)
+  shareBefore: number; // Item's share of the location's units before
+  shareAfter: number; // And since
+  mixShift: boolean; // The share moved too: demand moved between items
+}
+
+// Expected sales of a new item, from the same item at peer locations
+export interface ItemPrior {
+  weekdayMeans: number[]; // Mean daily units by weekday (0 = Sunday)
+  peers: number; // Peer locations behind the prior
+}
+
+export interface ForecastOptions {
+  quantiles?: number[]; // Probabilities between 0 and 1 (default P10/P50/P90)
+  parameters?: ModelParameters; // Applied to every item (default DEFAULT_MODEL_PARAMETERS)
+  itemParameters?: { [item: string]: ModelParameters }; // Per-item overrides, e.g. fitted ones
+  events?: CalendarEvent[]; // Holidays and special events, past and upcoming (see lib/holidays.ts)
+  promotions?: ItemPromotion[]; // Past and planned promotions per item (see lib/promotions.ts)
+  prices?: ItemPrice[]; // Effective daily prices per item, for price elasticity (see lib/promotions.ts)
+  weather?: DailyWeather[]; // Observed and forecast weather (see lib/weather.ts)
+  intermittentMethod?: IntermittentMethod; // For intermittent items (default "tsb")
+  outlierReviews?: OutlierReview[]; // Reviewed anomalies (see lib/outliers.ts)
+  capOutliers?: boolean; // Cap unreviewed outliers before training (default true)
+  historyStarts?: { [item: string]: string }; // Items trained only from a date, e.g. after a demand shift (see lib/demand-shifts.ts)
+  closedDays?: string[]; // Days the location was closed, left out of training (see lib/opening-hours.ts)
+  timezone?: string; // Location's IANA timezone, for the default target date (default UTC)
+  priors?: { [item: string]: ItemPrior }; // Cold-start priors (see peerPriors)
+  serviceLevels?: { [item: string]: number }; // Newsvendor critical ratios (see lib/item-economics.ts)
+  scheduledOrders?: ScheduledOrder[]; // Pending orders added on top of the reconciled forecast (see lib/scheduled-orders.ts)
+}
+
+// Event, weather and outlier context of one item's forecast for a date
+interface ForecastDrivers {
+  events: CalendarEvent[];
+  eventUplift: number;
+  weatherAdjustment: number;
+  outliers: ForecastExplanation["outliers"];
+}
+
+interface TimeSeriesData {
+  day: string; // YYYY-MM-DD, the location's local date
+  quantity: number;
+  dayOfWeek: number;
+  weekOfYear: number;
+  daysSinceStart: number;
+}
+
+export const DEFAULT_QUANTILES = [0.1, 0.5, 0.9];
+
+// Ensemble members, in the order used by ModelParameters.weights
+export const FORECAST_METHODS = [
+  "weightedMovingAverage",
+  "exponentialSmoothing",
+  "dayOfWeekPattern",
+  "linearTrendForecast",
+  "holtWinters",
+] as const;
+
+export type ForecastMethod = (typeof FORECAST_METHODS)[number];
+
+export interface MethodBreakdown {
+  methods: { [method in ForecastMethod]: number }; // Unrounded member forecasts
+  ensemble: number; // Unrounded forecast sent (intermittent model if intermittent), event uplift included
+  eventUplift: number; // Multiplier applied to the ensemble (1 on regular days)
+  demandPattern: DemandPattern;
+}
+
+interface EventIndex {
+  [date: string]: CalendarEvent[];
+}
+
+interface WeatherIndex {
+  [date: string]: DailyWeather;
+}
+
+interface PromotionIndex {
+  [item: string]: { [date: string]: ItemPromotion[] };
+}
+
+interface PriceIndex {
+  [item: string]: { [date: string]: number };
+}
+
+// A replayed one-step-ahead ensemble forecast
+interface ReplayPoint {
+  point: TimeSeriesData;
+  predicted: number;
+}
+
+// Croston/TSB state: demand is `size` units with `probability` on a trading day
+interface IntermittentModel {
+  probability: number;
+  size: number;
+  sizes: number[]; // Sorted non-zero daily quantities, for quantiles
+}
+
+// Relative effect on sales of weather away from its average over the replay
+interface WeatherModel {
+  meanTemperature: number;
+  meanRain: number; // Mean log1p(precipitation)
+  temperatureEffect: number; // Per °C
+  rainEffect: number; // Per unit of log1p(mm)
+}
+
+// Learned per item: the regular-day series the ensemble trains on, and the
+// observed sales ratio (actual / regular-day forecast) of each past event
+interface EventModel {
+  regular: TimeSeriesData[];
+  ratios: { [key: string]: number[] };
+  dayRatios: { [day: string]: number }; // The same ratios by event day
+}
+
+export const DEFAULT_MODEL_PARAMETERS: ModelParameters = {
+  weights: [0.25, 0.25, 0.2, 0.1, 0.2],
+  alpha: 0.3,
+  recentWeight: 0.7, // 70% weight on recent 30%
+  seasonality: "additive",
+};
+
+// Holt-Winters smoothing of level, trend (per day) and the 7-day season
+const SEASON_LENGTH = 7;
+const HW_ALPHA = 0.2;
+const HW_BETA = 0.05;
+const HW_GAMMA = 0.3;
+
+// Residual replay settings for prediction intervals
+const MIN_RESIDUAL_HISTORY = 7; // Points needed before the first replayed forecast
+const MAX_RESIDUALS = 90; // Only the most recent residuals are replayed
+const MIN_RESIDUALS = 10; // Below this, fall back to a normal approximation
+
+// Event uplift learning
+const EVENT_PRIOR_WEIGHT = 1; // Pseudo-occurrences at the prior (expectedUplift or 1)
+const MAX_EVENT_UPLIFT = 5; // Caps a single occurrence's ratio
+
+// Promotions and price elasticity
+const DEFAULT_PRICE_ELASTICITY = -1; // Prior: half the price sells twice the units
+const PRICE_RIDGE = 1; // Shrinkage toward the prior, in squared log price ratios
+const MIN_PRICE_ELASTICITY = -4;
+const MIN_PRICE_CHANGE = 0.02; // Smaller moves off the regular price are rounding noise
+
+// Weather effect learning
+const MIN_WEATHER_OBSERVATIONS = 28; // Replayed days with weather needed to fit
+const WEATHER_RIDGE = 0.1; // Shrinkage of the standardized effects toward zero
+const MAX_WEATHER_ADJUSTMENT = 0.5; // Adjustment stays within ±50%
+
+// Intermittent demand
+const INTERMITTENT_ADI = 1.32; // Syntetos-Boylan cut-off on the average interval between sales
+const MIN_DEMAND_HISTORY = 14; // Trading days needed before classifying an item
+const INTERMITTENT_ALPHA = 0.1; // Smoothing of the demand size (and Croston interval)
+const INTERMITTENT_BETA = 0.1; // TSB smoothing of the probability of sale
+const SALE_PROBABILITY_WINDOW = 28; // Recent trading days behind a smooth item's probability
+
+// Outliers
+const OUTLIER_WINDOW_DAYS = 56; // Same-weekday neighbors within ±8 weeks
+const MIN_OUTLIER_NEIGHBORS = 4; // Neighbors needed before judging a day
+const OUTLIER_THRESHOLD = 3.5; // Robust z-score beyond which a day is flagged
+const MIN_OUTLIER_SCALE = 1; // Units; keeps near-constant series from flagging ±1
+
+// Demand shift detection
+const SHIFT_BASELINE_DAYS = 56; // Trading days before a candidate change it is compared with
+const MIN_SHIFT_BASELINE = 28; // Baseline trading days needed before judging a change
+const MIN_SHIFT_DAYS = 14; // Trading days at the new level before a shift is reported
+const SHIFT_LOOKBACK_DAYS = 56; // Changes are only looked for in the latest trading days
+const SHIFT_THRESHOLD = 4; // z-score of the mean change beyond which a shift is reported
+const MIN_SHIFT_CHANGE = 0.25; // Relative change in level (and in share, for a mix shift)
+const SHIFT_RECENT_DAYS = 7; // Latest trading days that must still be at the new level
+const MIN_SHIFT_SCALE = 1; // Units; keeps near-constant series from flagging small moves
+
+// Cold start
+const COLD_START_DAYS = 28; // Below this many trading days an item is low-confidence
+const PRIOR_WINDOW_DAYS = 56; // Recent peer trading days behind a prior
+const MIN_NAME_SIMILARITY = 0.5; // Word overlap (Jaccard) for a peer item to match
+
+// Explanations
+const EXPLANATION_WINDOW_DAYS = 28; // Recent trading days behind the baseline and weekday effect
+
+// Hierarchy
+export const UNCATEGORIZED = "Uncategorized";
+const TOTAL_NODE = "__total__";
+
+/**
+ * Advanced forecasting using ensemble of methods:
+ * 1. Weighted Moving Average (recent data weighted more)
+ * 2. Exponential Smoothing
+ * 3. Day-of-week patterns
+ * 4. Linear trend
+ * 5. Holt-Winters (level, trend and 7-day season)
+ * Event days (options.events) are left out of training and forecast with the
+ * uplift learned from past occurrences of the same event; so are an item's
+ * promotion days (options.promotions), whose uplift starts from the discount
+ * and the price elasticity fitted on options.prices. With options.weather,
+ * temperature and precipitation effects learned from the ensemble's recent
+ * errors adjust days that have a weather forecast.
+ * Items that sell on only some days are forecast with Croston/TSB instead.
+ * Outlier days (see detectOutliers) are capped, or left out once confirmed.
+ * Items with under COLD_START_DAYS of history blend in options.priors (see
+ * peerPriors), fading out as their own history grows, and are flagged
+ * lowConfidence.
+ * Dates are plain local dates (YYYY-MM-DD) of the location, so weekdays don't
+ * depend on the server's timezone; the target defaults to tomorrow in
+ * options.timezone.
+ */
+export function advancedForecast(
+  historicalData: SalesRecord[],
+  targetDate?: string,
+  options: ForecastOptions = {}
+): ForecastResult {
+  const targetDay =
+    targetDate || getLocalDateString(options.timezone || "UTC", 1);
+  const quantiles = normalizeQuantiles(options.quantiles);
+  const eventIndex = indexEvents(options.events);
+  const promotionIndex = indexPromotions(options.promotions);
+  const priceIndex = indexPrices(options.prices);
+  const itemData = buildTrainingSeries(historicalData, eventIndex, options);
+  const outliers = outlierAdjustments(historicalData, itemData, options);
+  const weatherIndex = indexWeather(options.weather);
+
+  const predictions: ForecastResult = {};
+
+  // Forecast for each item
+  Object.keys(itemData).forEach((item) => {
+    const parameters = resolveParameters(options, item);
+    const itemEvents = withPromotions(eventIndex, promotionIndex[item]);
+    const eventModel = fitEventModel(itemData[item], parameters, itemEvents);
+    const demand = dailyDemand(itemData[item], itemEvents);
+
+    const lowConfidence = itemData[item].length < COLD_START_DAYS;
+    const serviceLevel = options.serviceLevels?.[item];
+    const levels = withServiceLevel(quantiles, serviceLevel);
+
+    if (isIntermittent(demand)) {
+      const elasticity = fitPriceElasticity([], eventModel, priceIndex[item]);
+      predictions[item] = {
+        ...splitPrepQuantity(
+          intermittentForecast(
+            itemData[item],
+            targetDay,
+            fitIntermittentModel(demand, options.intermittentMethod),
+            levels,
+            forecastDrivers(
+              eventModel,
+              withPromotions(eventIndex, promotionIndex[item], elasticity),
+              targetDay,
+              outliers[item]
+            )
+          ),
+          quantiles,
+          serviceLevel
+        ),
+        lowConfidence,
+      };
+      return;
+    }
+
+    const replay = replayEnsemble(eventModel.regular, parameters);
+    const weatherModel = fitWeatherModel(replay, weatherIndex);
+    const elasticity = fitPriceElasticity(replay, eventModel, priceIndex[item]);
+    predictions[item] = {
+      ...splitPrepQuantity(
+        forecastItem(
+          eventModel.regular,
+          targetDay,
+          replayResiduals(replay, weatherModel, weatherIndex),
+          levels,
+          parameters,
+          forecastDrivers(
+            eventModel,
+            withPromotions(eventIndex, promotionIndex[item], elasticity),
+            targetDay,
+            outliers[item],
+            weatherAdjustment(weatherModel, weatherIndex[targetDay])
+          ),
+          options.priors?.[item]
+        ),
+        quantiles,
+        serviceLevel
+      ),
+      probabilityOfSale: saleProbability(demand),
+      demandPattern: "smooth",
+      lowConfidence,
+    };
+  });
+
+  return predictions;
+}
+
+/**
+ * Multi-day forecast: a dated series per item for `days` consecutive days
+ * starting at `startDate` (YYYY-MM-DD). Day-of-week and trend components are
+ * projected to each target date; intervals widen with distance from the last
+ * observation.
+ */
+export function horizonForecast(
+  historicalData: SalesRecord[],
+  startDate: string,
+  days: number,
+  options: ForecastOptions = {}
+): HorizonForecastResult {
+  const quantiles = normalizeQuantiles(options.quantiles);
+  const eventIndex = indexEvents(options.events);
+  const promotionIndex = indexPromotions(options.promotions);
+  const priceIndex = indexPrices(options.prices);
+  const itemData = buildTrainingSeries(historicalData, eventIndex, options);
+  const outliers = outlierAdjustments(historicalData, itemData, options);
+  const weatherIndex = indexWeather(options.weather);
+
+  const predictions: HorizonForecastResult = {};
+
+  Object.keys(itemData).forEach((item) => {
+    const parameters = resolveParameters(options, item);
+    const itemEvents = withPromotions(eventIndex, promotionIndex[item]);
+    const eventModel = fitEventModel(itemData[item], parameters, itemEvents);
+    const demand = dailyDemand(itemData[item], itemEvents);
+    const targetDates = Array.from({ length: days }, (_, offset) =>
+      addDaysToDateString(startDate, offset)
+    );
+    const lowConfidence = itemData[item].length < COLD_START_DAYS;
+    const serviceLevel = options.serviceLevels?.[item];
+    const levels = withServiceLevel(quantiles, serviceLevel);
+
+    // Croston/TSB forecasts are flat over the horizon, apart from events
+    if (isIntermittent(demand)) {
+      const model = fitIntermittentModel(demand, options.intermittentMethod);
+      const targetEvents = withPromotions(
+        eventIndex,
+        promotionIndex[item],
+        fitPriceElasticity([], eventModel, priceIndex[item])
+      );
+      predictions[item] = targetDates.map((date) => {
+        return {
+          date,
+          ...splitPrepQuantity(
+            intermittentForecast(
+              itemData[item],
+              date,
+              model,
+              levels,
+              forecastDrivers(eventModel, targetEvents, date, outliers[item])
+            ),
+            quantiles,
+            serviceLevel
+          ),
+          lowConfidence,
+        };
+      });
+      return;
+    }
+
+    // Residual replay is the expensive part, so it's shared across the horizon
+    const replay = replayEnsemble(eventModel.regular, parameters);
+    const weatherModel = fitWeatherModel(replay, weatherIndex);
+    const residuals = replayResiduals(replay, weatherModel, weatherIndex);
+    const probabilityOfSale = saleProbability(demand);
+    const targetEvents = withPromotions(
+      eventIndex,
+      promotionIndex[item],
+      fitPriceElasticity(replay, eventModel, priceIndex[item])
+    );
+
+    predictions[item] = targetDates.map((date) => {
+      return {
+        date,
+        ...splitPrepQuantity(
+          forecastItem(
+            eventModel.regular,
+            date,
+            residuals,
+            levels,
+            parameters,
+            forecastDrivers(
+              eventModel,
+              targetEvents,
+              date,
+              outliers[item],
+              weatherAdjustment(weatherModel, weatherIndex[date])
+            ),
+            options.priors?.[item]
+          ),
+          quantiles,
+          serviceLevel
+        ),
+        probabilityOfSale,
+        demandPattern: "smooth",
+        lowConfidence,
+      };
+    });
+  });
+
+  return predictions;
+}
+
+/**
+ * Multi-day forecast of items, their categories and the location total that
+ * add up: each level is forecast from its own aggregated history, then the
+ * item forecasts are reconciled (`method`) and the totals summed from them
+ * Items missing from `categories` fall under UNCATEGORIZED. Aggregate
+ * intervals are their own level's, moved to the reconciled total. Pending
+ * scheduled orders are added to every level after reconciliation.
+ */
+export function hierarchicalForecast(
+  historicalData: SalesRecord[],
+  startDate: string,
+  days: number,
+  categories: { [item: string]: string },
+  options: ForecastOptions = {},
+  method: ReconciliationMethod = "mint"
+): HierarchicalForecastResult {
+  const categoryOf = (item: string) => categories[item] || UNCATEGORIZED;
+  const items = horizonForecast(historicalData, startDate, days, options);
+  const itemNames = Object.keys(items);
+  if (itemNames.length === 0) return { items, categories: {}, total: [] };
+
+  // Per-item options (parameters, priors, reviews) don't apply to aggregates;
+  // confirmed outliers are dropped from them instead. Promotions move their
+  // category and the total too, by uplifts learned at that level.
+  const confirmed = new Set(
+    (options.outlierReviews || [])
+      .filter((review) => review.status === "confirmed")
+      .map((review) => `${review.item}|${review.date}`)
+  );
+  const cleanData = historicalData.filter(
+    (record) => !confirmed.has(`${record.item}|${record.date}`)
+  );
+  const aggregateOptions: ForecastOptions = {
+    quantiles: options.quantiles,
+    parameters: options.parameters,
+    events: options.events,
+    promotions: (options.promotions || []).flatMap((promotion) =>
+      [categoryOf(promotion.item), TOTAL_NODE].map((node) => ({
+        key: promotion.key,
+        name: promotion.name,
+        item: node,
+        date: promotion.date,
+      }))
+    ),
+    weather: options.weather,
+    capOutliers: options.capOutliers,
+    closedDays: options.closedDays,
+  };
+  const categoryData = cleanData.map((record) => ({
+    ...record,
+    item: categoryOf(record.item),
+  }));
+  const totalData = cleanData.map((record) => ({
+    ...record,
+    item: TOTAL_NODE,
+  }));
+  const categoryBase = horizonForecast(
+    categoryData,
+    startDate,
+    days,
+    aggregateOptions
+  );
+  const totalBase = horizonForecast(
+    totalData,
+    startDate,
+    days,
+    aggregateOptions
+  )[TOTAL_NODE];
+  const categoryNames = Object.keys(categoryBase);
+
+  // MinT weights: one-step error variance of every node
+  const eventIndex = indexEvents(options.events);
+  const variance = (
+    data: SalesRecord[],
+    nodeOptions: ForecastOptions,
+    node: string
+  ) =>
+    forecastVariance(
+      buildTrainingSeries(data, eventIndex, nodeOptions)[node] || [],
+      resolveParameters(nodeOptions, node),
+      withPromotions(eventIndex, indexPromotions(nodeOptions.promotions)[node])
+    );
+  const itemVariance =
+    method === "mint"
+      ? itemNames.map((item) => variance(historicalData, options, item))
+      : [];
+  const categoryVariance: { [category: string]: number } = {};
+  if (method === "mint") {
+    categoryNames.forEach((category) => {
+      categoryVariance[category] = variance(
+        categoryData,
+        aggregateOptions,
+        category
+      );
+    });
+  }
+  const totalVariance =
+    method === "mint" ? variance(totalData, aggregateOptions, TOTAL_NODE) : 1;
+
+  const result: HierarchicalForecastResult = {
+    items,
+    categories: {},
+    total: [],
+  };
+  categoryNames.forEach((category) => {
+    result.categories[category] = [];
+  });
+
+  for (let d = 0; d < days; d++) {
+    const baseItems = itemNames.map((item) => items[item][d].forecast);
+    const reconciled =
+      method === "mint"
+        ? reconcileMinT(
+            baseItems,
+            itemVariance,
+            itemNames.map(categoryOf),
+            categoryNames.map((category) => categoryBase[category][d].forecast),
+            categoryNames.map((category) => categoryVariance[category]),
+            categoryNames,
+            totalBase[d].forecast,
+            totalVariance
+          ).map((value) => Math.max(0, Math.round(value)))
+        : baseItems;
+
+    const categoryTotals: { [category: string]: number } = {};
+    itemNames.forEach((item, idx) => {
+      const base = items[item][d];
+      const delta = reconciled[idx] - base.forecast;
+      items[item][d] = {
+        ...base,
+        forecast: reconciled[idx],
+        quantiles: shiftQuantiles(base.quantiles, delta),
+        explanation: { ...base.explanation, reconciliation: delta },
+      };
+      if (base.prepQuantity !== undefined) {
+        items[item][d].prepQuantity = Math.max(
+          0,
+          Math.round(base.prepQuantity + delta)
+        );
+      }
+      const category = categoryOf(item);
+      categoryTotals[category] =
+        (categoryTotals[category] || 0) + reconciled[idx];
+    });
+
+    categoryNames.forEach((category) => {
+      const base = categoryBase[category][d];
+      const forecast = categoryTotals[category] || 0;
+      result.categories[category].push({
+        date: base.date,
+        forecast,
+        quantiles: shiftQuantiles(base.quantiles, forecast - base.forecast),
+      });
+    });
+
+    const total = reconciled.reduce((acc, value) => acc + value, 0);
+    result.total.push({
+      date: totalBase[d].date,
+      forecast: total,
+      quantiles: shiftQuantiles(
+        totalBase[d].quantiles,
+        total - totalBase[d].forecast
+      ),
+    });
+  }
+
+  if (options.scheduledOrders && options.scheduledOrders.length > 0) {
+    addScheduledOrders(
+      result,
+      options.scheduledOrders,
+      categoryOf,
+      result.total.map((dayForecast) => dayForecast.date),
+      normalizeQuantiles(options.quantiles)
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Add known orders on top of reconciled forecasts, at every level
+ * Ordered units are certain: the interval and prep quantity move by all of
+ * them and the item is sure to sell. Items only sold through orders get a
+ * forecast of their orders alone (zero on the other days).
+ */
+function addScheduledOrders(
+  result: HierarchicalForecastResult,
+  orders: ScheduledOrder[],
+  categoryOf: (item: string) => string,
+  dates: string[],
+  quantiles: number[]
+): void {
+  const zeroQuantiles: { [key: string]: number } = {};
+  quantiles.forEach((q) => {
+    zeroQuantiles[quantileKey(q)] = 0;
+  });
+  const addTo = (series: AggregateForecast[], d: number, quantity: number) => {
+    series[d] = {
+      ...series[d],
+      forecast: series[d].forecast + quantity,
+      quantiles: shiftQuantiles(series[d].quantiles, quantity),
+    };
+  };
+
+  dates.forEach((date, d) => {
+    const ordered: { [item: string]: number } = {};
+    orders.forEach((order) => {
+      if (order.date !== date || order.quantity <= 0) return;
+      ordered[order.item] = (ordered[order.item] || 0) + order.quantity;
+    });
+
+    Object.entries(ordered).forEach(([item, quantity]) => {
+      if (!result.items[item]) {
+        result.items[item] = dates.map((day) => ({
+          date: day,
+          forecast: 0,
+          quantiles: zeroQuantiles,
+          probabilityOfSale: 0,
+          demandPattern: "intermittent",
+          lowConfidence: false,
+          explanation: {
+            dayOfWeek: getDayOfWeek(day),
+            methods: {},
+            ensemble: 0,
+            baseline: 0,
+            weekdayEffect: 0,
+            trendSlope: 0,
+            prior: null,
+            intermittent: null,
+            events: [],
+            eventUplift: 1,
+            weatherAdjustment: 1,
+            outliers: { capped: 0, excluded: 0 },
+            reconciliation: 0,
+          },
+        }));
+      }
+
+      const base = result.items[item][d];
+      result.items[item][d] = {
+        ...base,
+        forecast: base.forecast + quantity,
+        quantiles: shiftQuantiles(base.quantiles, quantity),
+        probabilityOfSale: 1,
+        explanation: { ...base.explanation, scheduled: quantity },
+      };
+      if (base.prepQuantity !== undefined) {
+        result.items[item][d].prepQuantity = base.prepQuantity + quantity;
+      }
+
+      const category = categoryOf(item);
+      if (!result.categories[category]) {
+        result.categories[category] = dates.map((day) => ({
+          date: day,
+          forecast: 0,
+          quantiles: zeroQuantiles,
+        }));
+      }
+      addTo(result.categories[category], d, quantity);
+      addTo(result.total, d, quantity);
+    });
+  });
+}
+
+/**
+ * MinT (diagonal W) reconciliation of one date: the bottom-level forecasts
+ * b = (S'W^-1 S)^-1 S'W^-1 y, where y stacks the item, category and total
+ * forecasts and S maps items to every node
+ */
+function reconcileMinT(
+  items: number[],
+  itemVariance: number[],
+  itemCategories: string[],
+  categories: number[],
+  categoryVariance: number[],
+  categoryNames: string[],
+  total: number,
+  totalVariance: number
+): number[] {
+  const m = items.length;
+  const categoryIndex = itemCategories.map((category) =>
+    categoryNames.indexOf(category)
+  );
+
+  const matrix: number[][] = [];
+  const rhs: number[] = [];
+  for (let i = 0; i < m; i++) {
+    const ci = categoryIndex[i];
+    matrix.push(
+      Array.from(
+        { length: m },
+        (_, j) =>
+          (i === j ? 1 / itemVariance[i] : 0) +
+          (ci >= 0 && categoryIndex[j] === ci ? 1 / categoryVariance[ci] : 0) +
+          1 / totalVariance
+      )
+    );
+    rhs.push(
+      items[i] / itemVariance[i] +
+        (ci >= 0 ? categories[ci] / categoryVariance[ci] : 0) +
+        total / totalVariance
+    );
+  }
+
+  return solveLinearSystem(matrix, rhs);
+}
+
+/**
+ * Solve A x = b by Gaussian elimination with partial pivoting
+ */
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+/**
+ * One-step-ahead error variance (mean squared replay error) of a series,
+ * or its variance when it's too short to replay; at least 1 unit²
+ */
+function forecastVariance(
+  timeSeries: TimeSeriesData[],
+  parameters: ModelParameters,
+  eventIndex: EventIndex
+): number {
+  const { regular } = fitEventModel(timeSeries, parameters, eventIndex);
+  const errors = replayEnsemble(regular, parameters).map(
+    ({ point, predicted }) => point.quantity - predicted
+  );
+
+  if (errors.length >= MIN_RESIDUALS) {
+    return Math.max(
+      1,
+      errors.reduce((acc, error) => acc + error * error, 0) / errors.length
+    );
+  }
+  return Math.max(
+    1,
+    standardDeviation(regular.map((point) => point.quantity)) ** 2
+  );
+}
+
+/**
+ * Quantile levels to compute for an item: the requested ones, plus its
+ * service level if it has one
+ */
+function withServiceLevel(quantiles: number[], serviceLevel?: number) {
+  return serviceLevel === undefined
+    ? quantiles
+    : normalizeQuantiles([...quantiles, serviceLevel]);
+}
+
+/**
+ * Take the service-level quantile out of a forecast's quantiles (unless it was
+ * requested too) and return it as the prep quantity
+ */
+function splitPrepQuantity<T extends Pick<ItemForecast, "quantiles">>(
+  forecast: T,
+  quantiles: number[],
+  serviceLevel?: number
+): T & Pick<ItemForecast, "prepQuantity"> {
+  if (serviceLevel === undefined) return forecast;
+
+  const key = quantileKey(serviceLevel);
+  const requested: { [key: string]: number } = {};
+  quantiles.forEach((q) => {
+    requested[quantileKey(q)] = forecast.quantiles[quantileKey(q)];
+  });
+
+  return {
+    ...forecast,
+    quantiles: requested,
+    prepQuantity: forecast.quantiles[key],
+  };
+}
+
+/**
+ * Move quantiles by `delta` units, never below zero
+ */
+function shiftQuantiles(
+  quantiles: { [key: string]: number },
+  delta: number
+): { [key: string]: number } {
+  if (delta === 0) return quantiles;
+
+  const shifted: { [key: string]: number } = {};
+  Object.entries(quantiles).forEach(([key, value]) => {
+    shifted[key] = Math.max(0, Math.round(value + delta));
+  });
+  return shifted;
+}
+
+/**
+ * Group records by item into date-sorted time series with trend positions
+ * Sales recorded on `closedDays` are dropped, so those days are never
+ * trading days.
+ */
+function buildItemSeries(
+  historicalData: SalesRecord[],
+  closedDays?: string[]
+): {
+  [item: string]: TimeSeriesData[];
+} {
+  const itemData: { [item: string]: TimeSeriesData[] } = {};
+  const { tradingDays, sold } = dailySales(
+    withoutClosedDays(historicalData, closedDays)
+  );
+
+  Object.keys(sold).forEach((item) => {
+    // Densify from the item's first sale: a trading day without the item is a
+    // true zero; days without any sales are missing and left out
+    const firstDay = Object.keys(sold[item]).sort()[0];
+    itemData[item] = tradingDays
+      .filter((day) => day >= firstDay)
+      .map((day) => ({
+        day,
+        quantity: sold[item][day] || 0,
+        dayOfWeek: getDayOfWeek(day),
+        weekOfYear: getWeekOfYear(day),
+        // Days since start for trend analysis
+        daysSinceStart: daysBetween(firstDay, day) + 1,
+      }));
+  });
+
+  return itemData;
+}
+
+/**
+ * Item series as trained on: closed days and days before the item's
+ * options.historyStarts are dropped, confirmed outliers are removed, and
+ * unreviewed ones capped unless options.capOutliers is false
+ */
+function buildTrainingSeries(
+  historicalData: SalesRecord[],
+  eventIndex: EventIndex,
+  options: ForecastOptions
+): { [item: string]: TimeSeriesData[] } {
+  const itemData = buildItemSeries(historicalData, options.closedDays);
+  const reviews: { [key: string]: OutlierStatus } = {};
+  (options.outlierReviews || []).forEach((review) => {
+    reviews[`${review.item}|${review.date}`] = review.status;
+  });
+  const capOutliers = options.capOutliers ?? true;
+  const promotionIndex = indexPromotions(options.promotions);
+
+  Object.keys(itemData).forEach((item) => {
+    // Ignored when no sales are left from the start, so the item isn't dropped
+    const historyStart = options.historyStarts?.[item];
+    if (
+      historyStart &&
+      itemData[item].some((point) => point.day >= historyStart)
+    ) {
+      itemData[item] = itemData[item].filter(
+        (point) => point.day >= historyStart
+      );
+    }
+
+    const caps: { [day: string]: number } = {};
+    if (capOutliers) {
+      itemOutliers(
+        item,
+        itemData[item],
+        withPromotions(eventIndex, promotionIndex[item])
+      ).forEach((outlier) => {
+        caps[outlier.date] = outlier.cap;
+      });
+    }
+
+    const cleaned: TimeSeriesData[] = [];
+    itemData[item].forEach((point) => {
+      const status = reviews[`${item}|${point.day}`];
+      if (status === "confirmed") return;
+      if (status !== "rejected" && caps[point.day] !== undefined) {
+        cleaned.push({ ...point, quantity: caps[point.day] });
+        return;
+      }
+      cleaned.push(point);
+    });
+
+    if (cleaned.length > 0) {
+      itemData[item] = cleaned;
+    } else {
+      delete itemData[item];
+    }
+  });
+
+  return itemData;
+}
+
+/**
+ * Days whose sales are far from the same weekday in the surrounding weeks
+ * (robust z-score on the median and MAD), e.g. a catering order or a bad
+ * upload. Event days, an item's promotion days and intermittent items are
+ * never flagged, and closed days aren't looked at.
+ */
+export function detectOutliers(
+  historicalData: SalesRecord[],
+  events?: CalendarEvent[],
+  promotions?: ItemPromotion[],
+  closedDays?: string[]
+): SalesOutlier[] {
+  const eventIndex = indexEvents(events);
+  const promotionIndex = indexPromotions(promotions);
+  const itemData = buildItemSeries(historicalData, closedDays);
+
+  return Object.keys(itemData)
+    .flatMap((item) =>
+      itemOutliers(
+        item,
+        itemData[item],
+        withPromotions(eventIndex, promotionIndex[item])
+      )
+    )
+    .sort(
+      (a, b) => a.date.localeCompare(b.date) || a.item.localeCompare(b.item)
+    );
+}
+
+function itemOutliers(
+  item: string,
+  timeSeries: TimeSeriesData[],
+  eventIndex: EventIndex
+): SalesOutlier[] {
+  if (isIntermittent(dailyDemand(timeSeries, eventIndex))) return [];
+
+  // Grouped by weekday: neighbors are only ever compared within one
+  const byWeekday: TimeSeriesData[][] = Array.from({ length: 7 }, () => []);
+  timeSeries.forEach((point) => {
+    if (!eventIndex[point.day]) byWeekday[point.dayOfWeek].push(point);
+  });
+  const outliers: SalesOutlier[] = [];
+
+  byWeekday.flat().forEach((point) => {
+    const neighbors = byWeekday[point.dayOfWeek]
+      .filter(
+        (p) =>
+          p !== point &&
+          Math.abs(p.daysSinceStart - point.daysSinceStart) <=
+            OUTLIER_WINDOW_DAYS
+      )
+      .map((p) => p.quantity)
+      .sort((a, b) => a - b);
+    if (neighbors.length < MIN_OUTLIER_NEIGHBORS) return;
+
+    const median = empiricalQuantile(neighbors, 0.5);
+    const deviations = neighbors
+      .map((quantity) => Math.abs(quantity - median))
+      .sort((a, b) => a - b);
+    // 1.4826 x MAD estimates the standard deviation of normal data
+    const scale = Math.max(
+      1.4826 * empiricalQuantile(deviations, 0.5),
+      MIN_OUTLIER_SCALE
+    );
+    const score = (point.quantity - median) / scale;
+    if (Math.abs(score) <= OUTLIER_THRESHOLD) return;
+
+    outliers.push({
+      date: point.day,
+      item,
+      quantity: point.quantity,
+      expected: Math.round(median * 10) / 10,
+      score: Math.round(score * 10) / 10,
+      cap: Math.max(
+        0,
+        Math.round(median + Math.sign(score) * OUTLIER_THRESHOLD * scale)
+      ),
+    });
+  });
+
+  return outliers;
+}
+
+/**
+ * Lasting changes in items' level of sales (a new competitor, a menu
+ * redesign), which the ensemble takes weeks to catch up with: per item, the
+ * change point in the latest SHIFT_LOOKBACK_DAYS trading days whose days
+ * since differ most from the weekday means of the weeks before, beyond
+ * SHIFT_THRESHOLD standard errors and MIN_SHIFT_CHANGE, with the last week
+ * still at the new level. Event and promotion days, closed days and
+ * confirmed outliers are left out, and intermittent items are never flagged.
+ * Only days from an item's options.historyStarts on are looked at, so a
+ * recorded shift isn't found again.
+ */
+export function detectDemandShifts(
+  historicalData: SalesRecord[],
+  options: ForecastOptions = {}
+): DemandShift[] {
+  const eventIndex = indexEvents(options.events);
+  const promotionIndex = indexPromotions(options.promotions);
+  const confirmed = new Set(
+    (options.outlierReviews || [])
+      .filter((review) => review.status === "confirmed")
+      .map((review) => `${review.item}|${review.date}`)
+  );
+  const itemData = buildItemSeries(historicalData, options.closedDays);
+  const { sold } = dailySales(
+    withoutClosedDays(historicalData, options.closedDays)
+  );
+  const locationTotals: { [day: string]: number } = {};
+  Object.values(sold).forEach((days) => {
+    Object.entries(days).forEach(([day, quantity]) => {
+      locationTotals[day] = (locationTotals[day] || 0) + quantity;
+    });
+  });
+
+  return Object.keys(itemData)
+    .flatMap((item): DemandShift[] => {
+      const itemEvents = withPromotions(eventIndex, promotionIndex[item]);
+      if (isIntermittent(dailyDemand(itemData[item], itemEvents))) return [];
+
+      const historyStart = options.historyStarts?.[item] || "";
+      const shift = itemShift(
+        itemData[item].filter(
+          (point) =>
+            point.day >= historyStart &&
+            !itemEvents[point.day] &&
+            !confirmed.has(`${item}|${point.day}`)
+        )
+      );
+      if (!shift) return [];
+
+      const units = (points: TimeSeriesData[]) =>
+        points.reduce((acc, point) => acc + point.quantity, 0);
+      const share = (points: TimeSeriesData[]) => {
+        const total = points.reduce(
+          (acc, point) => acc + (locationTotals[point.day] || 0),
+          0
+        );
+        return total > 0 ? units(points) / total : 0;
+      };
+      const shareBefore = share(shift.baseline);
+      const shareAfter = share(shift.since);
+
+      return [
+        {
+          item,
+          date: shift.since[0].day,
+          before: roundTo(units(shift.baseline) / shift.baseline.length, 1),
+          after: roundTo(units(shift.since) / shift.since.length, 1),
+          score: roundTo(shift.score, 1),
+          shareBefore: roundTo(shareBefore, 3),
+          shareAfter: roundTo(shareAfter, 3),
+          mixShift:
+            Math.abs(relativeChange(shareAfter, shareBefore)) >=
+            MIN_SHIFT_CHANGE,
+        },
+      ];
+    })
+    .sort(
+      (a, b) => a.date.localeCompare(b.date) || a.item.localeCompare(b.item)
+    );
+}
+
+/**
+ * Most likely change point of a series (see detectDemandShifts): the days
+ * before it, the days since and the z-score of the mean change, or null
+ */
+function itemShift(timeSeries: TimeSeriesData[]): {
+  baseline: TimeSeriesData[];
+  since: TimeSeriesData[];
+  score: number;
+} | null {
+  // Units above (or below) the baseline's weekday means, and that share of them
+  const excess = (points: TimeSeriesData[], means: number[]) => {
+    const actual = points.reduce((acc, point) => acc + point.quantity, 0);
+    const expected = points.reduce(
+      (acc, point) => acc + means[point.dayOfWeek],
+      0
+    );
+    return {
+      perDay: (actual - expected) / points.length,
+      change: relativeChange(actual, expected),
+    };
+  };
+
+  let best: {
+    baseline: TimeSeriesData[];
+    since: TimeSeriesData[];
+    score: number;
+  } | null = null;
+  const first = Math.max(
+    MIN_SHIFT_BASELINE,
+    timeSeries.length - SHIFT_LOOKBACK_DAYS
+  );
+
+  for (let c = first; c <= timeSeries.length - MIN_SHIFT_DAYS; c++) {
+    const baseline = timeSeries.slice(Math.max(0, c - SHIFT_BASELINE_DAYS), c);
+    const since = timeSeries.slice(c);
+    const means = weekdayMeans(baseline);
+    const scale = Math.max(
+      standardDeviation(
+        baseline.map((point) => point.quantity - means[point.dayOfWeek])
+      ),
+      MIN_SHIFT_SCALE
+    );
+
+    const { perDay, change } = excess(since, means);
+    const score = perDay / (scale / Math.sqrt(since.length));
+    if (Math.abs(score) <= SHIFT_THRESHOLD) continue;
+    if (Math.abs(change) < MIN_SHIFT_CHANGE) continue;
+
+    // Still at the new level, not a few unusual weeks that have passed
+    const recent = excess(since.slice(-SHIFT_RECENT_DAYS), means);
+    if (
+      Math.sign(recent.change) !== Math.sign(change) ||
+      Math.abs(recent.change) < MIN_SHIFT_CHANGE
+    ) {
+      continue;
+    }
+
+    if (!best || Math.abs(score) > Math.abs(best.score)) {
+      best = { baseline, since, score };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Relative change from `expected` to `actual` (0.25 = 25% more); any sales
+ * over an expected 0 count as an unbounded rise
+ */
+function relativeChange(actual: number, expected: number): number {
+  if (expected > 0) return actual / expected - 1;
+  return actual > 0 ? Infinity : 0;
+}
+
+/**
+ * Units sold per item and day, and the days with any sales at the location
+ * (sorted). Several records of an item on the same day are summed.
+ */
+function dailySales(historicalData: SalesRecord[]): {
+  tradingDays: string[];
+  sold: { [item: string]: { [day: string]: number } };
+} {
+  const sold: { [item: string]: { [day: string]: number } } = {};
+  const tradingDays = new Set<string>();
+
+  historicalData.forEach((record) => {
+    const day = record.date.slice(0, 10);
+    tradingDays.add(day);
+    if (!sold[record.item]) sold[record.item] = {};
+    sold[record.item][day] = (sold[record.item][day] || 0) + record.quantity;
+  });
+
+  return { tradingDays: Array.from(tradingDays).sort(), sold };
+}
+
+function withoutClosedDays(
+  historicalData: SalesRecord[],
+  closedDays?: string[]
+): SalesRecord[] {
+  if (!closedDays || closedDays.length === 0) return historicalData;
+
+  const closed = new Set(closedDays);
+  return historicalData.filter(
+    (record) => !closed.has(record.date.slice(0, 10))
+  );
+}
+
+/**
+ * Data coverage per item since its first sale, over the location's open days
+ * `openDays` (YYYY-MM-DD) defaults to every calendar day on a weekday the
+ * location has ever traded; an open day without any sales is missing data
+ */
+export function dataCoverage(
+  historicalData: SalesRecord[],
+  openDays?: string[]
+): { [item: string]: DataCoverage } {
+  const { tradingDays, sold } = dailySales(historicalData);
+  if (tradingDays.length === 0) return {};
+
+  const trading = new Set(tradingDays);
+  const open = openDays
+    ? [...openDays].sort()
+    : defaultOpenDays(
+        tradingDays[0],
+        tradingDays[tradingDays.length - 1],
+        trading
+      );
+
+  const coverage: { [item: string]: DataCoverage } = {};
+  Object.keys(sold).forEach((item) => {
+    const firstDay = Object.keys(sold[item]).sort()[0];
+    const itemOpenDays = open.filter((day) => day >= firstDay);
+
+    const salesDays = Object.values(sold[item]).filter((q) => q > 0).length;
+    const observedDays = itemOpenDays.filter((day) => trading.has(day)).length;
+    // Trading days the item didn't sell (or sold 0, if rows record zeros)
+    const zeroDays = tradingDays.filter(
+      (day) => day >= firstDay && !(sold[item][day] > 0)
+    ).length;
+    const missingDays = itemOpenDays.length - observedDays;
+
+    coverage[item] = {
+      openDays: itemOpenDays.length,
+      salesDays,
+      zeroDays,
+      missingDays,
+      coverage:
+        itemOpenDays.length > 0 ? observedDays / itemOpenDays.length : 1,
+    };
+  });
+
+  return coverage;
+}
+
+/**
+ * Calendar days between two dates (inclusive) on weekdays with any trading
+ */
+function defaultOpenDays(
+  startDay: string,
+  endDay: string,
+  trading: Set<string>
+): string[] {
+  const openWeekdays = new Set(Array.from(trading).map(getDayOfWeek));
+
+  const days: string[] = [];
+  let day = startDay;
+  while (day <= endDay) {
+    if (openWeekdays.has(getDayOfWeek(day))) days.push(day);
+    day = addDaysToDateString(day, 1);
+  }
+
+  return days;
+}
+
+/**
+ * Point and quantile forecast of one item for a target date
+ * The drivers' event uplift and weather adjustment scale the ensemble and its
+ * interval; a `prior` is blended in while the series is shorter than
+ * COLD_START_DAYS
+ */
+function forecastItem(
+  timeSeries: TimeSeriesData[],
+  target: string,
+  residuals: number[],
+  quantiles: number[],
+  parameters: ModelParameters,
+  drivers: ForecastDrivers,
+  prior?: ItemPrior
+): Pick<ItemForecast, "forecast" | "quantiles" | "explanation"> {
+  if (timeSeries.length === 0) {
+    const zeros: { [key: string]: number } = {};
+    quantiles.forEach((q) => {
+      zeros[quantileKey(q)] = 0;
+    });
+    return {
+      forecast: 0,
+      quantiles: zeros,
+      explanation: explainForecast(timeSeries, target, 0, drivers),
+    };
+  }
+
+  const lastPoint = timeSeries[timeSeries.length - 1];
+  const targetDaysSinceStart = targetPosition(timeSeries, target);
+  const stepsAhead = Math.max(
+    1,
+    targetDaysSinceStart - lastPoint.daysSinceStart
+  );
+
+  // Use ensemble of methods
+  const members = ensembleMembers(
+    timeSeries,
+    getDayOfWeek(target),
+    targetDaysSinceStart,
+    parameters
+  );
+  const combined = combineEnsemble(members, parameters.weights);
+  const explanation = explainForecast(timeSeries, target, combined, drivers);
+  FORECAST_METHODS.forEach((method, idx) => {
+    const weight = parameters.weights[idx] ?? 0;
+    explanation.methods[method] = {
+      forecast: roundTo(members[idx], 2),
+      weight,
+      contribution: roundTo(members[idx] * weight, 2),
+    };
+  });
+
+  let ensemble = combined;
+  const weight = priorWeight(timeSeries, prior);
+  if (prior && weight > 0) {
+    const priorValue = prior.weekdayMeans[getDayOfWeek(target)];
+    ensemble = (1 - weight) * ensemble + weight * priorValue;
+    explanation.prior = {
+      value: roundTo(priorValue, 2),
+      weight: roundTo(weight, 2),
+    };
+    // Disagreement with the prior widens the interval
+    members.push(priorValue);
+  }
+
+  const adjustment = drivers.eventUplift * drivers.weatherAdjustment;
+  const forecast = ensemble * adjustment;
+
+  return {
+    explanation,
+    forecast: Math.max(0, Math.round(forecast)),
+    quantiles: forecastQuantiles(
+      forecast,
+      adjustment === 1 ? members : members.map((value) => value * adjustment),
+      adjustment === 1
+        ? residuals
+        : residuals.map((value) => value * adjustment),
+      quantiles,
+      stepsAhead
+    ),
+  };
+}
+
+/**
+ * Weight of a cold-start prior: 1 without history, fading linearly to 0 at
+ * COLD_START_DAYS
+ */
+function priorWeight(timeSeries: TimeSeriesData[], prior?: ItemPrior): number {
+  if (!prior) return 0;
+  return Math.max(0, 1 - timeSeries.length / COLD_START_DAYS);
+}
+
+/**
+ * Cold-start priors for items with under COLD_START_DAYS of history, from the
+ * same item at peer locations (or the one with the most similar name)
+ * Each peer contributes its mean daily units per weekday over its last
+ * PRIOR_WINDOW_DAYS trading days; items no peer sells get no prior.
+ */
+export function peerPriors(
+  historicalData: SalesRecord[],
+  peerHistories: SalesRecord[][]
+): { [item: string]: ItemPrior } {
+  const coldItems = coldStartItems(historicalData);
+  if (coldItems.length === 0) return {};
+
+  const profiles: { [item: string]: number[][] } = {};
+  peerHistories.forEach((history) => {
+    const peerData = buildItemSeries(history);
+    const peerItems = Object.keys(peerData);
+
+    coldItems.forEach((item) => {
+      const match = mostSimilarItem(item, peerItems);
+      if (!match) return;
+
+      if (!profiles[item]) profiles[item] = [];
+      profiles[item].push(
+        weekdayMeans(peerData[match].slice(-PRIOR_WINDOW_DAYS))
+      );
+    });
+  });
+
+  const priors: { [item: string]: ItemPrior } = {};
+  Object.entries(profiles).forEach(([item, peerProfiles]) => {
+    priors[item] = {
+      weekdayMeans: Array.from(
+        { length: 7 },
+        (_, dow) =>
+          peerProfiles.reduce((acc, profile) => acc + profile[dow], 0) /
+          peerProfiles.length
+      ),
+      peers: peerProfiles.length,
+    };
+  });
+
+  return priors;
+}
+
+/**
+ * Items with under COLD_START_DAYS trading days since their first sale
+ */
+export function coldStartItems(historicalData: SalesRecord[]): string[] {
+  const itemData = buildItemSeries(historicalData);
+  return Object.keys(itemData).filter(
+    (item) => itemData[item].length < COLD_START_DAYS
+  );
+}
+
+/**
+ * Mean units per weekday; weekdays without data get the overall mean
+ */
+function weekdayMeans(timeSeries: TimeSeriesData[]): number[] {
+  const sums = new Array(7).fill(0);
+  const counts = new Array(7).fill(0);
+  timeSeries.forEach((point) => {
+    sums[point.dayOfWeek] += point.quantity;
+    counts[point.dayOfWeek] += 1;
+  });
+
+  const overall =
+    timeSeries.reduce((acc, point) => acc + point.quantity, 0) /
+    Math.max(1, timeSeries.length);
+  return sums.map((sum, dow) =>
+    counts[dow] > 0 ? sum / counts[dow] : overall
+  );
+}
+
+/**
+ * Candidate with the same name as `item`, ignoring case and accents, or else
+ * the one sharing the most words (at least MIN_NAME_SIMILARITY Jaccard)
+ */
+function mostSimilarItem(item: string, candidates: string[]): string | null {
+  const words = (name: string) =>
+    new Set(
+      name
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean)
+    );
+
+  const target = words(item);
+  let best: string | null = null;
+  let bestSimilarity = 0;
+
+  candidates.forEach((candidate) => {
+    const candidateWords = words(candidate);
+    const shared = Array.from(target).filter((word) =>
+      candidateWords.has(word)
+    ).length;
+    const union = target.size + candidateWords.size - shared;
+    const similarity = union > 0 ? shared / union : 0;
+    if (similarity >= MIN_NAME_SIMILARITY && similarity > bestSimilarity) {
+      best = candidate;
+      bestSimilarity = similarity;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Every ensemble member's forecast, plus the ensemble, per item for a target date
+ * Used to score the methods individually (see lib/backtesting.ts)
+ */
+export function methodBreakdown(
+  historicalData: SalesRecord[],
+  targetDate: string,
+  options: ForecastOptions = {}
+): { [item: string]: MethodBreakdown } {
+  const eventIndex = indexEvents(options.events);
+  const promotionIndex = indexPromotions(options.promotions);
+  const priceIndex = indexPrices(options.prices);
+  const itemData = buildTrainingSeries(historicalData, eventIndex, options);
+  const breakdown: { [item: string]: MethodBreakdown } = {};
+
+  Object.keys(itemData).forEach((item) => {
+    const parameters = resolveParameters(options, item);
+    const itemEvents = withPromotions(eventIndex, promotionIndex[item]);
+    const eventModel = fitEventModel(itemData[item], parameters, itemEvents);
+    const demand = dailyDemand(itemData[item], itemEvents);
+    const intermittent = isIntermittent(demand);
+    const members = ensembleMembers(
+      eventModel.regular,
+      getDayOfWeek(targetDate),
+      targetPosition(eventModel.regular, targetDate),
+      parameters
+    );
+
+    const methods = {} as { [method in ForecastMethod]: number };
+    FORECAST_METHODS.forEach((method, idx) => {
+      methods[method] = members[idx];
+    });
+
+    // Elasticity from event and promotion days alone: replaying every
+    // regular day in every fold would make backtests too slow
+    const targetEvents = withPromotions(
+      eventIndex,
+      promotionIndex[item],
+      fitPriceElasticity([], eventModel, priceIndex[item])
+    )[targetDate];
+    const uplift = eventUplift(eventModel, targetEvents);
+    let ensemble = combineEnsemble(members, parameters.weights);
+    const prior = options.priors?.[item];
+    const weight = priorWeight(eventModel.regular, prior);
+    if (prior && weight > 0) {
+      ensemble =
+        (1 - weight) * ensemble +
+        weight * prior.weekdayMeans[getDayOfWeek(targetDate)];
+    }
+    if (intermittent) {
+      const model = fitIntermittentModel(demand, options.intermittentMethod);
+      ensemble = model.probability * model.size;
+    }
+
+    breakdown[item] = {
+      methods,
+      ensemble: ensemble * uplift,
+      eventUplift: uplift,
+      demandPattern: intermittent ? "intermittent" : "smooth",
+    };
+  });
+
+  return breakdown;
+}
+
+/**
+ * Trend position (daysSinceStart) of a target date within a series
+ */
+function targetPosition(timeSeries: TimeSeriesData[], target: string): number {
+  // Relative to the first point's position, which is past 1 if it was filtered out
+  return daysBetween(timeSeries[0].day, target) + timeSeries[0].daysSinceStart;
 }
 
-interface TimeSeriesData {
-  date: Date;
-  quantity: number;
-  dayOfWeek: number;
-  weekOfYear: number;
-  daysSinceStart: number;
+/**
+ * Events grouped by date
+ */
+function indexEvents(events?: CalendarEvent[]): EventIndex {
+  const index: EventIndex = {};
+  (events || []).forEach((event) => {
+    if (!index[event.date]) index[event.date] = [];
+    index[event.date].push(event);
+  });
+  return index;
 }
 
 /**
- * Advanced forecasting using ensemble of methods:
- * 1. Weighted Moving Average (recent data weighted more)
- * 2. Exponential Smoothing
- * 3. Day-of-week patterns
- * 4. Linear trend
- * 5. Seasonal decomposition
+ * Promotions grouped by item and date; repeats of a promotion on the same
+ * item and date count once
  */
-export function advancedForecast(
-  historicalData: SalesRecord[],
-  targetDate?: Date
-): ForecastResult {
-  const target = targetDate || getTomorrowDate();
-  const targetDayOfWeek = target.getDay();
+function indexPromotions(promotions?: ItemPromotion[]): PromotionIndex {
+  const index: PromotionIndex = {};
+  (promotions || []).forEach((promotion) => {
+    if (!index[promotion.item]) index[promotion.item] = {};
+    const byDate = index[promotion.item];
+    if (!byDate[promotion.date]) byDate[promotion.date] = [];
+    if (byDate[promotion.date].some((p) => p.key === promotion.key)) return;
+    byDate[promotion.date].push(promotion);
+  });
+  return index;
+}
 
-  // Group data by item
-  const itemData: { [item: string]: TimeSeriesData[] } = {};
+/**
+ * Effective unit prices grouped by item and date
+ */
+function indexPrices(prices?: ItemPrice[]): PriceIndex {
+  const index: PriceIndex = {};
+  (prices || []).forEach((price) => {
+    if (!index[price.item]) index[price.item] = {};
+    index[price.item][price.date] = price.unitPriceCents;
+  });
+  return index;
+}
 
-  historicalData.forEach((record) => {
-    if (!itemData[record.item]) {
-      itemData[record.item] = [];
+/**
+ * An item's events: the location's, plus the item's promotions as events
+ * Without an expected uplift, a promotion with a known discount starts from
+ * the sales multiplier the item's price elasticity gives that discount.
+ */
+function withPromotions(
+  eventIndex: EventIndex,
+  promotions?: { [date: string]: ItemPromotion[] },
+  elasticity: number = DEFAULT_PRICE_ELASTICITY
+): EventIndex {
+  if (!promotions) return eventIndex;
+
+  const index: EventIndex = { ...eventIndex };
+  Object.entries(promotions).forEach(([date, datePromotions]) => {
+    index[date] = [
+      ...(index[date] || []),
+      ...datePromotions.map((promotion) => ({
+        key: promotion.key,
+        name: promotion.name,
+        date,
+        expectedUplift:
+          promotion.expectedUplift ??
+          (promotion.discount !== undefined && promotion.discount < 1
+            ? Math.min(MAX_EVENT_UPLIFT, (1 - promotion.discount) ** elasticity)
+            : undefined),
+      })),
+    ];
+  });
+  return index;
+}
+
+/**
+ * How an item's sales respond to its price: a regression through the origin
+ * of log sales ratios on log price ratios (against the median regular-day
+ * price), shrunk toward DEFAULT_PRICE_ELASTICITY
+ * Regular days contribute their replayed ensemble error, event and
+ * promotion days their observed ratio; days at the regular price say nothing.
+ */
+function fitPriceElasticity(
+  replay: ReplayPoint[],
+  eventModel: EventModel,
+  prices?: { [date: string]: number }
+): number {
+  if (!prices) return DEFAULT_PRICE_ELASTICITY;
+
+  const regularPrices = eventModel.regular
+    .map((point) => prices[point.day])
+    .filter((price) => price > 0)
+    .sort((a, b) => a - b);
+  if (regularPrices.length === 0) return DEFAULT_PRICE_ELASTICITY;
+  const referencePrice = empiricalQuantile(regularPrices, 0.5);
+
+  let sumXY = 0;
+  let sumXX = 0;
+  const observe = (price: number | undefined, ratio: number) => {
+    if (!price || price <= 0) return;
+    const x = Math.log(price / referencePrice);
+    if (Math.abs(x) < Math.log(1 + MIN_PRICE_CHANGE)) return;
+    const y = Math.log(
+      Math.min(MAX_EVENT_UPLIFT, Math.max(1 / MAX_EVENT_UPLIFT, ratio))
+    );
+    sumXY += x * y;
+    sumXX += x * x;
+  };
+
+  replay.forEach(({ point, predicted }) => {
+    // A ratio against (almost) nothing says nothing about the price
+    if (predicted >= 1) observe(prices[point.day], point.quantity / predicted);
+  });
+  Object.entries(eventModel.dayRatios).forEach(([day, ratio]) => {
+    observe(prices[day], ratio);
+  });
+
+  const elasticity =
+    (sumXY + PRICE_RIDGE * DEFAULT_PRICE_ELASTICITY) / (sumXX + PRICE_RIDGE);
+  return Math.min(0, Math.max(MIN_PRICE_ELASTICITY, elasticity));
+}
+
+/**
+ * Separate event days from an item's series and learn how each event moved
+ * sales: every past occurrence is compared with what the ensemble would have
+ * forecast from the regular days before it
+ */
+function fitEventModel(
+  timeSeries: TimeSeriesData[],
+  parameters: ModelParameters,
+  eventIndex: EventIndex
+): EventModel {
+  const regular = timeSeries.filter((point) => !eventIndex[point.day]);
+  const ratios: { [key: string]: number[] } = {};
+  const dayRatios: { [day: string]: number } = {};
+
+  // Too few regular days to train on: treat events as regular days
+  if (regular.length < MIN_RESIDUAL_HISTORY) {
+    return { regular: timeSeries, ratios, dayRatios };
+  }
+
+  timeSeries.forEach((point) => {
+    const events = eventIndex[point.day];
+    if (!events) return;
+
+    const history = regular.filter((p) => p.day < point.day);
+    if (history.length < MIN_RESIDUAL_HISTORY) return;
+
+    const baseline = combineEnsemble(
+      ensembleMembers(
+        history,
+        point.dayOfWeek,
+        point.daysSinceStart,
+        parameters
+      ),
+      parameters.weights
+    );
+    // A ratio against (almost) nothing says nothing about the event
+    if (baseline < 1) return;
+
+    const ratio = Math.min(MAX_EVENT_UPLIFT, point.quantity / baseline);
+    dayRatios[point.day] = ratio;
+    events.forEach((event) => {
+      if (!ratios[event.key]) ratios[event.key] = [];
+      ratios[event.key].push(ratio);
+    });
+  });
+
+  return { regular, ratios, dayRatios };
+}
+
+/**
+ * Sales multiplier for a target date's events
+ * Each event's observed ratios are averaged with EVENT_PRIOR_WEIGHT
+ * pseudo-occurrences at its prior; when several events share the date the one
+ * that moves sales the most wins
+ */
+function eventUplift(model: EventModel, events?: CalendarEvent[]): number {
+  if (!events || events.length === 0) return 1;
+
+  let uplift = 1;
+  events.forEach((event) => {
+    const observed = model.ratios[event.key] || [];
+    const prior = event.expectedUplift ?? 1;
+    const estimate =
+      (observed.reduce((acc, ratio) => acc + ratio, 0) +
+        EVENT_PRIOR_WEIGHT * prior) /
+      (observed.length + EVENT_PRIOR_WEIGHT);
+
+    if (Math.abs(Math.log(estimate)) > Math.abs(Math.log(uplift))) {
+      uplift = estimate;
     }
+  });
+
+  return uplift;
+}
+
+/**
+ * Forecasts of each ensemble member for a target point
+ */
+function ensembleMembers(
+  timeSeries: TimeSeriesData[],
+  targetDayOfWeek: number,
+  targetDaysSinceStart: number,
+  parameters: ModelParameters
+): number[] {
+  return [
+    weightedMovingAverage(timeSeries, parameters.recentWeight),
+    exponentialSmoothing(timeSeries, parameters.alpha),
+    dayOfWeekPattern(timeSeries, targetDayOfWeek),
+    linearTrendForecast(timeSeries, targetDaysSinceStart),
+    holtWinters(
+      timeSeries,
+      targetDayOfWeek,
+      targetDaysSinceStart,
+      parameters.seasonality
+    ),
+  ];
+}
+
+/**
+ * Weighted ensemble of member forecasts (unrounded)
+ */
+function combineEnsemble(members: number[], weights: number[]): number {
+  let forecast = 0;
+  members.forEach((value, idx) => {
+    forecast += value * (weights[idx] ?? 0);
+  });
+  return forecast;
+}
+
+/**
+ * Parameters for an item: per-item override, then shared, then defaults
+ */
+function resolveParameters(
+  options: ForecastOptions,
+  item: string
+): ModelParameters {
+  return (
+    options.itemParameters?.[item] ||
+    options.parameters ||
+    DEFAULT_MODEL_PARAMETERS
+  );
+}
+
+/**
+ * Sorted quantile probabilities, defaulting to P10/P50/P90
+ */
+function normalizeQuantiles(quantiles?: number[]): number[] {
+  return [...(quantiles || DEFAULT_QUANTILES)].sort((a, b) => a - b);
+}
+
+/**
+ * One-step-ahead ensemble forecasts of recent history, each point forecast
+ * only from the points before it
+ */
+function replayEnsemble(
+  timeSeries: TimeSeriesData[],
+  parameters: ModelParameters
+): ReplayPoint[] {
+  const replay: ReplayPoint[] = [];
+  const start = Math.max(
+    MIN_RESIDUAL_HISTORY,
+    timeSeries.length - MAX_RESIDUALS
+  );
+
+  for (let i = start; i < timeSeries.length; i++) {
+    const history = timeSeries.slice(0, i);
+    const actual = timeSeries[i];
+    const predicted = combineEnsemble(
+      ensembleMembers(
+        history,
+        actual.dayOfWeek,
+        actual.daysSinceStart,
+        parameters
+      ),
+      parameters.weights
+    );
+    replay.push({ point: actual, predicted });
+  }
+
+  return replay;
+}
+
+/**
+ * Replay residuals (actual - forecast), with the forecast weather-adjusted
+ * when there is a weather model so intervals don't absorb the weather effect
+ */
+function replayResiduals(
+  replay: ReplayPoint[],
+  weatherModel: WeatherModel | null,
+  weatherIndex: WeatherIndex
+): number[] {
+  return replay.map(
+    ({ point, predicted }) =>
+      point.quantity -
+      predicted * weatherAdjustment(weatherModel, weatherIndex[point.day])
+  );
+}
+
+/**
+ * An item's daily units sold (zeros included), with event days left out
+ */
+function dailyDemand(
+  timeSeries: TimeSeriesData[],
+  eventIndex: EventIndex
+): number[] {
+  return timeSeries
+    .filter((point) => !eventIndex[point.day])
+    .map((point) => point.quantity);
+}
+
+/**
+ * Whether an item sells on too few days for the averaging ensemble
+ * (average interval between sales above INTERMITTENT_ADI)
+ */
+function isIntermittent(demand: number[]): boolean {
+  const sales = demand.filter((quantity) => quantity > 0).length;
+  if (demand.length < MIN_DEMAND_HISTORY || sales === 0) return false;
+
+  return demand.length / sales > INTERMITTENT_ADI;
+}
+
+/**
+ * Share of recent trading days with a sale
+ */
+function saleProbability(demand: number[]): number {
+  const recent = demand.slice(-SALE_PROBABILITY_WINDOW);
+  if (recent.length === 0) return 1;
+
+  return recent.filter((quantity) => quantity > 0).length / recent.length;
+}
+
+/**
+ * Fit Croston or TSB to an intermittent daily demand series
+ * Croston smooths the size and the interval between sales, updating only on
+ * sale days (with the Syntetos-Boylan bias correction). TSB smooths the
+ * probability of sale every day, so it decays for items that stop selling.
+ */
+function fitIntermittentModel(
+  demand: number[],
+  method: IntermittentMethod = "tsb"
+): IntermittentModel {
+  const sizes = demand.filter((quantity) => quantity > 0).sort((a, b) => a - b);
+  const meanSize = sizes.reduce((acc, q) => acc + q, 0) / sizes.length;
+
+  let size = meanSize;
+
+  if (method === "croston") {
+    let interval = demand.length / sizes.length;
+    let sinceLastSale = 0;
+
+    demand.forEach((quantity) => {
+      sinceLastSale++;
+      if (quantity === 0) return;
 
-    const date = new Date(record.date);
-    itemData[record.item].push({
-      date,
-      quantity: record.quantity,
-      dayOfWeek: date.getDay(),
-      weekOfYear: getWeekOfYear(date),
-      daysSinceStart: 0, // Will calculate later
+      size += INTERMITTENT_ALPHA * (quantity - size);
+      interval += INTERMITTENT_ALPHA * (sinceLastSale - interval);
+      sinceLastSale = 0;
     });
+
+    return {
+      probability: Math.min(1, (1 - INTERMITTENT_ALPHA / 2) / interval),
+      size,
+      sizes,
+    };
+  }
+
+  let probability = sizes.length / demand.length;
+  demand.forEach((quantity) => {
+    if (quantity > 0) {
+      size += INTERMITTENT_ALPHA * (quantity - size);
+      probability += INTERMITTENT_BETA * (1 - probability);
+    } else {
+      probability -= INTERMITTENT_BETA * probability;
+    }
   });
 
-  const predictions: ForecastResult = {};
+  return { probability, size, sizes };
+}
+
+/**
+ * Forecast of an intermittent item: expected demand as the point forecast;
+ * quantiles are 0 up to the chance of no sale, then follow past sale sizes
+ * (scaled to the smoothed size), so upper quantiles say what to prep if it sells
+ * Only the drivers' event uplift applies; weather isn't fitted for them.
+ */
+function intermittentForecast(
+  timeSeries: TimeSeriesData[],
+  target: string,
+  model: IntermittentModel,
+  quantiles: number[],
+  drivers: ForecastDrivers
+): Omit<ItemForecast, "lowConfidence"> {
+  const adjustment = drivers.eventUplift;
+  const meanSize =
+    model.sizes.reduce((acc, q) => acc + q, 0) / model.sizes.length;
+  const sizeScale = (model.size / meanSize) * adjustment;
+  const explanation = explainForecast(
+    timeSeries,
+    target,
+    model.probability * model.size,
+    drivers
+  );
+  explanation.intermittent = {
+    probability: roundTo(model.probability, 2),
+    size: roundTo(model.size, 2),
+  };
+
+  const result: { [key: string]: number } = {};
+  quantiles.forEach((q) => {
+    const noSale = 1 - model.probability;
+    result[quantileKey(q)] =
+      q <= noSale
+        ? 0
+        : Math.max(
+            1,
+            Math.round(
+              empiricalQuantile(model.sizes, (q - noSale) / model.probability) *
+                sizeScale
+            )
+          );
+  });
+
+  return {
+    forecast: Math.max(
+      0,
+      Math.round(model.probability * model.size * adjustment)
+    ),
+    quantiles: result,
+    probabilityOfSale: model.probability,
+    demandPattern: "intermittent",
+    explanation,
+  };
+}
+
+/**
+ * Event, weather and outlier context of an item's forecast for a date
+ */
+function forecastDrivers(
+  eventModel: EventModel,
+  eventIndex: EventIndex,
+  date: string,
+  outliers: ForecastExplanation["outliers"] = { capped: 0, excluded: 0 },
+  weather: number = 1
+): ForecastDrivers {
+  return {
+    events: eventIndex[date] || [],
+    eventUplift: eventUplift(eventModel, eventIndex[date]),
+    weatherAdjustment: weather,
+    outliers,
+  };
+}
+
+/**
+ * Explanation of a forecast with everything but the ensemble members, prior,
+ * intermittent model and reconciliation, which the callers fill in
+ * The baseline and weekday effect come from the last EXPLANATION_WINDOW_DAYS
+ * regular trading days.
+ */
+function explainForecast(
+  timeSeries: TimeSeriesData[],
+  target: string,
+  ensemble: number,
+  drivers: ForecastDrivers
+): ForecastExplanation {
+  const dayOfWeek = getDayOfWeek(target);
+  const recent = timeSeries.slice(-EXPLANATION_WINDOW_DAYS);
+  const mean = (points: TimeSeriesData[]) =>
+    points.length > 0
+      ? points.reduce((acc, point) => acc + point.quantity, 0) / points.length
+      : 0;
+  const baseline = mean(recent);
+  const sameWeekday = recent.filter((point) => point.dayOfWeek === dayOfWeek);
+
+  return {
+    dayOfWeek,
+    methods: {},
+    ensemble: roundTo(ensemble, 2),
+    baseline: roundTo(baseline, 2),
+    weekdayEffect:
+      sameWeekday.length > 0 ? roundTo(mean(sameWeekday) - baseline, 2) : 0,
+    trendSlope: roundTo(linearTrendFit(timeSeries).slope, 3),
+    prior: null,
+    intermittent: null,
+    events: drivers.events.map((event) => event.name),
+    eventUplift: roundTo(drivers.eventUplift, 2),
+    weatherAdjustment: roundTo(drivers.weatherAdjustment, 2),
+    outliers: drivers.outliers,
+    reconciliation: 0,
+  };
+}
+
+/**
+ * Training days per item that were capped or left out as outliers
+ */
+function outlierAdjustments(
+  historicalData: SalesRecord[],
+  itemData: { [item: string]: TimeSeriesData[] },
+  options: ForecastOptions
+): { [item: string]: ForecastExplanation["outliers"] } {
+  const rawData = buildItemSeries(historicalData, options.closedDays);
+  const adjustments: { [item: string]: ForecastExplanation["outliers"] } = {};
 
-  // Forecast for each item
   Object.keys(itemData).forEach((item) => {
-    const timeSeries = itemData[item].sort(
-      (a, b) => a.date.getTime() - b.date.getTime()
+    const trained: { [day: string]: number } = {};
+    itemData[item].forEach((point) => {
+      trained[point.day] = point.quantity;
+    });
+
+    // Days before a history reset weren't left out for being outliers
+    const historyStart = options.historyStarts?.[item] || "";
+    const sinceStart = rawData[item].filter(
+      (point) => point.day >= historyStart
     );
+    const raw = sinceStart.length > 0 ? sinceStart : rawData[item];
 
-    if (timeSeries.length === 0) {
-      predictions[item] = 0;
-      return;
-    }
+    let capped = 0;
+    raw.forEach((point) => {
+      if (
+        trained[point.day] !== undefined &&
+        trained[point.day] !== point.quantity
+      ) {
+        capped++;
+      }
+    });
+
+    adjustments[item] = {
+      capped,
+      excluded: raw.length - itemData[item].length,
+    };
+  });
+
+  return adjustments;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Weather by date
+ */
+function indexWeather(weather?: DailyWeather[]): WeatherIndex {
+  const index: WeatherIndex = {};
+  (weather || []).forEach((day) => {
+    index[day.date] = day;
+  });
+  return index;
+}
+
+/**
+ * Learn how temperature and rain move sales from the replayed forecasts:
+ * ridge regression of the relative error (actual / forecast - 1) on the
+ * day's temperature and log1p(precipitation), both centered
+ */
+function fitWeatherModel(
+  replay: ReplayPoint[],
+  weatherIndex: WeatherIndex
+): WeatherModel | null {
+  const samples: { temperature: number; rain: number; error: number }[] = [];
+  replay.forEach(({ point, predicted }) => {
+    const weather = weatherIndex[point.day];
+    // Relative errors against (almost) nothing are just noise
+    if (!weather || predicted < 1) return;
 
-    // Calculate days since start for trend analysis
-    const startDate = timeSeries[0].date.getTime();
-    timeSeries.forEach((point) => {
-      point.daysSinceStart =
-        Math.floor((point.date.getTime() - startDate) / (1000 * 60 * 60 * 24)) +
-        1;
+    samples.push({
+      temperature: weather.temperature,
+      rain: Math.log1p(Math.max(0, weather.precipitation)),
+      error: Math.min(2, point.quantity / predicted - 1),
     });
+  });
 
-    // Use ensemble of methods
-    const methods = [
-      weightedMovingAverage(timeSeries, 0.7), // 70% weight on recent 30%
-      exponentialSmoothing(timeSeries, 0.3), // Alpha = 0.3
-      dayOfWeekPattern(timeSeries, targetDayOfWeek),
-      linearTrendForecast(timeSeries),
-    ];
+  if (samples.length < MIN_WEATHER_OBSERVATIONS) return null;
+
+  const n = samples.length;
+  const mean = (values: number[]) => values.reduce((a, v) => a + v, 0) / n;
+  const meanTemperature = mean(samples.map((s) => s.temperature));
+  const meanRain = mean(samples.map((s) => s.rain));
+  const meanError = mean(samples.map((s) => s.error));
+
+  // Standardize so one ridge penalty suits both features
+  const sdTemperature = standardDeviation(samples.map((s) => s.temperature));
+  const sdRain = standardDeviation(samples.map((s) => s.rain));
+  const z = samples.map((s) => [
+    sdTemperature > 0 ? (s.temperature - meanTemperature) / sdTemperature : 0,
+    sdRain > 0 ? (s.rain - meanRain) / sdRain : 0,
+    s.error - meanError,
+  ]);
+
+  // Normal equations: (Z'Z + ridge * n * I) b = Z'y
+  const penalty = WEATHER_RIDGE * n;
+  let s11 = penalty;
+  let s22 = penalty;
+  let s12 = 0;
+  let s1y = 0;
+  let s2y = 0;
+  z.forEach(([z1, z2, y]) => {
+    s11 += z1 * z1;
+    s22 += z2 * z2;
+    s12 += z1 * z2;
+    s1y += z1 * y;
+    s2y += z2 * y;
+  });
+
+  const determinant = s11 * s22 - s12 * s12;
+  const b1 = (s22 * s1y - s12 * s2y) / determinant;
+  const b2 = (s11 * s2y - s12 * s1y) / determinant;
+
+  return {
+    meanTemperature,
+    meanRain,
+    temperatureEffect: sdTemperature > 0 ? b1 / sdTemperature : 0,
+    rainEffect: sdRain > 0 ? b2 / sdRain : 0,
+  };
+}
+
+/**
+ * Sales multiplier for a target date's weather (1 without a model or weather)
+ */
+function weatherAdjustment(
+  model: WeatherModel | null,
+  weather?: DailyWeather
+): number {
+  if (!model || !weather) return 1;
+
+  const effect =
+    model.temperatureEffect * (weather.temperature - model.meanTemperature) +
+    model.rainEffect *
+      (Math.log1p(Math.max(0, weather.precipitation)) - model.meanRain);
+
+  return (
+    1 +
+    Math.max(-MAX_WEATHER_ADJUSTMENT, Math.min(MAX_WEATHER_ADJUSTMENT, effect))
+  );
+}
+
+/**
+ * Quantile forecasts around the point forecast
+ * Uses empirical residual quantiles when there is enough history, otherwise a
+ * normal approximation scaled by member disagreement (floored at Poisson noise).
+ * Offsets grow with sqrt(stepsAhead) since residuals are one-step-ahead.
+ */
+function forecastQuantiles(
+  forecast: number,
+  members: number[],
+  residuals: number[],
+  quantiles: number[],
+  stepsAhead: number = 1
+): { [key: string]: number } {
+  const result: { [key: string]: number } = {};
+  const horizonScale = Math.sqrt(stepsAhead);
 
-    // Weighted ensemble (you can adjust weights)
-    const weights = [0.3, 0.3, 0.25, 0.15];
-    let forecast = 0;
-    methods.forEach((value, idx) => {
-      forecast += value * weights[idx];
+  if (residuals.length >= MIN_RESIDUALS) {
+    const sorted = [...residuals].sort((a, b) => a - b);
+    quantiles.forEach((q) => {
+      result[quantileKey(q)] = Math.max(
+        0,
+        Math.round(forecast + empiricalQuantile(sorted, q) * horizonScale)
+      );
     });
+    return result;
+  }
 
-    predictions[item] = Math.max(0, Math.round(forecast));
+  const spread = Math.max(
+    standardDeviation(members),
+    Math.sqrt(Math.max(forecast, 1))
+  );
+  quantiles.forEach((q) => {
+    result[quantileKey(q)] = Math.max(
+      0,
+      Math.round(forecast + normalQuantile(q) * spread * horizonScale)
+    );
   });
+  return result;
+}
 
-  return predictions;
+/**
+ * Key used to store a quantile (0.1 -> "p10")
+ */
+export function quantileKey(q: number): string {
+  return `p${Math.round(q * 100)}`;
+}
+
+/**
+ * Empirical quantile of sorted values (linear interpolation)
+ */
+function empiricalQuantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+
+  const position = (sorted.length - 1) * Math.min(1, Math.max(0, q));
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const fraction = position - lower;
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * fraction;
+}
+
+/**
+ * Standard normal quantile (Abramowitz & Stegun 26.2.23, error < 4.5e-4)
+ */
+function normalQuantile(p: number): number {
+  const clamped = Math.min(1 - 1e-6, Math.max(1e-6, p));
+  const tail = clamped < 0.5 ? clamped : 1 - clamped;
+  const t = Math.sqrt(-2 * Math.log(tail));
+  const z =
+    t -
+    (2.515517 + 0.802853 * t + 0.010328 * t * t) /
+      (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t);
+
+  return clamped < 0.5 ? -z : z;
+}
+
+/**
+ * Population standard deviation
+ */
+function standardDeviation(values: number[]): number {
+  if (values.length === 0) return 0;
+
+  const mean = values.reduce((acc, v) => acc + v, 0) / values.length;
+  const variance =
+    values.reduce((acc, v) => acc + (v - mean) * (v - mean), 0) / values.length;
+
+  return Math.sqrt(variance);
 }
 
 /**
@@ -172,14 +2479,39 @@ function dayOfWeekPattern(
 
 /**
  * Linear Trend Forecast
- * Uses simple linear regression to predict based on trend
+ * Uses simple linear regression to predict based on trend, projected to the
+ * target position (defaults to the day after the last point)
  */
-function linearTrendForecast(timeSeries: TimeSeriesData[]): number {
+function linearTrendForecast(
+  timeSeries: TimeSeriesData[],
+  targetDaysSinceStart?: number
+): number {
   if (timeSeries.length < 2) {
     return timeSeries.length > 0 ? timeSeries[0].quantity : 0;
   }
 
   const n = timeSeries.length;
+  const { slope: m, intercept: b } = linearTrendFit(timeSeries);
+
+  // Predict for the target day (next day if not given)
+  const targetDay =
+    targetDaysSinceStart ?? timeSeries[n - 1].daysSinceStart + 1;
+  const prediction = m * targetDay + b;
+
+  return prediction;
+}
+
+/**
+ * Least-squares line y = slope * daysSinceStart + intercept
+ * Flat at the mean when there is no spread in positions (or no data)
+ */
+function linearTrendFit(timeSeries: TimeSeriesData[]): {
+  slope: number;
+  intercept: number;
+} {
+  const n = timeSeries.length;
+  if (n === 0) return { slope: 0, intercept: 0 };
+
   let sumX = 0;
   let sumY = 0;
   let sumXY = 0;
@@ -194,42 +2526,101 @@ function linearTrendForecast(timeSeries: TimeSeriesData[]): number {
     sumX2 += x * x;
   });
 
-  // Calculate slope (m) and intercept (b) for y = mx + b
   const denominator = n * sumX2 - sumX * sumX;
+  if (denominator === 0) return { slope: 0, intercept: sumY / n };
 
-  if (denominator === 0) {
-    // No trend, return average
-    return sumY / n;
+  const slope = (n * sumXY - sumX * sumY) / denominator;
+  return { slope, intercept: (sumY - slope * sumX) / n };
+}
+
+/**
+ * Holt-Winters with a 7-day season
+ * Seasonal factors are indexed by weekday and the trend is per day, so gaps in
+ * the series are bridged by projecting the level across them. Falls back to
+ * the day-of-week pattern until there are two seasons of points.
+ */
+function holtWinters(
+  timeSeries: TimeSeriesData[],
+  targetDayOfWeek: number,
+  targetDaysSinceStart: number,
+  seasonality: Seasonality = "additive"
+): number {
+  if (timeSeries.length < 2 * SEASON_LENGTH) {
+    return dayOfWeekPattern(timeSeries, targetDayOfWeek);
   }
 
-  const m = (n * sumXY - sumX * sumY) / denominator;
-  const b = (sumY - m * sumX) / n;
+  const multiplicative = seasonality === "multiplicative";
+  const mean = (
+    points: TimeSeriesData[],
+    pick: (p: TimeSeriesData) => number
+  ) => points.reduce((acc, p) => acc + pick(p), 0) / points.length;
 
-  // Predict for next day
-  const nextDay = timeSeries[n - 1].daysSinceStart + 1;
-  const prediction = m * nextDay + b;
+  // Initialize level and trend from the first two seasons of points, and each
+  // weekday's factor from how it compares with the first season's level
+  const firstSeason = timeSeries.slice(0, SEASON_LENGTH);
+  const secondSeason = timeSeries.slice(SEASON_LENGTH, 2 * SEASON_LENGTH);
+  let level = mean(firstSeason, (p) => p.quantity);
+  let trend =
+    (mean(secondSeason, (p) => p.quantity) - level) /
+    Math.max(
+      1,
+      mean(secondSeason, (p) => p.daysSinceStart) -
+        mean(firstSeason, (p) => p.daysSinceStart)
+    );
 
-  return prediction;
-}
+  const season: number[] = new Array(SEASON_LENGTH).fill(
+    multiplicative ? 1 : 0
+  );
+  firstSeason.forEach((point) => {
+    season[point.dayOfWeek] = multiplicative
+      ? level > 0
+        ? point.quantity / level
+        : 1
+      : point.quantity - level;
+  });
 
-/**
- * Get tomorrow's date
- */
-function getTomorrowDate(): Date {
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  tomorrow.setHours(0, 0, 0, 0);
-  return tomorrow;
+  let lastDay = timeSeries[0].daysSinceStart;
+  timeSeries.forEach((point) => {
+    const gap = point.daysSinceStart - lastDay;
+    const projected = level + trend * gap;
+    const factor = season[point.dayOfWeek];
+
+    const deseasonalized = multiplicative
+      ? factor > 0
+        ? point.quantity / factor
+        : point.quantity
+      : point.quantity - factor;
+    const newLevel = HW_ALPHA * deseasonalized + (1 - HW_ALPHA) * projected;
+
+    if (gap > 0) {
+      trend = HW_BETA * ((newLevel - level) / gap) + (1 - HW_BETA) * trend;
+    }
+
+    if (!multiplicative) {
+      season[point.dayOfWeek] =
+        HW_GAMMA * (point.quantity - newLevel) + (1 - HW_GAMMA) * factor;
+    } else if (newLevel > 0) {
+      season[point.dayOfWeek] =
+        HW_GAMMA * (point.quantity / newLevel) + (1 - HW_GAMMA) * factor;
+    }
+
+    level = newLevel;
+    lastDay = point.daysSinceStart;
+  });
+
+  const base = level + trend * (targetDaysSinceStart - lastDay);
+  return multiplicative
+    ? base * season[targetDayOfWeek]
+    : base + season[targetDayOfWeek];
 }
 
 /**
  * Get week of year (1-52)
  */
-function getWeekOfYear(date: Date): number {
-  const firstDayOfYear = new Date(date.getFullYear(), 0, 1);
-  const pastDaysOfYear =
-    (date.getTime() - firstDayOfYear.getTime()) / (1000 * 60 * 60 * 24);
-  return Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7);
+function getWeekOfYear(date: string): number {
+  const firstDayOfYear = `${date.slice(0, 4)}-01-01`;
+  const pastDaysOfYear = daysBetween(firstDayOfYear, date);
+  return Math.ceil((pastDaysOfYear + getDayOfWeek(firstDayOfYear) + 1) / 7);
 }
 
 /**
@@ -237,7 +2628,7 @@ function getWeekOfYear(date: Date): number {
  */
 export function simpleForecast(
   historicalData: SalesRecord[]
-): ForecastResult {
+): PointForecastResult {
   const itemData: { [item: string]: number[] } = {};
 
   historicalData.forEach((record) => {
@@ -247,7 +2638,7 @@ export function simpleForecast(
     itemData[record.item].push(record.quantity);
   });
 
-  const predictions: ForecastResult = {};
+  const predictions: PointForecastResult = {};
 
   Object.keys(itemData).forEach((item) => {
     const quantities = itemData[item];
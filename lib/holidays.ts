@@ -0,0 +1,395 @@
+/**
+ * Holidays & Special Events
+ * Built-in country calendars plus organization-defined events per location,
+ * turned into the CalendarEvent list the forecaster learns uplifts from
+ */
+
+import { supabase } from "@/lib/supabase";
+import { CalendarEvent } from "@/lib/forecasting";
+import {
+  addDaysToDateString,
+  daysBetween,
+  extractTimezoneFromTIMETZ,
+} from "@/lib/timezones";
+
+export const HOLIDAY_COUNTRIES = [
+  { value: "US", label: "United States" },
+  { value: "MX", label: "Mexico" },
+  { value: "CO", label: "Colombia" },
+];
+
+// Fallback when a location has no country set
+const TIMEZONE_COUNTRIES: { [timezone: string]: string } = {
+  "America/New_York": "US",
+  "America/Chicago": "US",
+  "America/Denver": "US",
+  "America/Los_Angeles": "US",
+  "America/Anchorage": "US",
+  "Pacific/Honolulu": "US",
+  "America/Mexico_City": "MX",
+  "America/Cancun": "MX",
+  "America/Monterrey": "MX",
+  "America/Tijuana": "MX",
+  "America/Bogota": "CO",
+};
+
+export interface LocationEventRow {
+  id: string;
+  name: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string | null; // Inclusive; null = single day
+  recurs_annually: boolean;
+  expected_uplift: number | null;
+}
+
+interface HolidayRule {
+  key: string;
+  name: string;
+  date: (year: number) => Date; // UTC midnight
+}
+
+// Weekdays as returned by getUTCDay()
+const SUNDAY = 0;
+const MONDAY = 1;
+const THURSDAY = 4;
+const SATURDAY = 6;
+
+const fixed = (month: number, day: number) => (year: number) =>
+  new Date(Date.UTC(year, month - 1, day));
+
+const easterOffset = (days: number) => (year: number) => {
+  const easter = easterSunday(year);
+  easter.setUTCDate(easter.getUTCDate() + days);
+  return easter;
+};
+
+// Colombian "Ley Emiliani" holidays move to the following Monday
+const nextMonday = (rule: (year: number) => Date) => (year: number) => {
+  const date = rule(year);
+  date.setUTCDate(date.getUTCDate() + ((MONDAY - date.getUTCDay() + 7) % 7));
+  return date;
+};
+
+const COUNTRY_HOLIDAYS: { [country: string]: HolidayRule[] } = {
+  US: [
+    { key: "new_years_day", name: "New Year's Day", date: fixed(1, 1) },
+    {
+      key: "super_bowl_sunday",
+      name: "Super Bowl Sunday",
+      date: (year) => nthWeekday(year, 2, SUNDAY, 2),
+    },
+    { key: "valentines_day", name: "Valentine's Day", date: fixed(2, 14) },
+    { key: "st_patricks_day", name: "St. Patrick's Day", date: fixed(3, 17) },
+    { key: "easter_sunday", name: "Easter Sunday", date: easterOffset(0) },
+    {
+      key: "mothers_day",
+      name: "Mother's Day",
+      date: (year) => nthWeekday(year, 5, SUNDAY, 2),
+    },
+    {
+      key: "memorial_day",
+      name: "Memorial Day",
+      date: (year) => nthWeekday(year, 5, MONDAY, -1),
+    },
+    {
+      key: "fathers_day",
+      name: "Father's Day",
+      date: (year) => nthWeekday(year, 6, SUNDAY, 3),
+    },
+    { key: "independence_day", name: "Independence Day", date: fixed(7, 4) },
+    {
+      key: "labor_day",
+      name: "Labor Day",
+      date: (year) => nthWeekday(year, 9, MONDAY, 1),
+    },
+    { key: "halloween", name: "Halloween", date: fixed(10, 31) },
+    {
+      key: "thanksgiving",
+      name: "Thanksgiving",
+      date: (year) => nthWeekday(year, 11, THURSDAY, 4),
+    },
+    { key: "christmas_eve", name: "Christmas Eve", date: fixed(12, 24) },
+    { key: "christmas_day", name: "Christmas Day", date: fixed(12, 25) },
+    { key: "new_years_eve", name: "New Year's Eve", date: fixed(12, 31) },
+  ],
+  MX: [
+    { key: "new_years_day", name: "Año Nuevo", date: fixed(1, 1) },
+    { key: "dia_de_reyes", name: "Día de Reyes", date: fixed(1, 6) },
+    {
+      key: "constitution_day",
+      name: "Día de la Constitución",
+      date: (year) => nthWeekday(year, 2, MONDAY, 1),
+    },
+    {
+      key: "valentines_day",
+      name: "Día del Amor y la Amistad",
+      date: fixed(2, 14),
+    },
+    {
+      key: "benito_juarez_day",
+      name: "Natalicio de Benito Juárez",
+      date: (year) => nthWeekday(year, 3, MONDAY, 3),
+    },
+    { key: "holy_thursday", name: "Jueves Santo", date: easterOffset(-3) },
+    { key: "good_friday", name: "Viernes Santo", date: easterOffset(-2) },
+    { key: "labor_day", name: "Día del Trabajo", date: fixed(5, 1) },
+    { key: "mothers_day", name: "Día de las Madres", date: fixed(5, 10) },
+    {
+      key: "grito_de_independencia",
+      name: "Grito de Independencia",
+      date: fixed(9, 15),
+    },
+    {
+      key: "independence_day",
+      name: "Día de la Independencia",
+      date: fixed(9, 16),
+    },
+    { key: "dia_de_muertos_1", name: "Día de Muertos", date: fixed(11, 1) },
+    { key: "dia_de_muertos_2", name: "Día de Muertos", date: fixed(11, 2) },
+    {
+      key: "revolution_day",
+      name: "Día de la Revolución",
+      date: (year) => nthWeekday(year, 11, MONDAY, 3),
+    },
+    {
+      key: "virgen_de_guadalupe",
+      name: "Día de la Virgen de Guadalupe",
+      date: fixed(12, 12),
+    },
+    { key: "christmas_eve", name: "Nochebuena", date: fixed(12, 24) },
+    { key: "christmas_day", name: "Navidad", date: fixed(12, 25) },
+    { key: "new_years_eve", name: "Fin de Año", date: fixed(12, 31) },
+  ],
+  CO: [
+    { key: "new_years_day", name: "Año Nuevo", date: fixed(1, 1) },
+    { key: "epiphany", name: "Día de Reyes", date: nextMonday(fixed(1, 6)) },
+    {
+      key: "st_joseph",
+      name: "Día de San José",
+      date: nextMonday(fixed(3, 19)),
+    },
+    { key: "holy_thursday", name: "Jueves Santo", date: easterOffset(-3) },
+    { key: "good_friday", name: "Viernes Santo", date: easterOffset(-2) },
+    { key: "labor_day", name: "Día del Trabajo", date: fixed(5, 1) },
+    {
+      key: "mothers_day",
+      name: "Día de la Madre",
+      date: (year) => nthWeekday(year, 5, SUNDAY, 2),
+    },
+    { key: "ascension", name: "Ascensión del Señor", date: easterOffset(43) },
+    { key: "corpus_christi", name: "Corpus Christi", date: easterOffset(64) },
+    { key: "sacred_heart", name: "Sagrado Corazón", date: easterOffset(71) },
+    {
+      key: "st_peter_and_paul",
+      name: "San Pedro y San Pablo",
+      date: nextMonday(fixed(6, 29)),
+    },
+    {
+      key: "independence_day",
+      name: "Día de la Independencia",
+      date: fixed(7, 20),
+    },
+    { key: "battle_of_boyaca", name: "Batalla de Boyacá", date: fixed(8, 7) },
+    { key: "assumption", name: "La Asunción", date: nextMonday(fixed(8, 15)) },
+    {
+      key: "amor_y_amistad",
+      name: "Amor y Amistad",
+      date: (year) => nthWeekday(year, 9, SATURDAY, 3),
+    },
+    {
+      key: "dia_de_la_raza",
+      name: "Día de la Raza",
+      date: nextMonday(fixed(10, 12)),
+    },
+    { key: "halloween", name: "Halloween", date: fixed(10, 31) },
+    {
+      key: "all_saints",
+      name: "Todos los Santos",
+      date: nextMonday(fixed(11, 1)),
+    },
+    {
+      key: "cartagena_independence",
+      name: "Independencia de Cartagena",
+      date: nextMonday(fixed(11, 11)),
+    },
+    { key: "noche_de_velitas", name: "Noche de Velitas", date: fixed(12, 7) },
+    {
+      key: "immaculate_conception",
+      name: "Inmaculada Concepción",
+      date: fixed(12, 8),
+    },
+    { key: "christmas_eve", name: "Nochebuena", date: fixed(12, 24) },
+    { key: "christmas_day", name: "Navidad", date: fixed(12, 25) },
+    { key: "new_years_eve", name: "Fin de Año", date: fixed(12, 31) },
+  ],
+};
+
+/**
+ * Country used for a location's holiday calendar: the configured one, else
+ * derived from its timezone (null when neither gives a supported country)
+ */
+export function resolveLocationCountry(location: {
+  country?: string | null;
+  kitchen_close?: string | null;
+}): string | null {
+  if (location.country && COUNTRY_HOLIDAYS[location.country]) {
+    return location.country;
+  }
+  if (!location.kitchen_close) return null;
+
+  const timezone = extractTimezoneFromTIMETZ(location.kitchen_close);
+  return TIMEZONE_COUNTRIES[timezone] || null;
+}
+
+/**
+ * Built-in holidays of a country between two dates (inclusive, YYYY-MM-DD)
+ */
+export function getCountryHolidays(
+  country: string,
+  startDate: string,
+  endDate: string
+): CalendarEvent[] {
+  const rules = COUNTRY_HOLIDAYS[country];
+  if (!rules) return [];
+
+  const events: CalendarEvent[] = [];
+  for (
+    let year = Number(startDate.slice(0, 4));
+    year <= Number(endDate.slice(0, 4));
+    year++
+  ) {
+    rules.forEach((rule) => {
+      const date = toDateString(rule.date(year));
+      if (date >= startDate && date <= endDate) {
+        events.push({ key: rule.key, name: rule.name, date });
+      }
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Expand custom events into one CalendarEvent per day between two dates
+ * Recurring events repeat on the same month/day every year
+ */
+export function expandLocationEvents(
+  rows: LocationEventRow[],
+  startDate: string,
+  endDate: string
+): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+
+  rows.forEach((row) => {
+    const lengthDays = row.end_date
+      ? Math.max(0, daysBetween(row.start_date, row.end_date))
+      : 0;
+    const eventYear = Number(row.start_date.slice(0, 4));
+    // A year early so occurrences spilling over New Year are included
+    const fromYear = row.recurs_annually
+      ? Math.max(eventYear, Number(startDate.slice(0, 4)) - 1)
+      : eventYear;
+    const toYear = row.recurs_annually
+      ? Number(endDate.slice(0, 4))
+      : eventYear;
+
+    for (let year = fromYear; year <= toYear; year++) {
+      const start = `${year}${row.start_date.slice(4)}`;
+      for (let offset = 0; offset <= lengthDays; offset++) {
+        const date = addDaysToDateString(start, offset);
+        if (date < startDate || date > endDate) continue;
+
+        events.push({
+          key: `custom:${row.id}`,
+          name: row.name,
+          date,
+          expectedUplift: row.expected_uplift
+            ? Number(row.expected_uplift)
+            : undefined,
+        });
+      }
+    }
+  });
+
+  return events;
+}
+
+/**
+ * Holidays and custom events of a location between two dates (inclusive)
+ * Never throws: if custom events can't be loaded, only holidays are returned
+ */
+export async function getLocationEvents(
+  location: {
+    id: string;
+    country?: string | null;
+    kitchen_close?: string | null;
+  },
+  startDate: string,
+  endDate: string
+): Promise<CalendarEvent[]> {
+  const country = resolveLocationCountry(location);
+  const events = country ? getCountryHolidays(country, startDate, endDate) : [];
+
+  const { data: rows, error } = await supabase
+    .from("location_events")
+    .select("id, name, start_date, end_date, recurs_annually, expected_uplift")
+    .eq("location_id", location.id);
+
+  if (error) {
+    console.error(
+      `Error loading custom events for location ${location.id}:`,
+      error
+    );
+    return events;
+  }
+
+  return events.concat(
+    expandLocationEvents((rows || []) as LocationEventRow[], startDate, endDate)
+  );
+}
+
+/**
+ * Easter Sunday (anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * The nth given weekday of a month (n = -1 for the last one)
+ */
+function nthWeekday(
+  year: number,
+  month: number,
+  weekday: number,
+  n: number
+): Date {
+  if (n < 0) {
+    const last = new Date(Date.UTC(year, month, 0));
+    last.setUTCDate(last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7));
+    return last;
+  }
+
+  const first = new Date(Date.UTC(year, month - 1, 1));
+  const offset = (weekday - first.getUTCDay() + 7) % 7;
+  return new Date(Date.UTC(year, month - 1, 1 + offset + (n - 1) * 7));
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
@@ -0,0 +1,85 @@
+/**
+ * Item Economics
+ * Unit cost, sale price and shelf life per item (item_economics), turned into
+ * the newsvendor service level at which to prep each item
+ */
+
+import { supabase } from "@/lib/supabase";
+
+export interface ItemEconomicsRow {
+  id: string;
+  item: string;
+  unit_cost_cents: number;
+  price_cents: number;
+  shelf_life_days: number;
+}
+
+// Never plan to run out almost always, or never at all
+const MIN_SERVICE_LEVEL = 0.05;
+const MAX_SERVICE_LEVEL = 0.99;
+
+/**
+ * Newsvendor critical ratio: the chance of covering demand that balances
+ * running out (the lost margin, price - cost) against leftovers (the cost).
+ * A leftover that keeps for `shelfLifeDays` can still sell on the following
+ * days, so only about 1 / shelfLifeDays of it is counted as waste.
+ * Rounded to a whole percent, the resolution of forecast quantiles.
+ */
+export function serviceLevel(
+  economics: Pick<
+    ItemEconomicsRow,
+    "unit_cost_cents" | "price_cents" | "shelf_life_days"
+  >
+): number {
+  const underage = economics.price_cents - economics.unit_cost_cents;
+  const overage =
+    economics.unit_cost_cents / Math.max(1, economics.shelf_life_days);
+
+  if (underage <= 0) return MIN_SERVICE_LEVEL;
+  if (overage <= 0) return MAX_SERVICE_LEVEL;
+
+  const ratio = Math.round((underage / (underage + overage)) * 100) / 100;
+  return Math.min(MAX_SERVICE_LEVEL, Math.max(MIN_SERVICE_LEVEL, ratio));
+}
+
+/**
+ * Economics of every configured item of an organization
+ */
+export async function loadItemEconomics(
+  organizationId: string
+): Promise<ItemEconomicsRow[]> {
+  const { data, error } = await supabase
+    .from("item_economics")
+    .select("id, item, unit_cost_cents, price_cents, shelf_life_days")
+    .eq("organization_id", organizationId)
+    .order("item", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load item economics: ${error.message}`);
+  }
+
+  return (data || []) as ItemEconomicsRow[];
+}
+
+/**
+ * Service level per configured item, for ForecastOptions.serviceLevels
+ * Never throws: items without one (or all, on failure) get no prep quantity
+ */
+export async function getServiceLevels(
+  organizationId: string
+): Promise<{ [item: string]: number }> {
+  const levels: { [item: string]: number } = {};
+
+  try {
+    (await loadItemEconomics(organizationId)).forEach((row) => {
+      levels[row.item] = serviceLevel(row);
+    });
+  } catch (error) {
+    console.error(
+      `Error getting service levels for organization ${organizationId}:`,
+      error
+    );
+  }
+
+  return levels;
+}
@@ -0,0 +1,102 @@
+/**
+ * Model Tuning Job
+ * Refits the stored model parameters of locations whose fit is missing or
+ * older than REFIT_AFTER_DAYS, oldest first, within a time budget so the cron
+ * request can't time out; locations left over are refit on the next run
+ */
+
+import { supabase } from "@/lib/supabase";
+import { LocationRow, fetchTrainingData } from "@/lib/forecast-job";
+import {
+  REFIT_AFTER_DAYS,
+  fitModelParameters,
+  loadFittedAt,
+  saveModelFit,
+} from "@/lib/model-tuning";
+import { extractTimezoneFromTIMETZ, getLocalDateString } from "@/lib/timezones";
+
+// No new fit is started after this long: a year of 40 items takes ~20 s to
+// fit, so even a large location's fit ends before the route's 300 s limit
+const TUNING_BUDGET_MS = 150 * 1000;
+
+export interface ModelTuningJobResult {
+  fitted: number;
+  failed: number;
+  skipped: number; // No sales yet
+  remaining: number; // Due, left for the next run
+}
+
+/**
+ * Refit one location on the same training data its forecast uses
+ * Returns false when the location has no sales to fit on
+ */
+export async function refitLocation(location: LocationRow): Promise<boolean> {
+  const tomorrow = getLocalDateString(
+    extractTimezoneFromTIMETZ(location.kitchen_close),
+    1
+  );
+  const training = await fetchTrainingData(location, tomorrow, tomorrow);
+  if (!training) return false;
+
+  const fit = fitModelParameters(training.salesHistory, training.options);
+  await saveModelFit(location, fit);
+  return true;
+}
+
+/**
+ * Refit every location that is due, oldest fit first, until the time budget
+ * runs out
+ */
+export async function runModelTuningJob(): Promise<ModelTuningJobResult> {
+  const startedAt = Date.now();
+
+  const { data: locations, error: locationsError } = await supabase
+    .from("locations")
+    .select(
+      "id, organization_id, name, kitchen_close, country, latitude, longitude, restaurant_type, restaurant_size, cuisine_type, opening_hours"
+    );
+
+  if (locationsError || !locations) {
+    throw new Error(
+      `Failed to load locations: ${locationsError?.message ?? "no data"}`
+    );
+  }
+
+  // Locations without a usable fit go first
+  const due: { location: LocationRow; fittedAt: number }[] = [];
+  for (const location of locations as LocationRow[]) {
+    const fittedAt = (await loadFittedAt(location.id)) ?? 0;
+    if (startedAt - fittedAt > REFIT_AFTER_DAYS * 24 * 60 * 60 * 1000) {
+      due.push({ location, fittedAt });
+    }
+  }
+  due.sort((a, b) => a.fittedAt - b.fittedAt);
+
+  const result: ModelTuningJobResult = {
+    fitted: 0,
+    failed: 0,
+    skipped: 0,
+    remaining: 0,
+  };
+
+  // Sequential, like the forecast job
+  for (const { location } of due) {
+    if (Date.now() - startedAt > TUNING_BUDGET_MS) {
+      result.remaining++;
+      continue;
+    }
+
+    try {
+      if (await refitLocation(location)) {
+        result.fitted++;
+      } else {
+        result.skipped++;
+      }
+    } catch (error) {
+      console.error(`Model tuning failed for location ${location.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
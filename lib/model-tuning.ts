@@ -0,0 +1,333 @@
+/**
+ * Model Tuning
+ * Fits ensemble weights and smoothing parameters per item (and per location)
+ * from rolling-origin backtest error, and stores them in forecast_model_parameters
+ * Fits run in their own cron job (lib/model-tuning-job.ts); forecasts only
+ * read the stored ones.
+ */
+
+import { supabase } from "@/lib/supabase";
+import {
+  BacktestOptions,
+  ErrorMetrics,
+  backtestForecasts,
+} from "@/lib/backtesting";
+import {
+  DEFAULT_MODEL_PARAMETERS,
+  FORECAST_METHODS,
+  ForecastOptions,
+  ModelParameters,
+  SalesRecord,
+  Seasonality,
+} from "@/lib/forecasting";
+
+// Candidates are evaluated together: alpha only affects exponentialSmoothing,
+// recentWeight only weightedMovingAverage and seasonality only holtWinters, so
+// one backtest scores all three. Index 2 is DEFAULT_MODEL_PARAMETERS.
+const ALPHA_GRID = [0.1, 0.2, 0.3, 0.5, 0.7];
+const RECENT_WEIGHT_GRID = [0.3, 0.5, 0.7, 1.0, 1.5];
+const SEASONALITY_GRID: Seasonality[] = [
+  "multiplicative",
+  "multiplicative",
+  "additive",
+  "additive",
+  "additive",
+];
+
+const FIT_FOLDS = 28;
+const MIN_FIT_OBSERVATIONS = 14; // Scored forecasts needed before trusting a fit
+export const REFIT_AFTER_DAYS = 7;
+
+export interface FittedParameters extends ModelParameters {
+  mae: number; // Backtest ensemble MAE with these parameters
+  observations: number;
+}
+
+export interface ModelFit {
+  location: FittedParameters | null; // Pooled over all items; null if history is too short
+  items: { [item: string]: FittedParameters };
+}
+
+interface ModelParametersRow {
+  item: string | null;
+  weights: number[];
+  alpha: number;
+  recent_weight: number;
+  seasonality: Seasonality | null;
+  fitted_at: string;
+}
+
+type Scores = { [model: string]: ErrorMetrics };
+
+/**
+ * Fit parameters per item and for the location as a whole
+ * `options` are the training options the forecast gets (events, promotions,
+ * prices, outlier reviews, history starts, closed days), so candidates are
+ * scored on the history they will forecast from. Scopes with fewer than
+ * MIN_FIT_OBSERVATIONS scored forecasts are left out, so forecasting falls
+ * back to the location fit and then the defaults.
+ */
+export function fitModelParameters(
+  historicalData: SalesRecord[],
+  options: Pick<
+    BacktestOptions,
+    | "events"
+    | "promotions"
+    | "prices"
+    | "outlierReviews"
+    | "historyStarts"
+    | "closedDays"
+  > = {}
+): ModelFit {
+  const candidates: ModelParameters[] = ALPHA_GRID.map((alpha, idx) => ({
+    ...DEFAULT_MODEL_PARAMETERS,
+    alpha,
+    recentWeight: RECENT_WEIGHT_GRID[idx],
+    seasonality: SEASONALITY_GRID[idx],
+  }));
+
+  const runs = candidates.map((parameters) =>
+    backtestForecasts(historicalData, {
+      ...options,
+      folds: FIT_FOLDS,
+      parameters,
+    })
+  );
+
+  const itemCandidates: { [item: string]: ModelParameters } = {};
+  runs[0].items.forEach(({ item }) => {
+    const scores = runs.map(
+      (run) => run.items.find((entry) => entry.item === item)?.scores
+    );
+    const fitted = selectParameters(scores);
+    if (fitted) itemCandidates[item] = fitted;
+  });
+
+  const locationCandidate = selectParameters(runs.map((run) => run.overall));
+
+  // Validate the fitted parameters and keep the defaults wherever they do better
+  const fittedRun = backtestForecasts(historicalData, {
+    ...options,
+    folds: FIT_FOLDS,
+    parameters: locationCandidate || DEFAULT_MODEL_PARAMETERS,
+    itemParameters: itemCandidates,
+  });
+  const defaultRun = runs[ALPHA_GRID.indexOf(DEFAULT_MODEL_PARAMETERS.alpha)];
+
+  const items: { [item: string]: FittedParameters } = {};
+  Object.keys(itemCandidates).forEach((item) => {
+    const fitted = fittedRun.items.find((entry) => entry.item === item);
+    const baseline = defaultRun.items.find((entry) => entry.item === item);
+    if (!fitted || !baseline) return;
+
+    items[item] = keepBetter(
+      itemCandidates[item],
+      fitted.scores.ensemble,
+      baseline.scores.ensemble
+    );
+  });
+
+  return {
+    location: locationCandidate
+      ? keepBetter(
+          locationCandidate,
+          fittedRun.overall.ensemble,
+          defaultRun.overall.ensemble
+        )
+      : null,
+    items,
+  };
+}
+
+/**
+ * Best alpha and recentWeight from the candidate runs, plus inverse-MAE
+ * ensemble weights. Returns null when there are too few observations.
+ */
+function selectParameters(
+  scores: (Scores | undefined)[]
+): ModelParameters | null {
+  const available = scores.filter((s): s is Scores => !!s);
+  if (
+    available.length !== scores.length ||
+    available[0].ensemble.count < MIN_FIT_OBSERVATIONS
+  ) {
+    return null;
+  }
+
+  const bestIndex = (method: string) =>
+    available.reduce(
+      (best, s, idx) =>
+        s[method].mae < available[best][method].mae ? idx : best,
+      0
+    );
+
+  const alphaIndex = bestIndex("exponentialSmoothing");
+  const recentWeightIndex = bestIndex("weightedMovingAverage");
+  const seasonalityIndex = bestIndex("holtWinters");
+
+  // Methods that don't depend on the tuned parameters score the same in every run
+  const methodMae = FORECAST_METHODS.map((method) => {
+    if (method === "exponentialSmoothing") {
+      return available[alphaIndex][method].mae;
+    }
+    if (method === "weightedMovingAverage") {
+      return available[recentWeightIndex][method].mae;
+    }
+    if (method === "holtWinters") {
+      return available[seasonalityIndex][method].mae;
+    }
+    return available[0][method].mae;
+  });
+
+  // +1 unit keeps a perfect method from taking all the weight
+  const inverse = methodMae.map((mae) => 1 / (mae + 1));
+  const total = inverse.reduce((acc, value) => acc + value, 0);
+
+  return {
+    weights: inverse.map((value) => Math.round((value / total) * 1000) / 1000),
+    alpha: ALPHA_GRID[alphaIndex],
+    recentWeight: RECENT_WEIGHT_GRID[recentWeightIndex],
+    seasonality: SEASONALITY_GRID[seasonalityIndex],
+  };
+}
+
+function keepBetter(
+  candidate: ModelParameters,
+  fitted: ErrorMetrics,
+  baseline: ErrorMetrics
+): FittedParameters {
+  if (fitted.mae <= baseline.mae) {
+    return { ...candidate, mae: fitted.mae, observations: fitted.count };
+  }
+  return {
+    ...DEFAULT_MODEL_PARAMETERS,
+    mae: baseline.mae,
+    observations: baseline.count,
+  };
+}
+
+/**
+ * Stored fitted parameters for a location, as refit by the tuning job
+ * A fit past REFIT_AFTER_DAYS is still used until the job replaces it; one
+ * from before a method was added has too few weights and is ignored.
+ * Never throws: on any failure the forecast just uses the defaults
+ */
+export async function getModelParameters(
+  locationId: string
+): Promise<Pick<ForecastOptions, "parameters" | "itemParameters">> {
+  try {
+    const { data: rows, error } = await supabase
+      .from("forecast_model_parameters")
+      .select("item, weights, alpha, recent_weight, seasonality, fitted_at")
+      .eq("location_id", locationId);
+
+    if (error) {
+      throw new Error(`Failed to load model parameters: ${error.message}`);
+    }
+
+    if (!rows || rows.length === 0 || !hasCurrentWeights(rows)) return {};
+
+    return toForecastOptions(rows as ModelParametersRow[]);
+  } catch (error) {
+    console.error(
+      `Error getting model parameters for location ${locationId}:`,
+      error
+    );
+    return {};
+  }
+}
+
+/**
+ * When a location's stored fit was made (ms since epoch), or null when it
+ * has none or one with too few weights, which must be refit first
+ */
+export async function loadFittedAt(locationId: string): Promise<number | null> {
+  const { data: rows, error } = await supabase
+    .from("forecast_model_parameters")
+    .select("weights, fitted_at")
+    .eq("location_id", locationId)
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to load model fit: ${error.message}`);
+  }
+
+  if (!rows || rows.length === 0 || !hasCurrentWeights(rows)) return null;
+  return rows[0].fitted_at ? new Date(rows[0].fitted_at).getTime() : null;
+}
+
+// Fits from before a method was added have too few weights
+function hasCurrentWeights(rows: { weights: number[] }[]): boolean {
+  return rows.every((row) => row.weights.length === FORECAST_METHODS.length);
+}
+
+/**
+ * Replace a location's stored fit (items no longer sold are dropped)
+ */
+export async function saveModelFit(
+  location: { id: string; organization_id: string },
+  fit: ModelFit
+): Promise<void> {
+  const fittedAt = new Date().toISOString();
+  const toRow = (item: string | null, parameters: FittedParameters) => ({
+    organization_id: location.organization_id,
+    location_id: location.id,
+    item,
+    weights: parameters.weights,
+    alpha: parameters.alpha,
+    recent_weight: parameters.recentWeight,
+    seasonality: parameters.seasonality,
+    mae: parameters.mae,
+    observations: parameters.observations,
+    fitted_at: fittedAt,
+  });
+
+  const rows = Object.entries(fit.items).map(([item, parameters]) =>
+    toRow(item, parameters)
+  );
+  if (fit.location) rows.push(toRow(null, fit.location));
+
+  const { error: deleteError } = await supabase
+    .from("forecast_model_parameters")
+    .delete()
+    .eq("location_id", location.id);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear model parameters: ${deleteError.message}`);
+  }
+
+  if (rows.length === 0) return;
+
+  const { error: insertError } = await supabase
+    .from("forecast_model_parameters")
+    .insert(rows);
+
+  if (insertError) {
+    throw new Error(`Failed to save model parameters: ${insertError.message}`);
+  }
+}
+
+function toForecastOptions(
+  rows: ModelParametersRow[]
+): Pick<ForecastOptions, "parameters" | "itemParameters"> {
+  const options: Pick<ForecastOptions, "parameters" | "itemParameters"> = {
+    itemParameters: {},
+  };
+
+  rows.forEach((row) => {
+    const parameters: ModelParameters = {
+      weights: row.weights.map(Number),
+      alpha: Number(row.alpha),
+      recentWeight: Number(row.recent_weight),
+      seasonality: row.seasonality || DEFAULT_MODEL_PARAMETERS.seasonality,
+    };
+
+    if (row.item === null) {
+      options.parameters = parameters;
+    } else {
+      options.itemParameters![row.item] = parameters;
+    }
+  });
+
+  return options;
+}
@@ -0,0 +1,290 @@
+/**
+ * Forecast Model Versions
+ * Named forecasting configurations. Every forecast row records the version
+ * that produced it; an organization can run a challenger next to its
+ * champion in shadow mode (stored in shadow_forecasts, never sent) and
+ * promote it once it beats the champion on actual sales
+ */
+
+import { SUPABASE_PAGE_SIZE, supabase } from "@/lib/supabase";
+import { ErrorMetrics } from "@/lib/backtesting";
+import {
+  IntermittentMethod,
+  ReconciliationMethod,
+  SalesRecord,
+} from "@/lib/forecasting";
+
+export interface ModelVersion {
+  id: string;
+  description: string;
+  fittedParameters: boolean; // Per-item parameters from lib/model-tuning.ts, else the defaults
+  intermittentMethod: IntermittentMethod;
+  capOutliers: boolean;
+  reconciliation: ReconciliationMethod | null; // null: FORECAST_RECONCILIATION
+}
+
+// Add new versions here; ids are stored with forecasts, so never reuse one
+export const MODEL_VERSIONS: ModelVersion[] = [
+  {
+    id: "ensemble-v1",
+    description: "Ensemble with fitted parameters, TSB for slow movers",
+    fittedParameters: true,
+    intermittentMethod: "tsb",
+    capOutliers: true,
+    reconciliation: null,
+  },
+  {
+    id: "ensemble-v1-croston",
+    description: "ensemble-v1 with Croston for slow movers",
+    fittedParameters: true,
+    intermittentMethod: "croston",
+    capOutliers: true,
+    reconciliation: null,
+  },
+  {
+    id: "ensemble-v1-defaults",
+    description: "ensemble-v1 with default instead of fitted parameters",
+    fittedParameters: false,
+    intermittentMethod: "tsb",
+    capOutliers: true,
+    reconciliation: null,
+  },
+];
+
+export const DEFAULT_MODEL_VERSION = "ensemble-v1";
+
+export interface OrganizationModels {
+  champion: string; // Sent to managers
+  challenger: string | null; // Run in shadow mode
+}
+
+export interface ForecastVersionRow {
+  forecast_date: string;
+  item: string;
+  predicted_quantity: number;
+}
+
+// One item and day both versions forecast, with what actually sold
+export interface ComparedForecast {
+  date: string;
+  item: string;
+  champion: number;
+  challenger: number;
+  actual: number;
+}
+
+export interface ModelComparison {
+  champion: ErrorMetrics;
+  challenger: ErrorMetrics;
+  days: number; // Distinct days compared
+}
+
+/**
+ * Version by id; unknown ids (e.g. a removed version) fall back to the default
+ */
+export function getModelVersion(id: string | null | undefined): ModelVersion {
+  const version = MODEL_VERSIONS.find((candidate) => candidate.id === id);
+  if (id && !version) {
+    console.warn(`Unknown model version ${id}, using ${DEFAULT_MODEL_VERSION}`);
+  }
+  return (
+    version ||
+    (MODEL_VERSIONS.find(
+      (candidate) => candidate.id === DEFAULT_MODEL_VERSION
+    ) as ModelVersion)
+  );
+}
+
+/**
+ * Champion and challenger of an organization (the default champion and no
+ * challenger until set)
+ */
+export async function loadOrganizationModels(
+  organizationId: string
+): Promise<OrganizationModels> {
+  const { data, error } = await supabase
+    .from("organization_models")
+    .select("champion_version, challenger_version")
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load model versions: ${error.message}`);
+  }
+
+  return {
+    champion: data?.champion_version || DEFAULT_MODEL_VERSION,
+    challenger: data?.challenger_version || null,
+  };
+}
+
+/**
+ * Never throws: on failure the organization runs the default champion alone
+ */
+export async function getOrganizationModels(
+  organizationId: string
+): Promise<OrganizationModels> {
+  try {
+    return await loadOrganizationModels(organizationId);
+  } catch (error) {
+    console.error(
+      `Error getting model versions for organization ${organizationId}:`,
+      error
+    );
+    return { champion: DEFAULT_MODEL_VERSION, challenger: null };
+  }
+}
+
+export async function saveOrganizationModels(
+  organizationId: string,
+  models: OrganizationModels,
+  promoted = false
+): Promise<void> {
+  const { error } = await supabase.from("organization_models").upsert(
+    {
+      organization_id: organizationId,
+      champion_version: models.champion,
+      challenger_version: models.challenger,
+      updated_at: new Date().toISOString(),
+      ...(promoted ? { promoted_at: new Date().toISOString() } : {}),
+    },
+    { onConflict: "organization_id" }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save model versions: ${error.message}`);
+  }
+}
+
+/**
+ * Past items and days forecast by both versions, with actual sales
+ * Days without any sales data (closed or not uploaded) are skipped; an item
+ * absent on a day with sales sold zero.
+ */
+export function pairForecasts(
+  champion: ForecastVersionRow[],
+  challenger: ForecastVersionRow[],
+  salesHistory: SalesRecord[],
+  today: string
+): ComparedForecast[] {
+  const actuals: { [key: string]: number } = {};
+  const tradingDays = new Set<string>();
+  salesHistory.forEach((record) => {
+    const key = `${record.date}|${record.item}`;
+    actuals[key] = (actuals[key] || 0) + record.quantity;
+    tradingDays.add(record.date);
+  });
+
+  const challengerForecasts: { [key: string]: number } = {};
+  challenger.forEach((row) => {
+    challengerForecasts[`${row.forecast_date}|${row.item}`] =
+      row.predicted_quantity;
+  });
+
+  return champion
+    .filter(
+      (row) =>
+        row.forecast_date < today &&
+        tradingDays.has(row.forecast_date) &&
+        challengerForecasts[`${row.forecast_date}|${row.item}`] !== undefined
+    )
+    .map((row) => {
+      const key = `${row.forecast_date}|${row.item}`;
+      return {
+        date: row.forecast_date,
+        item: row.item,
+        champion: row.predicted_quantity,
+        challenger: challengerForecasts[key],
+        actual: actuals[key] ?? 0,
+      };
+    });
+}
+
+/**
+ * Error of each version over the same forecasts
+ */
+export function compareModels(pairs: ComparedForecast[]): ModelComparison {
+  const metrics = (version: "champion" | "challenger"): ErrorMetrics => {
+    let absError = 0;
+    let error = 0;
+    let actual = 0;
+    pairs.forEach((pair) => {
+      absError += Math.abs(pair[version] - pair.actual);
+      error += pair[version] - pair.actual;
+      actual += pair.actual;
+    });
+    return {
+      mae: pairs.length > 0 ? absError / pairs.length : 0,
+      wape: actual > 0 ? absError / actual : null,
+      bias: pairs.length > 0 ? error / pairs.length : 0,
+      count: pairs.length,
+    };
+  };
+
+  return {
+    champion: metrics("champion"),
+    challenger: metrics("challenger"),
+    days: new Set(pairs.map((pair) => pair.date)).size,
+  };
+}
+
+/**
+ * Champion forecasts (sent) and challenger forecasts (shadow) of a location
+ * on the days from `since`, each as produced by the given version
+ */
+export async function loadVersionForecasts(
+  locationId: string,
+  models: { champion: string; challenger: string },
+  since: string
+): Promise<{
+  champion: ForecastVersionRow[];
+  challenger: ForecastVersionRow[];
+}> {
+  return {
+    champion: await fetchVersionRows(
+      "forecasts",
+      locationId,
+      models.champion,
+      since
+    ),
+    challenger: await fetchVersionRows(
+      "shadow_forecasts",
+      locationId,
+      models.challenger,
+      since
+    ),
+  };
+}
+
+async function fetchVersionRows(
+  table: "forecasts" | "shadow_forecasts",
+  locationId: string,
+  version: string,
+  since: string
+): Promise<ForecastVersionRow[]> {
+  const rows: ForecastVersionRow[] = [];
+  let from = 0;
+
+  while (true) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("forecast_date, item, predicted_quantity")
+      .eq("location_id", locationId)
+      .eq("model_version", version)
+      .gte("forecast_date", since)
+      .order("forecast_date", { ascending: true })
+      .order("item", { ascending: true })
+      .range(from, from + SUPABASE_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load ${table}: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as ForecastVersionRow[]));
+
+    if (!data || data.length < SUPABASE_PAGE_SIZE) break;
+    from += SUPABASE_PAGE_SIZE;
+  }
+
+  return rows;
+}
@@ -0,0 +1,122 @@
+/**
+ * Notifications
+ * WhatsApp (Twilio) and email (Resend) messages to a location's operators,
+ * the collaborators it was set up with. Without credentials, messages are
+ * logged instead of sent.
+ * Free-form WhatsApp messages are only delivered within 24 hours of the
+ * recipient's last message, so alerts nobody asked for go by email.
+ */
+
+import { supabase } from "@/lib/supabase";
+import { Resend } from "resend";
+import twilio from "twilio";
+
+// WhatsApp rejects longer bodies, so longer messages are sent in parts
+const WHATSAPP_MAX_LENGTH = 1600;
+
+export async function sendWhatsAppMessage(
+  phoneNumber: string,
+  message: string
+) {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER;
+
+  if (!accountSid || !authToken || !twilioPhoneNumber) {
+    console.log(`Twilio not configured. Would send: ${message}`);
+    return;
+  }
+
+  const client = twilio(accountSid, authToken);
+  const maxLength = WHATSAPP_MAX_LENGTH;
+
+  if (message.length <= maxLength) {
+    await client.messages.create({
+      body: message,
+      from: `whatsapp:${twilioPhoneNumber}`,
+      to: `whatsapp:${phoneNumber}`,
+    });
+  } else {
+    // Split into parts
+    const parts = [];
+    let remainingMessage = message;
+    let partNumber = 1;
+    const totalParts = Math.ceil(message.length / maxLength);
+
+    while (remainingMessage.length > 0) {
+      const chunkSize = Math.min(maxLength - 50, remainingMessage.length);
+      const chunk = remainingMessage.substring(0, chunkSize);
+      const partMessage = `Part ${partNumber}/${totalParts}:\n${chunk}`;
+      parts.push(partMessage);
+      remainingMessage = remainingMessage.substring(chunkSize);
+      partNumber++;
+    }
+
+    for (const part of parts) {
+      await client.messages.create({
+        body: part,
+        from: `whatsapp:${twilioPhoneNumber}`,
+        to: `whatsapp:${phoneNumber}`,
+      });
+    }
+  }
+}
+
+export async function sendEmail(to: string, subject: string, text: string) {
+  const resendApiKey = process.env.RESEND_API_KEY;
+
+  if (!resendApiKey) {
+    console.log(`Resend not configured. Would send email to ${to}:`, text);
+    return;
+  }
+
+  const resend = new Resend(resendApiKey);
+  await resend.emails.send({
+    from: "dev@xtock.ai", // Replace with your verified domain
+    to,
+    subject,
+    text,
+    html: text.replace(/\n/g, "<br>"),
+  });
+}
+
+/**
+ * Email a message to every collaborator of a location with an email contact
+ * Never throws: a failed recipient is logged and the others still get it.
+ * Returns how many were sent.
+ */
+export async function emailLocation(
+  locationId: string,
+  subject: string,
+  message: string
+): Promise<number> {
+  const { data: collaborators, error } = await supabase
+    .from("collaborators")
+    .select("contact_value")
+    .eq("location_id", locationId)
+    .eq("contact_type", "email");
+
+  if (error) {
+    console.error(
+      `Error fetching collaborators for location ${locationId}:`,
+      error
+    );
+    return 0;
+  }
+
+  let sent = 0;
+  // Sequential, like the job that calls this
+  for (const collaborator of collaborators || []) {
+    try {
+      await sendEmail(collaborator.contact_value, subject, message);
+      sent++;
+    } catch (sendError) {
+      console.error(
+        `Error emailing collaborator of location ${locationId}:`,
+        sendError
+      );
+    }
+  }
+
+  return sent;
+}
@@ -0,0 +1,180 @@
+/**
+ * Opening Hours
+ * Weekly opening hours (locations.opening_hours) and one-off closures
+ * (location_closures) per location: closed days get no forecast, past
+ * closures are left out of training, and the hours a location opens bound the
+ * hourly split
+ */
+
+import { supabase } from "@/lib/supabase";
+import { addDaysToDateString, getDayOfWeek } from "@/lib/timezones";
+
+// Local times, HH:MM; `closes` at or before `opens` runs past midnight
+export interface DayHours {
+  opens: string;
+  closes: string;
+}
+
+// Indexed by weekday (0 = Sunday); null = closed that weekday
+export type OpeningHours = (DayHours | null)[];
+
+export interface LocationClosureRow {
+  id: string;
+  date: string; // YYYY-MM-DD
+  reason: string | null; // e.g. "Renovation"
+}
+
+export const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * A stored schedule, or null when there is none (open every day) or it is
+ * malformed
+ */
+export function parseOpeningHours(value: unknown): OpeningHours | null {
+  if (!Array.isArray(value) || value.length !== 7) return null;
+
+  return value.map((day) =>
+    day && typeof day.opens === "string" && typeof day.closes === "string"
+      ? { opens: day.opens, closes: day.closes }
+      : null
+  );
+}
+
+/**
+ * Days between two dates (inclusive) the location is closed: one-off
+ * closures, plus weekdays without hours in its schedule from `scheduleFrom`
+ * on. The schedule is today's; before that, sales recorded on a weekday it
+ * now closes were real and stay in.
+ */
+export function closedDays(
+  openingHours: OpeningHours | null,
+  closures: string[],
+  startDate: string,
+  endDate: string,
+  scheduleFrom: string
+): string[] {
+  const closed = new Set(
+    closures.filter((date) => date >= startDate && date <= endDate)
+  );
+
+  if (openingHours) {
+    for (
+      let date = scheduleFrom > startDate ? scheduleFrom : startDate;
+      date <= endDate;
+      date = addDaysToDateString(date, 1)
+    ) {
+      if (!openingHours[getDayOfWeek(date)]) closed.add(date);
+    }
+  }
+
+  return Array.from(closed).sort();
+}
+
+/**
+ * Days between two dates (inclusive) the location was open, for
+ * dataCoverage: weekdays its schedule opens, less `closed` days; undefined
+ * without a schedule, so coverage falls back to the weekdays the location
+ * has traded
+ */
+export function openDays(
+  openingHours: OpeningHours | null,
+  closed: string[],
+  startDate: string,
+  endDate: string
+): string[] | undefined {
+  if (!openingHours) return undefined;
+
+  const closedSet = new Set(closed);
+  const days: string[] = [];
+  for (
+    let date = startDate;
+    date <= endDate;
+    date = addDaysToDateString(date, 1)
+  ) {
+    if (openingHours[getDayOfWeek(date)] && !closedSet.has(date)) {
+      days.push(date);
+    }
+  }
+  return days;
+}
+
+/**
+ * Local hours (0-23) the location is open on a date's weekday, or null
+ * without a schedule. An hour counts if the location is open any part of it;
+ * hours past midnight are counted on the day that opened.
+ */
+export function openHours(
+  openingHours: OpeningHours | null,
+  date: string
+): number[] | null {
+  const day = openingHours?.[getDayOfWeek(date)];
+  if (!day) return openingHours ? [] : null;
+
+  const opens = Number(day.opens.split(":")[0]);
+  const [closeHour, closeMinute] = day.closes.split(":").map(Number);
+  // Closing at 22:30 keeps the 22:00 hour
+  const closes = closeHour + (closeMinute > 0 ? 1 : 0);
+
+  const hours: number[] = [];
+  for (
+    let hour = opens;
+    hour < (closes > opens ? closes : closes + 24);
+    hour++
+  ) {
+    hours.push(hour % 24);
+  }
+  return hours;
+}
+
+export async function loadLocationClosures(
+  locationId: string
+): Promise<LocationClosureRow[]> {
+  const { data, error } = await supabase
+    .from("location_closures")
+    .select("id, date, reason")
+    .eq("location_id", locationId)
+    .order("date", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load closures: ${error.message}`);
+  }
+
+  return (data || []) as LocationClosureRow[];
+}
+
+/**
+ * Days a location is closed between two dates (inclusive), with the weekly
+ * schedule applied from `scheduleFrom` on (see closedDays)
+ * Never throws: falls back to the weekly schedule alone if closures can't be
+ * loaded
+ */
+export async function getClosedDays(
+  location: { id: string; opening_hours?: unknown },
+  startDate: string,
+  endDate: string,
+  scheduleFrom: string
+): Promise<string[]> {
+  const openingHours = parseOpeningHours(location.opening_hours);
+
+  try {
+    const closures = await loadLocationClosures(location.id);
+    return closedDays(
+      openingHours,
+      closures.map((closure) => closure.date),
+      startDate,
+      endDate,
+      scheduleFrom
+    );
+  } catch (error) {
+    console.error(`Error getting closures for location ${location.id}:`, error);
+    return closedDays(openingHours, [], startDate, endDate, scheduleFrom);
+  }
+}
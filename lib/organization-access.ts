@@ -0,0 +1,29 @@
+/**
+ * Organization Access
+ * API routes read through the anon Supabase client, so a signed-in user could
+ * ask for any organization's data; routes check membership of the owning
+ * organization with Clerk before answering
+ */
+
+import { clerkClient } from "@clerk/nextjs/server";
+
+// Memberships read per check; users belong to a handful of organizations
+const MAX_MEMBERSHIPS = 100;
+
+/**
+ * Whether a user is a member of an organization
+ */
+export async function isOrganizationMember(
+  userId: string,
+  organizationId: string
+): Promise<boolean> {
+  const client = await clerkClient();
+  const { data } = await client.users.getOrganizationMembershipList({
+    userId,
+    limit: MAX_MEMBERSHIPS,
+  });
+
+  return data.some(
+    (membership) => membership.organization.id === organizationId
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * Sales Outliers
+ * Records days flagged by detectOutliers in sales_outliers so managers can
+ * confirm (exclude from training) or reject (keep as real demand) each one
+ */
+
+import { supabase } from "@/lib/supabase";
+import {
+  CalendarEvent,
+  ItemPromotion,
+  OutlierReview,
+  OutlierStatus,
+  SalesRecord,
+  detectOutliers,
+} from "@/lib/forecasting";
+
+export interface SalesOutlierRow {
+  id: string;
+  date: string;
+  item: string;
+  quantity: number;
+  expected_quantity: number;
+  score: number;
+  status: OutlierStatus;
+  reviewed_at: string | null;
+}
+
+/**
+ * Detect outliers in a location's history, store newly flagged days and return
+ * every stored flag for the forecaster
+ * Unreviewed flags that are no longer detected are dropped; reviewed ones are
+ * kept as they are. Never throws: returns no reviews on failure, so
+ * unreviewed outliers are still capped.
+ */
+export async function getOutlierReviews(
+  location: { id: string; organization_id: string },
+  salesHistory: SalesRecord[],
+  events?: CalendarEvent[],
+  promotions?: ItemPromotion[],
+  closedDays?: string[]
+): Promise<OutlierReview[]> {
+  try {
+    const outliers = detectOutliers(
+      salesHistory,
+      events,
+      promotions,
+      closedDays
+    );
+
+    const { error: deleteError } = await supabase
+      .from("sales_outliers")
+      .delete()
+      .eq("location_id", location.id)
+      .eq("status", "flagged");
+
+    if (deleteError) {
+      throw new Error(
+        `Failed to clear flagged outliers: ${deleteError.message}`
+      );
+    }
+
+    if (outliers.length > 0) {
+      const detectedAt = new Date().toISOString();
+      const { error: upsertError } = await supabase
+        .from("sales_outliers")
+        .upsert(
+          outliers.map((outlier) => ({
+            organization_id: location.organization_id,
+            location_id: location.id,
+            date: outlier.date,
+            item: outlier.item,
+            quantity: outlier.quantity,
+            expected_quantity: outlier.expected,
+            score: outlier.score,
+            status: "flagged",
+            detected_at: detectedAt,
+          })),
+          // Reviewed days keep their status
+          { onConflict: "location_id,date,item", ignoreDuplicates: true }
+        );
+
+      if (upsertError) {
+        throw new Error(`Failed to save outliers: ${upsertError.message}`);
+      }
+    }
+
+    return await loadOutlierReviews(location.id);
+  } catch (error) {
+    console.error(`Error getting outliers for location ${location.id}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Stored outlier flags and reviews of a location
+ */
+export async function loadOutlierReviews(
+  locationId: string
+): Promise<OutlierReview[]> {
+  const { data, error } = await supabase
+    .from("sales_outliers")
+    .select("date, item, status")
+    .eq("location_id", locationId);
+
+  if (error) {
+    throw new Error(`Failed to load outliers: ${error.message}`);
+  }
+
+  return (data || []) as OutlierReview[];
+}
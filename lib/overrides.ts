@@ -0,0 +1,226 @@
+/**
+ * Forecast Overrides
+ * Manager edits of forecast quantities (a booked party the model can't see),
+ * logged in forecast_overrides with who, when and why, and scored against
+ * actual sales to tell whether overrides help
+ */
+
+import { supabase } from "@/lib/supabase";
+import { SalesRecord } from "@/lib/forecasting";
+import { fetchSalesHistory } from "@/lib/forecast-job";
+import { addDaysToDateString, getLocalDateString } from "@/lib/timezones";
+
+export type OverrideSource = "dashboard" | "whatsapp";
+
+export interface ForecastOverrideRow {
+  id: string;
+  forecast_date: string;
+  item: string;
+  original_quantity: number | null;
+  override_quantity: number | null; // NULL when the override was reverted
+  reason: string | null;
+  source: OverrideSource;
+  overridden_by: string | null;
+  created_at: string;
+}
+
+export interface OverrideInput {
+  location: { id: string; organization_id: string };
+  forecastDate: string; // YYYY-MM-DD
+  item: string;
+  quantity: number | null; // null reverts to the model's forecast
+  reason?: string | null;
+  source: OverrideSource;
+  overriddenBy?: string | null; // Dashboard user email or WhatsApp phone number
+}
+
+export interface OverrideScore {
+  count: number;
+  modelMae: number; // Mean |model forecast - actual|
+  overrideMae: number; // Mean |override - actual|
+  improved: number; // Overrides closer to the actual than the model
+  hurt: number; // Overrides further from the actual
+}
+
+export interface OverrideReport {
+  overall: OverrideScore;
+  months: ({ month: string } & OverrideScore)[]; // YYYY-MM, oldest first
+}
+
+/**
+ * Set (or revert) the quantity of one forecast row and log it
+ * The original is the model's forecast when the override is made. Returns
+ * null when there is no forecast for that item and date.
+ */
+export async function applyOverride(
+  input: OverrideInput
+): Promise<ForecastOverrideRow | null> {
+  const { data: forecast, error: forecastError } = await supabase
+    .from("forecasts")
+    .select("id, predicted_quantity")
+    .eq("location_id", input.location.id)
+    .eq("forecast_date", input.forecastDate)
+    .eq("item", input.item)
+    .maybeSingle();
+
+  if (forecastError) {
+    throw new Error(`Failed to fetch forecast: ${forecastError.message}`);
+  }
+  if (!forecast) return null;
+
+  const { error: updateError } = await supabase
+    .from("forecasts")
+    .update({ override_quantity: input.quantity })
+    .eq("id", forecast.id);
+
+  if (updateError) {
+    throw new Error(`Failed to override forecast: ${updateError.message}`);
+  }
+
+  const { data: override, error: insertError } = await supabase
+    .from("forecast_overrides")
+    .insert({
+      organization_id: input.location.organization_id,
+      location_id: input.location.id,
+      forecast_date: input.forecastDate,
+      item: input.item,
+      original_quantity: forecast.predicted_quantity,
+      override_quantity: input.quantity,
+      reason: input.reason || null,
+      source: input.source,
+      overridden_by: input.overriddenBy || null,
+    })
+    .select(
+      "id, forecast_date, item, original_quantity, override_quantity, reason, source, overridden_by, created_at"
+    )
+    .single();
+
+  if (insertError) {
+    throw new Error(`Failed to log override: ${insertError.message}`);
+  }
+
+  return override as ForecastOverrideRow;
+}
+
+/**
+ * Override log of a location, newest first
+ */
+export async function loadOverrides(
+  locationId: string,
+  since?: string
+): Promise<ForecastOverrideRow[]> {
+  let query = supabase
+    .from("forecast_overrides")
+    .select(
+      "id, forecast_date, item, original_quantity, override_quantity, reason, source, overridden_by, created_at"
+    )
+    .eq("location_id", locationId);
+  if (since) query = query.gte("forecast_date", since);
+
+  const { data, error } = await query.order("created_at", {
+    ascending: false,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load overrides: ${error.message}`);
+  }
+
+  return (data || []) as ForecastOverrideRow[];
+}
+
+/**
+ * Score the overrides in effect on past days against actual sales
+ * The latest log entry of each day and item is the one in effect; reverted
+ * ones and days without any sales data (closed or not uploaded) are skipped.
+ */
+export function scoreOverrides(
+  overrides: ForecastOverrideRow[],
+  salesHistory: SalesRecord[],
+  today: string
+): OverrideReport {
+  const actuals: { [key: string]: number } = {};
+  const tradingDays = new Set<string>();
+  salesHistory.forEach((record) => {
+    const key = `${record.date}|${record.item}`;
+    actuals[key] = (actuals[key] || 0) + record.quantity;
+    tradingDays.add(record.date);
+  });
+
+  const effective: { [key: string]: ForecastOverrideRow } = {};
+  overrides.forEach((override) => {
+    const key = `${override.forecast_date}|${override.item}`;
+    if (!effective[key] || override.created_at > effective[key].created_at) {
+      effective[key] = override;
+    }
+  });
+
+  const byMonth: { [month: string]: { model: number; override: number }[] } =
+    {};
+  Object.values(effective).forEach((override) => {
+    if (
+      override.forecast_date >= today ||
+      override.override_quantity === null ||
+      override.original_quantity === null ||
+      !tradingDays.has(override.forecast_date)
+    ) {
+      return;
+    }
+
+    const actual = actuals[`${override.forecast_date}|${override.item}`] ?? 0;
+    const month = override.forecast_date.slice(0, 7);
+    if (!byMonth[month]) byMonth[month] = [];
+    byMonth[month].push({
+      model: Math.abs(override.original_quantity - actual),
+      override: Math.abs(override.override_quantity - actual),
+    });
+  });
+
+  const score = (errors: { model: number; override: number }[]) => {
+    const count = errors.length;
+    const mean = (values: number[]) =>
+      count > 0
+        ? Math.round((values.reduce((a, v) => a + v, 0) / count) * 100) / 100
+        : 0;
+    return {
+      count,
+      modelMae: mean(errors.map((e) => e.model)),
+      overrideMae: mean(errors.map((e) => e.override)),
+      improved: errors.filter((e) => e.override < e.model).length,
+      hurt: errors.filter((e) => e.override > e.model).length,
+    };
+  };
+
+  const months = Object.keys(byMonth).sort();
+  return {
+    overall: score(months.flatMap((month) => byMonth[month])),
+    months: months.map((month) => ({ month, ...score(byMonth[month]) })),
+  };
+}
+
+/**
+ * Override log and accuracy report of a location over the last `days` days
+ */
+export async function getOverrideReport(
+  location: { id: string },
+  timezone: string,
+  days: number
+): Promise<{ overrides: ForecastOverrideRow[]; report: OverrideReport }> {
+  const today = getLocalDateString(timezone);
+  const since = addDaysToDateString(today, -days);
+  const overrides = await loadOverrides(location.id, since);
+
+  // A day early, so sales late on the first day in the location's timezone are in
+  const salesHistory =
+    overrides.length > 0
+      ? await fetchSalesHistory(
+          location.id,
+          timezone,
+          addDaysToDateString(since, -1)
+        )
+      : [];
+
+  return {
+    overrides,
+    report: scoreOverrides(overrides, salesHistory, today),
+  };
+}
@@ -0,0 +1,302 @@
+/**
+ * Promotions & Prices
+ * Effective unit prices and promotion flags from sales (revenue_cents and
+ * promotion on sales_data), plus promotions planned per location
+ * (location_promotions), turned into the ItemPromotion and ItemPrice lists
+ * the forecaster learns promotion uplifts and price elasticity from
+ */
+
+import { supabase } from "@/lib/supabase";
+import {
+  ForecastOptions,
+  ItemPrice,
+  ItemPromotion,
+  SalesRecord,
+  horizonForecast,
+} from "@/lib/forecasting";
+import { addDaysToDateString, getDayOfWeek } from "@/lib/timezones";
+
+export interface LocationPromotionRow {
+  id: string;
+  item: string; // As it appears in sales_data and forecasts
+  name: string; // e.g. "2x1 Tuesday"; sales flagged with the same name are past runs
+  start_date: string; // YYYY-MM-DD
+  end_date: string | null; // Inclusive; null = until removed
+  weekdays: number[] | null; // 0 = Sunday; null = every day
+  discount_percent: number | null; // Off the regular price (50 for a 2x1)
+  expected_uplift: number | null;
+}
+
+export type PromotionInput = Omit<LocationPromotionRow, "id">;
+
+// One sales_data row on its local date
+export interface PromotionSale {
+  date: string; // YYYY-MM-DD
+  item: string;
+  quantity: number;
+  revenueCents: number | null; // Paid for the quantity, discounts included
+  promotion: string | null;
+}
+
+export interface SimulatedDay {
+  date: string; // YYYY-MM-DD
+  baseline: number; // Forecast without the promotion
+  forecast: number; // Forecast with it
+  uplift: number | null; // forecast / baseline; null if the baseline is 0
+  baselineRevenueCents: number | null; // At the regular price; null without prices
+  revenueCents: number | null; // At the promotion price
+}
+
+export interface PromotionSimulation {
+  item: string;
+  name: string;
+  regularPriceCents: number | null; // Median effective price off promotion
+  days: SimulatedDay[]; // Only the days the promotion runs
+  totals: Omit<SimulatedDay, "date" | "uplift">;
+}
+
+/**
+ * Same key for a promotion planned in the dashboard and sales flagged with
+ * its name, so past runs teach the forecaster how a planned one will sell
+ */
+export function promotionKey(name: string): string {
+  return `promotion:${name.trim().toLowerCase()}`;
+}
+
+/**
+ * Effective unit price of every item and day (revenue over units, so a free
+ * second unit halves it) and the promotions its sales were flagged with
+ * Sales without revenue are left out of the prices.
+ */
+export function salesPromotions(sales: PromotionSale[]): {
+  prices: ItemPrice[];
+  promotions: ItemPromotion[];
+} {
+  const paid: {
+    [key: string]: { date: string; item: string; cents: number; units: number };
+  } = {};
+  const promotions: { [key: string]: ItemPromotion } = {};
+
+  sales.forEach((sale) => {
+    const dayKey = `${sale.date}|${sale.item}`;
+
+    if (sale.revenueCents !== null && sale.quantity > 0) {
+      if (!paid[dayKey]) {
+        paid[dayKey] = { date: sale.date, item: sale.item, cents: 0, units: 0 };
+      }
+      paid[dayKey].cents += sale.revenueCents;
+      paid[dayKey].units += sale.quantity;
+    }
+
+    const name = sale.promotion?.trim();
+    if (name) {
+      const key = promotionKey(name);
+      promotions[`${dayKey}|${key}`] = {
+        key,
+        name,
+        item: sale.item,
+        date: sale.date,
+      };
+    }
+  });
+
+  return {
+    prices: Object.values(paid).map((day) => ({
+      date: day.date,
+      item: day.item,
+      unitPriceCents: day.cents / day.units,
+    })),
+    promotions: Object.values(promotions),
+  };
+}
+
+/**
+ * Dates a planned promotion runs between two dates (inclusive)
+ */
+export function expandPromotions(
+  rows: PromotionInput[],
+  startDate: string,
+  endDate: string
+): ItemPromotion[] {
+  const promotions: ItemPromotion[] = [];
+
+  rows.forEach((row) => {
+    const from = row.start_date > startDate ? row.start_date : startDate;
+    const to = row.end_date && row.end_date < endDate ? row.end_date : endDate;
+    const weekdays =
+      row.weekdays && row.weekdays.length > 0 ? row.weekdays : null;
+
+    for (let date = from; date <= to; date = addDaysToDateString(date, 1)) {
+      if (weekdays && !weekdays.includes(getDayOfWeek(date))) continue;
+
+      promotions.push({
+        key: promotionKey(row.name),
+        name: row.name,
+        item: row.item,
+        date,
+        discount:
+          row.discount_percent !== null
+            ? Number(row.discount_percent) / 100
+            : undefined,
+        expectedUplift:
+          row.expected_uplift !== null
+            ? Number(row.expected_uplift)
+            : undefined,
+      });
+    }
+  });
+
+  return promotions;
+}
+
+export async function loadLocationPromotions(
+  locationId: string
+): Promise<LocationPromotionRow[]> {
+  const { data, error } = await supabase
+    .from("location_promotions")
+    .select(
+      "id, item, name, start_date, end_date, weekdays, discount_percent, expected_uplift"
+    )
+    .eq("location_id", locationId)
+    .order("start_date", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load promotions: ${error.message}`);
+  }
+
+  return (data || []) as LocationPromotionRow[];
+}
+
+/**
+ * Planned promotions of a location between two dates (inclusive)
+ * Never throws: forecasts go without planned promotions on failure
+ */
+export async function getLocationPromotions(
+  locationId: string,
+  startDate: string,
+  endDate: string
+): Promise<ItemPromotion[]> {
+  try {
+    return expandPromotions(
+      await loadLocationPromotions(locationId),
+      startDate,
+      endDate
+    );
+  } catch (error) {
+    console.error(
+      `Error getting promotions for location ${locationId}:`,
+      error
+    );
+    return [];
+  }
+}
+
+/**
+ * Forecast an item over `days` days from `startDate` with and without a
+ * promotion, on the days it would run
+ * Other promotions in `options` stay; planned days of this one (same name
+ * and item) are taken out of the baseline. Revenue uses the median price the
+ * item sold for off promotion, less the promotion's discount.
+ */
+export function simulatePromotion(
+  salesHistory: SalesRecord[],
+  promotion: PromotionInput,
+  startDate: string,
+  days: number,
+  options: ForecastOptions = {}
+): PromotionSimulation {
+  const key = promotionKey(promotion.name);
+  const endDate = addDaysToDateString(startDate, days - 1);
+  const runs = expandPromotions([promotion], startDate, endDate);
+  const itemHistory = salesHistory.filter(
+    (record) => record.item === promotion.item
+  );
+  const otherPromotions = (options.promotions || []).filter(
+    (other) =>
+      !(
+        other.item === promotion.item &&
+        other.key === key &&
+        other.date >= startDate
+      )
+  );
+
+  const forecastWith = (promotions: ItemPromotion[]) =>
+    horizonForecast(itemHistory, startDate, days, { ...options, promotions })[
+      promotion.item
+    ] || [];
+  const baseline = forecastWith(otherPromotions);
+  const promoted = forecastWith([...otherPromotions, ...runs]);
+
+  const regularPriceCents = regularPrice(
+    options.prices || [],
+    options.promotions || [],
+    promotion.item
+  );
+  const discount = (promotion.discount_percent ?? 0) / 100;
+  const revenue = (units: number, share: number) =>
+    regularPriceCents === null
+      ? null
+      : Math.round(units * regularPriceCents * share);
+
+  const runDates = new Set(runs.map((run) => run.date));
+  const simulated: SimulatedDay[] = promoted
+    .filter((day) => runDates.has(day.date))
+    .map((day) => {
+      const base =
+        baseline.find((baseDay) => baseDay.date === day.date)?.forecast ?? 0;
+      return {
+        date: day.date,
+        baseline: base,
+        forecast: day.forecast,
+        uplift: base > 0 ? Math.round((day.forecast / base) * 100) / 100 : null,
+        baselineRevenueCents: revenue(base, 1),
+        revenueCents: revenue(day.forecast, 1 - discount),
+      };
+    });
+
+  const sum = (values: (number | null)[]) =>
+    values.some((value) => value === null)
+      ? null
+      : values.reduce((acc: number, value) => acc + (value as number), 0);
+
+  return {
+    item: promotion.item,
+    name: promotion.name,
+    regularPriceCents:
+      regularPriceCents === null ? null : Math.round(regularPriceCents),
+    days: simulated,
+    totals: {
+      baseline: simulated.reduce((acc, day) => acc + day.baseline, 0),
+      forecast: simulated.reduce((acc, day) => acc + day.forecast, 0),
+      baselineRevenueCents: sum(
+        simulated.map((day) => day.baselineRevenueCents)
+      ),
+      revenueCents: sum(simulated.map((day) => day.revenueCents)),
+    },
+  };
+}
+
+/**
+ * Median effective price of an item on days it wasn't on promotion
+ */
+function regularPrice(
+  prices: ItemPrice[],
+  promotions: ItemPromotion[],
+  item: string
+): number | null {
+  const promotionDays = new Set(
+    promotions
+      .filter((promotion) => promotion.item === item)
+      .map((promotion) => promotion.date)
+  );
+  const regular = prices
+    .filter((price) => price.item === item && !promotionDays.has(price.date))
+    .map((price) => price.unitPriceCents)
+    .sort((a, b) => a - b);
+  if (regular.length === 0) return null;
+
+  const middle = Math.floor(regular.length / 2);
+  return regular.length % 2 === 1
+    ? regular[middle]
+    : (regular[middle - 1] + regular[middle]) / 2;
+}
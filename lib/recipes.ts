@@ -0,0 +1,143 @@
+/**
+ * Recipes
+ * Turns item forecasts into ingredient prep quantities using the
+ * organization's recipes in recipe_ingredients
+ */
+
+import { supabase } from "@/lib/supabase";
+
+export interface RecipeIngredientRow {
+  id: string;
+  item: string;
+  ingredient: string;
+  quantity: number; // Per unit of the item
+  unit: string;
+}
+
+export interface IngredientPrep {
+  ingredient: string;
+  unit: string;
+  quantity: number;
+  items: string[]; // Forecast items that use it
+}
+
+export interface PrepList {
+  ingredients: IngredientPrep[];
+  unmapped: string[]; // Forecast items without a recipe
+}
+
+/**
+ * Ingredient quantities needed for the forecast items
+ * The same ingredient in different units is listed once per unit, and items
+ * forecast at zero are left out
+ */
+export function explodeRecipes(
+  forecasts: { item: string; quantity: number | null }[],
+  recipes: Pick<
+    RecipeIngredientRow,
+    "item" | "ingredient" | "quantity" | "unit"
+  >[]
+): PrepList {
+  const recipesByItem: { [item: string]: typeof recipes } = {};
+  recipes.forEach((recipe) => {
+    if (!recipesByItem[recipe.item]) recipesByItem[recipe.item] = [];
+    recipesByItem[recipe.item].push(recipe);
+  });
+
+  const prep: { [key: string]: IngredientPrep } = {};
+  const unmapped: string[] = [];
+
+  forecasts.forEach(({ item, quantity }) => {
+    if (!quantity || quantity <= 0) return;
+
+    const itemRecipe = recipesByItem[item];
+    if (!itemRecipe) {
+      unmapped.push(item);
+      return;
+    }
+
+    itemRecipe.forEach((line) => {
+      const key = `${line.ingredient}\u0000${line.unit}`;
+      if (!prep[key]) {
+        prep[key] = {
+          ingredient: line.ingredient,
+          unit: line.unit,
+          quantity: 0,
+          items: [],
+        };
+      }
+      prep[key].quantity += Number(line.quantity) * quantity;
+      if (!prep[key].items.includes(item)) prep[key].items.push(item);
+    });
+  });
+
+  return {
+    ingredients: Object.values(prep)
+      .map((ingredient) => ({
+        ...ingredient,
+        quantity: Math.round(ingredient.quantity * 100) / 100,
+      }))
+      .sort((a, b) => a.ingredient.localeCompare(b.ingredient)),
+    unmapped: unmapped.sort((a, b) => a.localeCompare(b)),
+  };
+}
+
+/**
+ * Recipe lines of an organization
+ */
+export async function loadRecipes(
+  organizationId: string
+): Promise<RecipeIngredientRow[]> {
+  const { data, error } = await supabase
+    .from("recipe_ingredients")
+    .select("id, item, ingredient, quantity, unit")
+    .eq("organization_id", organizationId)
+    .order("item", { ascending: true })
+    .order("ingredient", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load recipes: ${error.message}`);
+  }
+
+  return ((data || []) as RecipeIngredientRow[]).map((row) => ({
+    ...row,
+    quantity: Number(row.quantity),
+  }));
+}
+
+/**
+ * Prep list for a location's forecasts on a date (YYYY-MM-DD)
+ */
+export async function getPrepList(
+  location: { id: string; organization_id: string },
+  forecastDate: string
+): Promise<PrepList> {
+  const { data: forecasts, error } = await supabase
+    .from("forecasts")
+    .select("item, predicted_quantity, prep_quantity, override_quantity")
+    .eq("location_id", location.id)
+    .eq("forecast_date", forecastDate);
+
+  if (error) {
+    throw new Error(`Failed to fetch forecasts: ${error.message}`);
+  }
+
+  return explodeRecipes(
+    (forecasts || []).map((forecast) => ({
+      item: forecast.item,
+      // A manager's override wins; items with a service level are prepped at it
+      quantity:
+        forecast.override_quantity ??
+        forecast.prep_quantity ??
+        forecast.predicted_quantity,
+    })),
+    await loadRecipes(location.organization_id)
+  );
+}
+
+/**
+ * "1,250 g", "12 each"
+ */
+export function formatPrepQuantity(prep: IngredientPrep): string {
+  return `${prep.quantity.toLocaleString("en-US")} ${prep.unit}`;
+}
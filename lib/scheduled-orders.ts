@@ -0,0 +1,116 @@
+/**
+ * Scheduled Orders
+ * Orders known in advance per location (scheduled_orders), like catering or
+ * a group pre-booking: pending ones are added on top of the forecast, and
+ * the ones a manager marks fulfilled are taken out of the sales history so
+ * one-off volume isn't learned as demand. Cancelled ones do neither.
+ */
+
+import { supabase } from "@/lib/supabase";
+import { SalesRecord, ScheduledOrder } from "@/lib/forecasting";
+
+export type ScheduledOrderStatus = "pending" | "fulfilled" | "cancelled";
+
+export interface ScheduledOrderRow {
+  id: string;
+  date: string; // YYYY-MM-DD, the local date it is served or picked up
+  name: string; // e.g. "Acme offsite, 60 people"
+  items: { [item: string]: number }; // Units per item, named as in sales_data
+  status: ScheduledOrderStatus;
+}
+
+export type ScheduledOrderInput = Omit<ScheduledOrderRow, "id">;
+
+/**
+ * Item lines of stored orders with a status between two dates (inclusive)
+ * Malformed or non-positive quantities are skipped.
+ */
+export function orderLines(
+  rows: ScheduledOrderInput[],
+  status: ScheduledOrderStatus,
+  startDate: string,
+  endDate: string
+): ScheduledOrder[] {
+  const lines: ScheduledOrder[] = [];
+
+  rows.forEach((row) => {
+    if (row.status !== status) return;
+    if (row.date < startDate || row.date > endDate) return;
+
+    Object.entries(row.items || {}).forEach(([item, quantity]) => {
+      const units = Math.round(Number(quantity));
+      if (!item.trim() || !(units > 0)) return;
+      lines.push({ date: row.date, item: item.trim(), quantity: units });
+    });
+  });
+
+  return lines;
+}
+
+/**
+ * Sales history without the units of fulfilled orders
+ * Each order's units come off the item's records of its date, never below
+ * zero (the order may have been recorded short, or not uploaded yet).
+ */
+export function withoutOrders(
+  salesHistory: SalesRecord[],
+  orders: ScheduledOrder[]
+): SalesRecord[] {
+  if (orders.length === 0) return salesHistory;
+
+  const remaining: { [key: string]: number } = {};
+  orders.forEach((order) => {
+    const key = `${order.date}|${order.item}`;
+    remaining[key] = (remaining[key] || 0) + order.quantity;
+  });
+
+  return salesHistory.map((record) => {
+    const key = `${record.date}|${record.item}`;
+    if (!remaining[key] || record.quantity <= 0) return record;
+
+    const taken = Math.min(record.quantity, remaining[key]);
+    remaining[key] -= taken;
+    return { ...record, quantity: record.quantity - taken };
+  });
+}
+
+export async function loadScheduledOrders(
+  locationId: string
+): Promise<ScheduledOrderRow[]> {
+  const { data, error } = await supabase
+    .from("scheduled_orders")
+    .select("id, date, name, items, status")
+    .eq("location_id", locationId)
+    .order("date", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load scheduled orders: ${error.message}`);
+  }
+
+  return (data || []) as ScheduledOrderRow[];
+}
+
+/**
+ * Item lines of a location's pending and fulfilled orders between two dates
+ * (inclusive)
+ * Never throws: forecasts go without scheduled orders on failure
+ */
+export async function getScheduledOrders(
+  locationId: string,
+  startDate: string,
+  endDate: string
+): Promise<{ pending: ScheduledOrder[]; fulfilled: ScheduledOrder[] }> {
+  try {
+    const rows = await loadScheduledOrders(locationId);
+    return {
+      pending: orderLines(rows, "pending", startDate, endDate),
+      fulfilled: orderLines(rows, "fulfilled", startDate, endDate),
+    };
+  } catch (error) {
+    console.error(
+      `Error getting scheduled orders for location ${locationId}:`,
+      error
+    );
+    return { pending: [], fulfilled: [] };
+  }
+}
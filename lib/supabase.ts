@@ -5,6 +5,9 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+// Supabase caps each select at 1000 rows, so longer reads are fetched in pages
+export const SUPABASE_PAGE_SIZE = 1000;
+
 // For server-side operations
 // export const supabaseAdmin = createClient(
 //   supabaseUrl,
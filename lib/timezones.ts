@@ -381,3 +381,95 @@ export function extractTimezoneFromTIMETZ(timetz: string): string {
     return "America/New_York";
   }
 }
+
+/**
+ * Get a calendar date as seen in the given timezone
+ * @param timezone - IANA timezone string
+ * @param offsetDays - Days to add to today's date in that timezone (e.g. 1 for tomorrow)
+ * @returns Date in YYYY-MM-DD format
+ */
+export function getLocalDateString(
+  timezone: string,
+  offsetDays: number = 0
+): string {
+  return addDaysToDateString(
+    toLocalDateString(new Date(), timezone),
+    offsetDays
+  );
+}
+
+/**
+ * Get the calendar date of an instant as seen in the given timezone
+ * @param instant - Date or ISO timestamp
+ * @param timezone - IANA timezone string
+ * @returns Date in YYYY-MM-DD format
+ */
+export function toLocalDateString(
+  instant: Date | string,
+  timezone: string
+): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(instant));
+}
+
+/**
+ * Get the hour of an instant as seen in the given timezone
+ * @param instant - Date or ISO timestamp
+ * @param timezone - IANA timezone string
+ * @returns Hour from 0 to 23
+ */
+export function toLocalHour(instant: Date | string, timezone: string): number {
+  return Number(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hour: "numeric",
+      hourCycle: "h23",
+    }).format(new Date(instant))
+  );
+}
+
+/*
+ * Plain calendar dates (YYYY-MM-DD) carry no time or timezone. The helpers
+ * below do their arithmetic in UTC so results never depend on the server's
+ * timezone.
+ */
+
+/**
+ * Add days to a plain date
+ * @param date - Date in YYYY-MM-DD format
+ * @param days - Days to add (negative to subtract)
+ * @returns Date in YYYY-MM-DD format
+ */
+export function addDaysToDateString(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .split("T")[0];
+}
+
+/**
+ * Day of the week of a plain date
+ * @param date - Date in YYYY-MM-DD format
+ * @returns 0 (Sunday) to 6 (Saturday)
+ */
+export function getDayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Whole days from one plain date to another
+ * @param start - Date in YYYY-MM-DD format
+ * @param end - Date in YYYY-MM-DD format
+ * @returns Days from start to end (negative if end is earlier)
+ */
+export function daysBetween(start: string, end: string): number {
+  return Math.round(
+    (Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) /
+      (1000 * 60 * 60 * 24)
+  );
+}
@@ -0,0 +1,292 @@
+/**
+ * Weather
+ * Pluggable providers of daily weather per location, cached in location_weather
+ * and passed to the forecaster as covariates
+ */
+
+import { readFile } from "fs/promises";
+import { supabase } from "@/lib/supabase";
+import { DailyWeather } from "@/lib/forecasting";
+import { addDaysToDateString } from "@/lib/timezones";
+
+export interface WeatherLocation {
+  id: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface WeatherProvider {
+  name: string;
+  // Days observed history trails today by; the forecast covers them until then
+  historyLagDays?: number;
+  // Observed weather for past dates (inclusive, YYYY-MM-DD)
+  fetchHistory(
+    location: WeatherLocation,
+    startDate: string,
+    endDate: string
+  ): Promise<DailyWeather[]>;
+  // Forecast weather for upcoming dates (inclusive, YYYY-MM-DD)
+  fetchForecast(
+    location: WeatherLocation,
+    startDate: string,
+    endDate: string
+  ): Promise<DailyWeather[]>;
+}
+
+interface LocationWeatherRow {
+  date: string;
+  temperature_c: number;
+  precipitation_mm: number;
+  is_forecast: boolean;
+}
+
+interface OpenMeteoDaily {
+  time: string[];
+  temperature_2m_max: (number | null)[];
+  temperature_2m_min: (number | null)[];
+  precipitation_sum: (number | null)[];
+}
+
+const OPEN_METEO_ARCHIVE_URL = "https://archive-api.open-meteo.com/v1/archive";
+const OPEN_METEO_FORECAST_URL = "https://api.open-meteo.com/v1/forecast";
+
+// The archive publishes a day about five days after it ends
+const OPEN_METEO_ARCHIVE_LAG_DAYS = 5;
+
+/**
+ * Open-Meteo (free, no API key)
+ * History is only asked of the archive up to five days ago; the forecast API
+ * covers the days since, which are replaced by observations once archived
+ */
+export const openMeteoProvider: WeatherProvider = {
+  name: "open-meteo",
+  historyLagDays: OPEN_METEO_ARCHIVE_LAG_DAYS,
+  fetchHistory: (location, startDate, endDate) =>
+    fetchOpenMeteo(OPEN_METEO_ARCHIVE_URL, location, startDate, endDate),
+  fetchForecast: (location, startDate, endDate) =>
+    fetchOpenMeteo(OPEN_METEO_FORECAST_URL, location, startDate, endDate),
+};
+
+/**
+ * Provider backed by a local JSON file, for testing and offline development
+ * The file maps location IDs to daily weather:
+ * { "<location id>": [{ "date": "2026-10-01", "temperature": 21.5, "precipitation": 0 }] }
+ * History and forecast are both read from it.
+ */
+export function createFileWeatherProvider(filePath: string): WeatherProvider {
+  const readRange = async (
+    location: WeatherLocation,
+    startDate: string,
+    endDate: string
+  ) => {
+    const contents = JSON.parse(await readFile(filePath, "utf8")) as {
+      [locationId: string]: DailyWeather[];
+    };
+    return (contents[location.id] || []).filter(
+      (day) => day.date >= startDate && day.date <= endDate
+    );
+  };
+
+  return {
+    name: "file",
+    fetchHistory: readRange,
+    fetchForecast: readRange,
+  };
+}
+
+/**
+ * Provider selected by WEATHER_PROVIDER ("open-meteo" or "file", which reads
+ * WEATHER_FILE); null when weather is disabled
+ */
+export function getWeatherProvider(): WeatherProvider | null {
+  switch (process.env.WEATHER_PROVIDER) {
+    case "open-meteo":
+      return openMeteoProvider;
+    case "file":
+      if (!process.env.WEATHER_FILE) {
+        console.warn("WEATHER_PROVIDER=file but WEATHER_FILE is not set");
+        return null;
+      }
+      return createFileWeatherProvider(process.env.WEATHER_FILE);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Daily weather of a location between two dates (inclusive): observed up to
+ * the provider's history lag before `today` (the location's local date),
+ * forecast after that
+ * Missing history is fetched once and stored; forecasts are refreshed on every
+ * call. Never throws: returns whatever weather is available (possibly none).
+ */
+export async function getLocationWeather(
+  location: {
+    id: string;
+    organization_id: string;
+    latitude: number | null;
+    longitude: number | null;
+  },
+  startDate: string,
+  endDate: string,
+  today: string,
+  provider: WeatherProvider | null = getWeatherProvider()
+): Promise<DailyWeather[]> {
+  if (!provider || location.latitude === null || location.longitude === null) {
+    return [];
+  }
+
+  const weatherLocation: WeatherLocation = {
+    id: location.id,
+    latitude: Number(location.latitude),
+    longitude: Number(location.longitude),
+  };
+
+  const byDate: { [date: string]: DailyWeather } = {};
+
+  // Past days still holding a forecast get replaced by observations
+  const storedHistory = new Set<string>();
+  try {
+    const { data: rows, error } = await supabase
+      .from("location_weather")
+      .select("date, temperature_c, precipitation_mm, is_forecast")
+      .eq("location_id", location.id)
+      .gte("date", startDate)
+      .lte("date", endDate);
+
+    if (error) {
+      throw new Error(`Failed to load stored weather: ${error.message}`);
+    }
+
+    (rows as LocationWeatherRow[]).forEach((row) => {
+      byDate[row.date] = {
+        date: row.date,
+        temperature: Number(row.temperature_c),
+        precipitation: Number(row.precipitation_mm),
+      };
+      if (!row.is_forecast) storedHistory.add(row.date);
+    });
+  } catch (error) {
+    console.error(
+      `Error loading stored weather for location ${location.id}:`,
+      error
+    );
+  }
+
+  // Observed up to the last day the provider has; forecast from the day after
+  const historyEnd = addDaysToDateString(
+    today,
+    -(provider.historyLagDays ?? 1)
+  );
+  const forecastStart = addDaysToDateString(historyEnd, 1);
+
+  const missingHistory: string[] = [];
+  let date = startDate;
+  while (date <= historyEnd && date <= endDate) {
+    if (!storedHistory.has(date)) missingHistory.push(date);
+    date = addDaysToDateString(date, 1);
+  }
+
+  // Separate so a failing archive doesn't cost the forecast, or vice versa
+  const fetched: { day: DailyWeather; isForecast: boolean }[] = [];
+
+  if (missingHistory.length > 0) {
+    try {
+      const history = await provider.fetchHistory(
+        weatherLocation,
+        missingHistory[0],
+        missingHistory[missingHistory.length - 1]
+      );
+      history.forEach((day) => fetched.push({ day, isForecast: false }));
+    } catch (error) {
+      console.error(
+        `Error fetching weather history for location ${location.id}:`,
+        error
+      );
+    }
+  }
+
+  if (endDate >= forecastStart) {
+    try {
+      const forecast = await provider.fetchForecast(
+        weatherLocation,
+        forecastStart > startDate ? forecastStart : startDate,
+        endDate
+      );
+      forecast.forEach((day) => fetched.push({ day, isForecast: true }));
+    } catch (error) {
+      console.error(
+        `Error fetching weather forecast for location ${location.id}:`,
+        error
+      );
+    }
+  }
+
+  fetched.forEach(({ day }) => {
+    byDate[day.date] = day;
+  });
+
+  if (fetched.length > 0) {
+    const fetchedAt = new Date().toISOString();
+    const { error: upsertError } = await supabase
+      .from("location_weather")
+      .upsert(
+        fetched.map(({ day, isForecast }) => ({
+          organization_id: location.organization_id,
+          location_id: location.id,
+          date: day.date,
+          temperature_c: day.temperature,
+          precipitation_mm: day.precipitation,
+          is_forecast: isForecast,
+          provider: provider.name,
+          fetched_at: fetchedAt,
+        })),
+        { onConflict: "location_id,date" }
+      );
+
+    if (upsertError) {
+      // Still use it; missing days are fetched again next time
+      console.error("Error saving weather:", upsertError);
+    }
+  }
+
+  return Object.values(byDate).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+async function fetchOpenMeteo(
+  baseUrl: string,
+  location: WeatherLocation,
+  startDate: string,
+  endDate: string
+): Promise<DailyWeather[]> {
+  const params = new URLSearchParams({
+    latitude: String(location.latitude),
+    longitude: String(location.longitude),
+    start_date: startDate,
+    end_date: endDate,
+    daily: "temperature_2m_max,temperature_2m_min,precipitation_sum",
+    timezone: "auto",
+  });
+
+  const response = await fetch(`${baseUrl}?${params}`);
+  if (!response.ok) {
+    throw new Error(
+      `Open-Meteo request failed: ${response.status} ${await response.text()}`
+    );
+  }
+
+  const { daily } = (await response.json()) as { daily?: OpenMeteoDaily };
+  if (!daily) return [];
+
+  const days: DailyWeather[] = [];
+  daily.time.forEach((date, idx) => {
+    const max = daily.temperature_2m_max[idx];
+    const min = daily.temperature_2m_min[idx];
+    const precipitation = daily.precipitation_sum[idx];
+    if (max === null || min === null || precipitation === null) return;
+
+    days.push({ date, temperature: (max + min) / 2, precipitation });
+  });
+
+  return days;
+}
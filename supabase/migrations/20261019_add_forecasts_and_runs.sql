@@ -0,0 +1,51 @@
+-- Forecasts table (one row per location, date and item)
+CREATE TABLE IF NOT EXISTS public.forecasts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  forecast_date DATE NOT NULL,
+  item TEXT NOT NULL,
+  predicted_quantity INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Required for upserts from the forecast job
+CREATE UNIQUE INDEX IF NOT EXISTS idx_forecasts_location_date_item
+ON public.forecasts(location_id, forecast_date, item);
+
+-- Forecast job runs (one row per invocation)
+CREATE TABLE IF NOT EXISTS public.forecast_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'completed_with_errors', 'failed')),
+  locations_total INTEGER NOT NULL DEFAULT 0,
+  locations_succeeded INTEGER NOT NULL DEFAULT 0,
+  locations_failed INTEGER NOT NULL DEFAULT 0,
+  locations_skipped INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Per-location outcome of each forecast job run
+CREATE TABLE IF NOT EXISTS public.forecast_run_locations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id UUID REFERENCES forecast_runs(id) ON DELETE CASCADE,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  forecast_date DATE,
+  status TEXT NOT NULL CHECK (status IN ('success', 'skipped', 'failed')),
+  items_forecasted INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_forecasts_organization ON public.forecasts(organization_id);
+CREATE INDEX IF NOT EXISTS idx_forecasts_date ON public.forecasts(forecast_date);
+CREATE INDEX IF NOT EXISTS idx_forecast_run_locations_run ON public.forecast_run_locations(run_id);
+CREATE INDEX IF NOT EXISTS idx_forecast_run_locations_location ON public.forecast_run_locations(location_id);
+
+ALTER TABLE public.forecasts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.forecast_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.forecast_run_locations ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.forecast_runs.status IS 'Status: running, completed, completed_with_errors, failed';
+COMMENT ON COLUMN public.forecast_run_locations.status IS 'Status: success, skipped (no sales history), failed';
@@ -0,0 +1,5 @@
+-- Prediction intervals alongside the point forecast
+ALTER TABLE public.forecasts
+ADD COLUMN IF NOT EXISTS prediction_quantiles JSONB;
+
+COMMENT ON COLUMN public.forecasts.prediction_quantiles IS 'Quantile forecasts keyed by percentile, e.g. {"p10": 32, "p50": 40, "p90": 51}';
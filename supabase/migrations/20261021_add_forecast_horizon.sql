@@ -0,0 +1,9 @@
+-- Multi-day forecast horizon
+ALTER TABLE public.forecasts
+ADD COLUMN IF NOT EXISTS horizon_day INTEGER;
+
+ALTER TABLE public.forecast_run_locations
+ADD COLUMN IF NOT EXISTS horizon_days INTEGER NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN public.forecasts.horizon_day IS 'Days ahead of the generating run (1 = tomorrow)';
+COMMENT ON COLUMN public.forecast_run_locations.horizon_days IS 'Number of consecutive days forecast in the run';
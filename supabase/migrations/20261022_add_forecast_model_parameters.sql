@@ -0,0 +1,22 @@
+-- Fitted ensemble weights and smoothing parameters per item (item NULL = whole location)
+CREATE TABLE IF NOT EXISTS public.forecast_model_parameters (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  item TEXT,
+  weights JSONB NOT NULL,
+  alpha NUMERIC NOT NULL,
+  recent_weight NUMERIC NOT NULL,
+  mae NUMERIC,
+  observations INTEGER NOT NULL DEFAULT 0,
+  fitted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_forecast_model_parameters_location_item
+ON public.forecast_model_parameters(location_id, item) NULLS NOT DISTINCT;
+
+ALTER TABLE public.forecast_model_parameters ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.forecast_model_parameters.item IS 'Menu item, or NULL for the location-level fit used as fallback';
+COMMENT ON COLUMN public.forecast_model_parameters.weights IS 'Ensemble weights: [weightedMovingAverage, exponentialSmoothing, dayOfWeekPattern, linearTrendForecast]';
+COMMENT ON COLUMN public.forecast_model_parameters.mae IS 'Backtest ensemble MAE achieved with these parameters';
@@ -0,0 +1,27 @@
+-- Country used to pick the built-in holiday calendar (ISO 3166-1 alpha-2, e.g. 'US', 'MX', 'CO')
+ALTER TABLE public.locations
+ADD COLUMN IF NOT EXISTS country TEXT;
+
+COMMENT ON COLUMN public.locations.country IS 'ISO 3166-1 alpha-2 country for the holiday calendar; NULL = derived from the kitchen_close timezone';
+
+-- Organization-defined events per location (local festivals, street closures, ...)
+CREATE TABLE IF NOT EXISTS public.location_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE,
+  recurs_annually BOOLEAN NOT NULL DEFAULT false,
+  expected_uplift NUMERIC CHECK (expected_uplift > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_location_events_location
+ON public.location_events(location_id);
+
+ALTER TABLE public.location_events ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.location_events.end_date IS 'Last day of a multi-day event; NULL = single day';
+COMMENT ON COLUMN public.location_events.recurs_annually IS 'Repeat on the same month/day every year';
+COMMENT ON COLUMN public.location_events.expected_uplift IS 'Manager estimate of the sales multiplier (e.g. 1.5), used until the event has been observed in sales history';
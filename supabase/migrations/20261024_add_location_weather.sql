@@ -0,0 +1,21 @@
+-- Daily weather per location (observed and forecast), cached from the weather provider
+CREATE TABLE IF NOT EXISTS public.location_weather (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  temperature_c NUMERIC NOT NULL,
+  precipitation_mm NUMERIC NOT NULL,
+  is_forecast BOOLEAN NOT NULL DEFAULT false,
+  provider TEXT NOT NULL,
+  fetched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_location_weather_location_date
+ON public.location_weather(location_id, date);
+
+ALTER TABLE public.location_weather ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.location_weather.temperature_c IS 'Daily mean temperature (°C)';
+COMMENT ON COLUMN public.location_weather.precipitation_mm IS 'Daily precipitation total (mm)';
+COMMENT ON COLUMN public.location_weather.is_forecast IS 'true until the day has passed and observed weather replaces the forecast';
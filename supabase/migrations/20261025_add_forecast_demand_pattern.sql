@@ -0,0 +1,7 @@
+-- Intermittent-demand output alongside the point forecast
+ALTER TABLE public.forecasts
+ADD COLUMN IF NOT EXISTS probability_of_sale NUMERIC,
+ADD COLUMN IF NOT EXISTS demand_pattern TEXT CHECK (demand_pattern IN ('smooth', 'intermittent'));
+
+COMMENT ON COLUMN public.forecasts.probability_of_sale IS 'Chance (0-1) of selling at least one unit on forecast_date';
+COMMENT ON COLUMN public.forecasts.demand_pattern IS 'smooth: ensemble forecast; intermittent: sells on few days, forecast with Croston/TSB';
@@ -0,0 +1,6 @@
+-- Holt-Winters joins the ensemble: a fifth weight and its season type
+ALTER TABLE public.forecast_model_parameters
+ADD COLUMN IF NOT EXISTS seasonality TEXT CHECK (seasonality IN ('additive', 'multiplicative'));
+
+COMMENT ON COLUMN public.forecast_model_parameters.weights IS 'Ensemble weights: [weightedMovingAverage, exponentialSmoothing, dayOfWeekPattern, linearTrendForecast, holtWinters]';
+COMMENT ON COLUMN public.forecast_model_parameters.seasonality IS 'Holt-Winters weekly season: additive or multiplicative';
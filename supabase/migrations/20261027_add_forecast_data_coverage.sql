@@ -0,0 +1,5 @@
+-- How complete the sales history behind each forecast is
+ALTER TABLE public.forecasts
+ADD COLUMN IF NOT EXISTS data_coverage NUMERIC;
+
+COMMENT ON COLUMN public.forecasts.data_coverage IS 'Share (0-1) of open days since the item''s first sale that have sales data; the rest are missing, not zero';
@@ -0,0 +1,23 @@
+-- Days whose sales look anomalous (catering orders, bad uploads), flagged by the forecast job
+CREATE TABLE IF NOT EXISTS public.sales_outliers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  item TEXT NOT NULL,
+  quantity NUMERIC NOT NULL,
+  expected_quantity NUMERIC NOT NULL,
+  score NUMERIC NOT NULL,
+  status TEXT NOT NULL DEFAULT 'flagged' CHECK (status IN ('flagged', 'confirmed', 'rejected')),
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  reviewed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_outliers_location_date_item
+ON public.sales_outliers(location_id, date, item);
+
+ALTER TABLE public.sales_outliers ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.sales_outliers.expected_quantity IS 'Median of the same weekday in the surrounding weeks';
+COMMENT ON COLUMN public.sales_outliers.score IS 'Robust z-score (median/MAD); positive = spike, negative = drop';
+COMMENT ON COLUMN public.sales_outliers.status IS 'flagged: capped while unreviewed; confirmed: excluded from training; rejected: real demand, kept as sold';
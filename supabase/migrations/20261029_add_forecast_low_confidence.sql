@@ -0,0 +1,5 @@
+-- Forecasts of items (or locations) with little sales history yet
+ALTER TABLE public.forecasts
+ADD COLUMN IF NOT EXISTS low_confidence BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.forecasts.low_confidence IS 'Under 28 trading days of history; blended with the same item at peer locations when available';
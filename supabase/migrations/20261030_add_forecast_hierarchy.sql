@@ -0,0 +1,37 @@
+-- Menu categories per organization (e.g. "Bowls"), the middle level of the forecast hierarchy
+CREATE TABLE IF NOT EXISTS public.item_categories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  item TEXT NOT NULL,
+  category TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_item_categories_organization_item
+ON public.item_categories(organization_id, item);
+
+ALTER TABLE public.item_categories ENABLE ROW LEVEL SECURITY;
+
+-- Category and location totals, reconciled with the item rows in forecasts
+CREATE TABLE IF NOT EXISTS public.forecast_aggregates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  forecast_date DATE NOT NULL,
+  level TEXT NOT NULL CHECK (level IN ('category', 'location')),
+  category TEXT,
+  predicted_quantity INTEGER,
+  prediction_quantiles JSONB,
+  reconciliation TEXT NOT NULL CHECK (reconciliation IN ('bottom-up', 'mint')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_forecast_aggregates_location_date_level
+ON public.forecast_aggregates(location_id, forecast_date, level, category) NULLS NOT DISTINCT;
+
+ALTER TABLE public.forecast_aggregates ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.item_categories.item IS 'Menu item name as it appears in sales_data; items without a row are Uncategorized';
+COMMENT ON COLUMN public.forecast_aggregates.category IS 'Category name for level = category; NULL for the location total';
+COMMENT ON COLUMN public.forecast_aggregates.predicted_quantity IS 'Sum of the reconciled item forecasts of the category or location';
+COMMENT ON COLUMN public.forecast_aggregates.reconciliation IS 'bottom-up: items summed as forecast; mint: item forecasts adjusted toward the category and location forecasts';
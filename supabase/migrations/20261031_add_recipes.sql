@@ -0,0 +1,19 @@
+-- Recipes: ingredients (with quantity and unit) per unit of a menu item, per organization
+CREATE TABLE IF NOT EXISTS public.recipe_ingredients (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  item TEXT NOT NULL,
+  ingredient TEXT NOT NULL,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  unit TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recipe_ingredients_organization_item_ingredient
+ON public.recipe_ingredients(organization_id, item, ingredient);
+
+ALTER TABLE public.recipe_ingredients ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.recipe_ingredients.item IS 'Menu item as named in sales_data and forecasts';
+COMMENT ON COLUMN public.recipe_ingredients.quantity IS 'Amount of the ingredient in one unit of the item, in unit';
+COMMENT ON COLUMN public.recipe_ingredients.unit IS 'Free-form unit (g, kg, ml, each); the same ingredient in different units is prepped separately';
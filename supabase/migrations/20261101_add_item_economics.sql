@@ -0,0 +1,30 @@
+-- Cost, price and shelf life per item, for service-level-aware prep quantities
+CREATE TABLE IF NOT EXISTS public.item_economics (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  item TEXT NOT NULL,
+  unit_cost_cents INTEGER NOT NULL CHECK (unit_cost_cents >= 0),
+  price_cents INTEGER NOT NULL CHECK (price_cents >= 0),
+  shelf_life_days INTEGER NOT NULL DEFAULT 1 CHECK (shelf_life_days >= 1),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_item_economics_organization_item
+ON public.item_economics(organization_id, item);
+
+ALTER TABLE public.item_economics ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.item_economics.unit_cost_cents IS 'Cost of making one unit (ingredients and prep)';
+COMMENT ON COLUMN public.item_economics.shelf_life_days IS 'Days a prepped unit can still be sold; 1 = wasted at close';
+
+ALTER TABLE public.forecasts
+ADD COLUMN IF NOT EXISTS prep_quantity INTEGER,
+ADD COLUMN IF NOT EXISTS service_level NUMERIC;
+
+COMMENT ON COLUMN public.forecasts.prep_quantity IS 'Newsvendor prep: the forecast quantile at service_level; NULL without item_economics';
+COMMENT ON COLUMN public.forecasts.service_level IS 'Critical ratio (price - cost) / (price - cost + cost / shelf_life_days)';
+
+ALTER TABLE public.reports
+ADD COLUMN IF NOT EXISTS prep_quantity INTEGER;
+
+COMMENT ON COLUMN public.reports.prep_quantity IS 'Recommended prep for the day, next to the raw forecast_quantity';
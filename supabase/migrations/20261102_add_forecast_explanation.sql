@@ -0,0 +1,5 @@
+-- Why each forecast is what it is: ensemble contributions, weekday effect, trend and adjustments
+ALTER TABLE public.forecasts
+ADD COLUMN IF NOT EXISTS explanation JSONB;
+
+COMMENT ON COLUMN public.forecasts.explanation IS 'ForecastExplanation (lib/forecasting.ts): per-method forecast, weight and contribution, baseline, weekday effect, trend slope, prior, events, weather, outliers and reconciliation';
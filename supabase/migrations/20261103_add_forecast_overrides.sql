@@ -0,0 +1,29 @@
+-- Manager overrides of forecast quantities
+ALTER TABLE public.forecasts
+ADD COLUMN IF NOT EXISTS override_quantity INTEGER;
+
+COMMENT ON COLUMN public.forecasts.override_quantity IS 'Quantity set by a manager, sent instead of predicted_quantity; NULL when not overridden';
+
+-- Audit trail: every override (and revert) with who, when and why
+CREATE TABLE IF NOT EXISTS public.forecast_overrides (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  forecast_date DATE NOT NULL,
+  item TEXT NOT NULL,
+  original_quantity INTEGER,
+  override_quantity INTEGER,
+  reason TEXT,
+  source TEXT NOT NULL CHECK (source IN ('dashboard', 'whatsapp')),
+  overridden_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_forecast_overrides_location_date
+ON public.forecast_overrides(location_id, forecast_date);
+
+ALTER TABLE public.forecast_overrides ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.forecast_overrides.original_quantity IS 'Model forecast (predicted_quantity) when the override was made';
+COMMENT ON COLUMN public.forecast_overrides.override_quantity IS 'NULL when the entry reverts to the model forecast';
+COMMENT ON COLUMN public.forecast_overrides.overridden_by IS 'Email of the dashboard user or phone number of the WhatsApp sender';
@@ -0,0 +1,7 @@
+-- Hourly and daypart split of each forecast, from when the item sells during the day
+ALTER TABLE public.forecasts
+ADD COLUMN IF NOT EXISTS hourly_quantities JSONB,
+ADD COLUMN IF NOT EXISTS daypart_quantities JSONB;
+
+COMMENT ON COLUMN public.forecasts.hourly_quantities IS 'Units per local hour, e.g. {"11": 6, "12": 14}; adds up to predicted_quantity. NULL without timestamped POS sales';
+COMMENT ON COLUMN public.forecasts.daypart_quantities IS 'Units per daypart (breakfast before 11:00, lunch 11:00-16:00, dinner after), summed from hourly_quantities';
@@ -0,0 +1,38 @@
+-- Model version that produced each forecast (see MODEL_VERSIONS in lib/model-versions.ts)
+ALTER TABLE public.forecasts
+ADD COLUMN IF NOT EXISTS model_version TEXT;
+
+COMMENT ON COLUMN public.forecasts.model_version IS 'Champion model version that produced the row, e.g. ensemble-v1';
+
+-- Champion (sent) and challenger (shadow) model version per organization
+CREATE TABLE IF NOT EXISTS public.organization_models (
+  organization_id TEXT PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  champion_version TEXT NOT NULL DEFAULT 'ensemble-v1',
+  challenger_version TEXT,
+  promoted_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.organization_models ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.organization_models.challenger_version IS 'Run next to the champion in shadow mode; NULL for none';
+COMMENT ON COLUMN public.organization_models.promoted_at IS 'When the last challenger became the champion';
+
+-- Challenger forecasts, compared with the champion but never sent
+CREATE TABLE IF NOT EXISTS public.shadow_forecasts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  forecast_date DATE NOT NULL,
+  horizon_day INTEGER,
+  item TEXT NOT NULL,
+  model_version TEXT NOT NULL,
+  predicted_quantity INTEGER,
+  prediction_quantiles JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shadow_forecasts_location_date_item_version
+ON public.shadow_forecasts(location_id, forecast_date, item, model_version);
+
+ALTER TABLE public.shadow_forecasts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,33 @@
+-- Promotion a sale was part of, captured on upload next to revenue_cents
+ALTER TABLE public.sales_data
+ADD COLUMN IF NOT EXISTS promotion TEXT;
+
+COMMENT ON COLUMN public.sales_data.revenue_cents IS 'Paid for the quantity after discounts, in cents; NULL = unknown. Revenue over quantity is the effective unit price';
+COMMENT ON COLUMN public.sales_data.promotion IS 'Promotion the sale was part of (e.g. 2x1 Tuesday); NULL = regular price';
+
+-- Promotions planned per location and item (see lib/promotions.ts)
+CREATE TABLE IF NOT EXISTS public.location_promotions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  item TEXT NOT NULL,
+  name TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE,
+  weekdays INTEGER[],
+  discount_percent NUMERIC CHECK (discount_percent > 0 AND discount_percent < 100),
+  expected_uplift NUMERIC CHECK (expected_uplift > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_location_promotions_location
+ON public.location_promotions(location_id);
+
+ALTER TABLE public.location_promotions ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.location_promotions.item IS 'Menu item as named in sales_data and forecasts';
+COMMENT ON COLUMN public.location_promotions.name IS 'Sales flagged with the same promotion name are past runs of it';
+COMMENT ON COLUMN public.location_promotions.end_date IS 'Last day of the promotion; NULL = runs until removed';
+COMMENT ON COLUMN public.location_promotions.weekdays IS 'Days of the week it runs (0 = Sunday); NULL = every day';
+COMMENT ON COLUMN public.location_promotions.discount_percent IS 'Off the regular price (50 for a 2x1); with the item price elasticity, sets the expected uplift until the promotion is observed';
+COMMENT ON COLUMN public.location_promotions.expected_uplift IS 'Manager estimate of the sales multiplier; takes precedence over the discount until observed';
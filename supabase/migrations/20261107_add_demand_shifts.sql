@@ -0,0 +1,31 @@
+-- Lasting changes in items' sales level found by the forecast job (see lib/demand-shifts.ts)
+CREATE TABLE IF NOT EXISTS public.demand_shifts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  item TEXT NOT NULL,
+  change_date DATE NOT NULL,
+  before_quantity NUMERIC NOT NULL,
+  after_quantity NUMERIC NOT NULL,
+  share_before NUMERIC NOT NULL,
+  share_after NUMERIC NOT NULL,
+  mix_shift BOOLEAN NOT NULL DEFAULT FALSE,
+  score NUMERIC NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reset', 'dismissed')),
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  reviewed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_demand_shifts_location_item_date
+ON public.demand_shifts(location_id, item, change_date);
+
+ALTER TABLE public.demand_shifts ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.demand_shifts.change_date IS 'First day at the new level';
+COMMENT ON COLUMN public.demand_shifts.before_quantity IS 'Mean daily units in the weeks before the change';
+COMMENT ON COLUMN public.demand_shifts.after_quantity IS 'Mean daily units since the change, when it was detected';
+COMMENT ON COLUMN public.demand_shifts.share_before IS 'Item share of the location units before the change';
+COMMENT ON COLUMN public.demand_shifts.share_after IS 'Item share of the location units since the change';
+COMMENT ON COLUMN public.demand_shifts.mix_shift IS 'The share moved too: demand moved between items rather than with the whole location';
+COMMENT ON COLUMN public.demand_shifts.score IS 'z-score of the change against the weekday means before it; positive = up';
+COMMENT ON COLUMN public.demand_shifts.status IS 'open = alerted, awaiting review; reset = the item is trained from change_date on; dismissed = full history kept';
@@ -0,0 +1,22 @@
+-- Weekly opening hours per location (see lib/opening-hours.ts)
+ALTER TABLE public.locations
+ADD COLUMN IF NOT EXISTS opening_hours JSONB;
+
+COMMENT ON COLUMN public.locations.opening_hours IS 'Seven entries by weekday (0 = Sunday), each {"opens": "HH:MM", "closes": "HH:MM"} in local time or null when closed; NULL = open every day';
+
+-- One-off closures per location (renovations, staff holidays)
+CREATE TABLE IF NOT EXISTS public.location_closures (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_location_closures_location_date
+ON public.location_closures(location_id, date);
+
+ALTER TABLE public.location_closures ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.location_closures.date IS 'Local date the location is closed all day: no forecast, and left out of training';
@@ -0,0 +1,24 @@
+-- Orders known in advance per location, like catering (see lib/scheduled-orders.ts)
+CREATE TABLE IF NOT EXISTS public.scheduled_orders (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  name TEXT NOT NULL,
+  items JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_orders_location_date
+ON public.scheduled_orders(location_id, date);
+
+ALTER TABLE public.scheduled_orders ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.scheduled_orders.date IS 'Local date the order is served or picked up: added to that day''s forecast while pending, taken out of training once fulfilled';
+COMMENT ON COLUMN public.scheduled_orders.items IS 'Units per item, e.g. {"Tacos": 60, "Guacamole": 10}, named as in sales_data';
+
+-- Units of scheduled orders included in each forecast
+ALTER TABLE public.forecasts
+ADD COLUMN IF NOT EXISTS scheduled_quantity INTEGER;
+
+COMMENT ON COLUMN public.forecasts.scheduled_quantity IS 'Units of pending scheduled orders included in predicted_quantity; NULL without orders';
@@ -0,0 +1,6 @@
+-- Prospect's timezone on WhatsApp demo requests, so the demo forecasts their
+-- tomorrow (see lib/demo-forecast.ts)
+ALTER TABLE IF EXISTS public.demo_whatsapp_request
+ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+COMMENT ON COLUMN public.demo_whatsapp_request.timezone IS 'IANA timezone sent by the demo page; NULL = America/New_York';
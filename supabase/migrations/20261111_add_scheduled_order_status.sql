@@ -0,0 +1,8 @@
+-- Whether each scheduled order was served (see lib/scheduled-orders.ts)
+ALTER TABLE public.scheduled_orders
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'fulfilled', 'cancelled'));
+
+-- Past orders were all treated as fulfilled until now
+UPDATE public.scheduled_orders SET status = 'fulfilled' WHERE date < CURRENT_DATE;
+
+COMMENT ON COLUMN public.scheduled_orders.status IS 'pending = added to its day''s forecast until marked; fulfilled = taken out of training; cancelled = ignored';
@@ -0,0 +1,11 @@
+-- Uploaded rows without a time of day (see salesDate in lib/forecast-job.ts)
+ALTER TABLE public.sales_data
+ADD COLUMN IF NOT EXISTS daily_total BOOLEAN NOT NULL DEFAULT false;
+
+-- Uploads so far stored date-only rows at UTC midnight
+UPDATE public.sales_data
+SET daily_total = true
+WHERE source = 'csv_upload'
+  AND timestamp = date_trunc('day', timestamp AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+
+COMMENT ON COLUMN public.sales_data.daily_total IS 'The day''s units of the item, uploaded without a time and stored at UTC midnight of its date: dated as that date and left out of the hourly split';
@@ -19,6 +19,8 @@ CREATE TABLE IF NOT EXISTS locations (
   restaurant_type TEXT CHECK (restaurant_type IN ('fast_food', 'casual_dining', 'fine_dining', 'cafe', 'food_truck', 'bakery', 'bar', 'other')),
   restaurant_size TEXT CHECK (restaurant_size IN ('small', 'medium', 'large')),
   cuisine_type TEXT CHECK (cuisine_type IN ('italian', 'mexican', 'american', 'asian', 'indian', 'mediterranean', 'french', 'japanese', 'chinese', 'thai', 'vietnamese', 'korean', 'greek', 'spanish', 'brazilian', 'peruvian', 'colombian', 'fusion', 'international', 'other')),
+  country TEXT, -- ISO 3166-1 alpha-2, picks the holiday calendar
+  opening_hours JSONB, -- 7 entries by weekday (0 = Sunday): {"opens": "HH:MM", "closes": "HH:MM"} or null when closed; NULL = open every day
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -26,6 +28,8 @@ CREATE TABLE IF NOT EXISTS locations (
 COMMENT ON COLUMN public.locations.restaurant_type IS 'Type: fast_food, casual_dining, fine_dining, cafe, etc.';
 COMMENT ON COLUMN public.locations.restaurant_size IS 'Size: small, medium, large';
 COMMENT ON COLUMN public.locations.cuisine_type IS 'Cuisine: italian, mexican, american, asian, etc.';
+COMMENT ON COLUMN public.locations.country IS 'ISO 3166-1 alpha-2 country for the holiday calendar; NULL = derived from the kitchen_close timezone';
+COMMENT ON COLUMN public.locations.opening_hours IS 'Seven entries by weekday (0 = Sunday), each {"opens": "HH:MM", "closes": "HH:MM"} in local time or null when closed; NULL = open every day';
 
 -- Collaborators (operators) table
 CREATE TABLE IF NOT EXISTS collaborators (
@@ -54,11 +58,257 @@ CREATE TABLE IF NOT EXISTS reports (
   location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
   item_name TEXT NOT NULL,
   forecast_quantity INTEGER NOT NULL DEFAULT 0,
+  prep_quantity INTEGER, -- Recommended prep (newsvendor), when the item has economics
   actual_quantity INTEGER NOT NULL DEFAULT 0,
   date DATE NOT NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Forecasts table (one row per location, date and item)
+CREATE TABLE IF NOT EXISTS forecasts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  forecast_date DATE NOT NULL,
+  horizon_day INTEGER, -- Days ahead of the generating run (1 = tomorrow)
+  item TEXT NOT NULL,
+  predicted_quantity INTEGER,
+  prediction_quantiles JSONB, -- e.g. {"p10": 32, "p50": 40, "p90": 51}
+  probability_of_sale NUMERIC, -- Chance (0-1) of selling at least one unit
+  demand_pattern TEXT CHECK (demand_pattern IN ('smooth', 'intermittent')),
+  data_coverage NUMERIC, -- Share (0-1) of open days with sales data since the first sale
+  low_confidence BOOLEAN NOT NULL DEFAULT false, -- Little history; leans on peer locations
+  prep_quantity INTEGER, -- Forecast quantile at service_level; NULL without item_economics
+  service_level NUMERIC, -- Newsvendor critical ratio (0-1) from item_economics
+  explanation JSONB, -- Method contributions, weekday effect, trend and adjustments (ForecastExplanation)
+  override_quantity INTEGER, -- Set by a manager and sent instead of predicted_quantity
+  hourly_quantities JSONB, -- Units per local hour, adding up to predicted_quantity (POS timestamps)
+  daypart_quantities JSONB, -- Units for breakfast, lunch and dinner
+  model_version TEXT, -- Champion model version that produced the row (lib/model-versions.ts)
+  scheduled_quantity INTEGER, -- Units of pending scheduled orders included in predicted_quantity
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Forecast job runs (one row per invocation)
+CREATE TABLE IF NOT EXISTS forecast_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'completed_with_errors', 'failed')),
+  locations_total INTEGER NOT NULL DEFAULT 0,
+  locations_succeeded INTEGER NOT NULL DEFAULT 0,
+  locations_failed INTEGER NOT NULL DEFAULT 0,
+  locations_skipped INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Per-location outcome of each forecast job run
+CREATE TABLE IF NOT EXISTS forecast_run_locations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id UUID REFERENCES forecast_runs(id) ON DELETE CASCADE,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  forecast_date DATE,
+  horizon_days INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL CHECK (status IN ('success', 'skipped', 'failed')),
+  items_forecasted INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Fitted forecasting parameters per item (item NULL = whole location)
+CREATE TABLE IF NOT EXISTS forecast_model_parameters (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  item TEXT,
+  weights JSONB NOT NULL, -- [weightedMovingAverage, exponentialSmoothing, dayOfWeekPattern, linearTrendForecast, holtWinters]
+  alpha NUMERIC NOT NULL,
+  recent_weight NUMERIC NOT NULL,
+  seasonality TEXT CHECK (seasonality IN ('additive', 'multiplicative')), -- Holt-Winters weekly season
+  mae NUMERIC, -- Backtest ensemble MAE achieved with these parameters
+  observations INTEGER NOT NULL DEFAULT 0,
+  fitted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Organization-defined events per location (local festivals, street closures, ...)
+CREATE TABLE IF NOT EXISTS location_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE, -- NULL = single day
+  recurs_annually BOOLEAN NOT NULL DEFAULT false,
+  expected_uplift NUMERIC CHECK (expected_uplift > 0), -- Manager estimate used until the event is observed
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Daily weather per location (observed and forecast), cached from the weather provider
+CREATE TABLE IF NOT EXISTS location_weather (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  temperature_c NUMERIC NOT NULL, -- Daily mean
+  precipitation_mm NUMERIC NOT NULL, -- Daily total
+  is_forecast BOOLEAN NOT NULL DEFAULT false, -- Replaced by observations once the day has passed
+  provider TEXT NOT NULL,
+  fetched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Days whose sales look anomalous (catering orders, bad uploads), flagged by the forecast job
+CREATE TABLE IF NOT EXISTS sales_outliers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  item TEXT NOT NULL,
+  quantity NUMERIC NOT NULL,
+  expected_quantity NUMERIC NOT NULL, -- Same-weekday median in the surrounding weeks
+  score NUMERIC NOT NULL, -- Robust z-score; positive = spike, negative = drop
+  status TEXT NOT NULL DEFAULT 'flagged' CHECK (status IN ('flagged', 'confirmed', 'rejected')), -- confirmed = excluded from training
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  reviewed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Menu categories per organization (e.g. "Bowls"), the middle level of the forecast hierarchy
+CREATE TABLE IF NOT EXISTS item_categories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  item TEXT NOT NULL, -- As it appears in sales_data; items without a row are Uncategorized
+  category TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Category and location totals, reconciled with the item rows in forecasts
+CREATE TABLE IF NOT EXISTS forecast_aggregates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  forecast_date DATE NOT NULL,
+  level TEXT NOT NULL CHECK (level IN ('category', 'location')),
+  category TEXT, -- NULL for the location total
+  predicted_quantity INTEGER, -- Sum of the reconciled item forecasts
+  prediction_quantiles JSONB,
+  reconciliation TEXT NOT NULL CHECK (reconciliation IN ('bottom-up', 'mint')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Ingredients per unit of a menu item, used to turn item forecasts into prep quantities
+CREATE TABLE IF NOT EXISTS recipe_ingredients (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  item TEXT NOT NULL, -- As it appears in sales_data and forecasts
+  ingredient TEXT NOT NULL,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0), -- Per unit of the item
+  unit TEXT NOT NULL, -- Free-form (g, kg, ml, each)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Unit cost, price and shelf life per item, for newsvendor prep quantities
+CREATE TABLE IF NOT EXISTS item_economics (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  item TEXT NOT NULL, -- As it appears in sales_data and forecasts
+  unit_cost_cents INTEGER NOT NULL CHECK (unit_cost_cents >= 0),
+  price_cents INTEGER NOT NULL CHECK (price_cents >= 0),
+  shelf_life_days INTEGER NOT NULL DEFAULT 1 CHECK (shelf_life_days >= 1), -- 1 = wasted at close
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Audit trail of manager overrides (the latest per date and item is in effect)
+CREATE TABLE IF NOT EXISTS forecast_overrides (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  forecast_date DATE NOT NULL,
+  item TEXT NOT NULL,
+  original_quantity INTEGER, -- Model forecast when overridden
+  override_quantity INTEGER, -- NULL reverts to the model forecast
+  reason TEXT,
+  source TEXT NOT NULL CHECK (source IN ('dashboard', 'whatsapp')),
+  overridden_by TEXT, -- Dashboard user email or WhatsApp phone number
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Champion (sent) and challenger (shadow) model version per organization
+CREATE TABLE IF NOT EXISTS organization_models (
+  organization_id TEXT PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  champion_version TEXT NOT NULL DEFAULT 'ensemble-v1',
+  challenger_version TEXT, -- NULL for none
+  promoted_at TIMESTAMP WITH TIME ZONE, -- When the last challenger became the champion
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Challenger forecasts, compared with the champion but never sent
+CREATE TABLE IF NOT EXISTS shadow_forecasts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  forecast_date DATE NOT NULL,
+  horizon_day INTEGER,
+  item TEXT NOT NULL,
+  model_version TEXT NOT NULL,
+  predicted_quantity INTEGER,
+  prediction_quantiles JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Promotions planned per location and item; sales flagged with the same name are past runs
+CREATE TABLE IF NOT EXISTS location_promotions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  item TEXT NOT NULL, -- As it appears in sales_data and forecasts
+  name TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE, -- NULL = runs until removed
+  weekdays INTEGER[], -- 0 = Sunday; NULL = every day
+  discount_percent NUMERIC CHECK (discount_percent > 0 AND discount_percent < 100), -- 50 for a 2x1
+  expected_uplift NUMERIC CHECK (expected_uplift > 0), -- Manager estimate used until the promotion is observed
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Lasting changes in items' sales level; reset items are trained from change_date on
+CREATE TABLE IF NOT EXISTS demand_shifts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  item TEXT NOT NULL,
+  change_date DATE NOT NULL, -- First day at the new level
+  before_quantity NUMERIC NOT NULL, -- Mean daily units in the weeks before
+  after_quantity NUMERIC NOT NULL, -- Mean daily units since, when detected
+  share_before NUMERIC NOT NULL, -- Share of the location's units
+  share_after NUMERIC NOT NULL,
+  mix_shift BOOLEAN NOT NULL DEFAULT FALSE, -- The share moved too: demand moved between items
+  score NUMERIC NOT NULL, -- z-score of the change; positive = up
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reset', 'dismissed')),
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  reviewed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One-off closures per location; closed days get no forecast and are left out of training
+CREATE TABLE IF NOT EXISTS location_closures (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  reason TEXT, -- e.g. "Renovation"
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Orders known in advance (catering, pre-bookings); pending ones are added to forecasts, fulfilled ones left out of training
+CREATE TABLE IF NOT EXISTS scheduled_orders (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  date DATE NOT NULL, -- Local date it is served or picked up
+  name TEXT NOT NULL, -- e.g. "Acme offsite, 60 people"
+  items JSONB NOT NULL, -- Units per item, e.g. {"Tacos": 60}
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'fulfilled', 'cancelled')), -- Only fulfilled orders are left out of training
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_locations_organization ON locations(organization_id);
 CREATE INDEX IF NOT EXISTS idx_collaborators_organization ON collaborators(organization_id);
@@ -67,6 +317,25 @@ CREATE INDEX IF NOT EXISTS idx_credentials_organization ON credentials(organizat
 CREATE INDEX IF NOT EXISTS idx_reports_organization ON reports(organization_id);
 CREATE INDEX IF NOT EXISTS idx_reports_location ON reports(location_id);
 CREATE INDEX IF NOT EXISTS idx_reports_date ON reports(date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_forecasts_location_date_item ON forecasts(location_id, forecast_date, item);
+CREATE INDEX IF NOT EXISTS idx_forecasts_organization ON forecasts(organization_id);
+CREATE INDEX IF NOT EXISTS idx_forecasts_date ON forecasts(forecast_date);
+CREATE INDEX IF NOT EXISTS idx_forecast_run_locations_run ON forecast_run_locations(run_id);
+CREATE INDEX IF NOT EXISTS idx_forecast_run_locations_location ON forecast_run_locations(location_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_forecast_model_parameters_location_item ON forecast_model_parameters(location_id, item) NULLS NOT DISTINCT;
+CREATE INDEX IF NOT EXISTS idx_location_events_location ON location_events(location_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_location_weather_location_date ON location_weather(location_id, date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_outliers_location_date_item ON sales_outliers(location_id, date, item);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_item_categories_organization_item ON item_categories(organization_id, item);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_forecast_aggregates_location_date_level ON forecast_aggregates(location_id, forecast_date, level, category) NULLS NOT DISTINCT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recipe_ingredients_organization_item_ingredient ON recipe_ingredients(organization_id, item, ingredient);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_item_economics_organization_item ON item_economics(organization_id, item);
+CREATE INDEX IF NOT EXISTS idx_forecast_overrides_location_date ON forecast_overrides(location_id, forecast_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shadow_forecasts_location_date_item_version ON shadow_forecasts(location_id, forecast_date, item, model_version);
+CREATE INDEX IF NOT EXISTS idx_location_promotions_location ON location_promotions(location_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_demand_shifts_location_item_date ON demand_shifts(location_id, item, change_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_location_closures_location_date ON location_closures(location_id, date);
+CREATE INDEX IF NOT EXISTS idx_scheduled_orders_location_date ON scheduled_orders(location_id, date);
 
 -- Enable Row Level Security (RLS) on all tables
 ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
@@ -74,3 +343,21 @@ ALTER TABLE locations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE collaborators ENABLE ROW LEVEL SECURITY;
 ALTER TABLE credentials ENABLE ROW LEVEL SECURITY;
 ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE forecasts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE forecast_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE forecast_run_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE forecast_model_parameters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE location_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE location_weather ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sales_outliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE item_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE forecast_aggregates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipe_ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE item_economics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE forecast_overrides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_models ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shadow_forecasts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE location_promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE demand_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE location_closures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_orders ENABLE ROW LEVEL SECURITY;